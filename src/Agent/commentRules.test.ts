@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import adrianStyleConfig from "../config/adrian-style";
+import { checkComment, countWords, getCommentRules } from "./commentRules";
+
+const character = {
+  communicationStyle: {
+    vocabulary: { avoidWords: ["amazing", "love it"] },
+    messageLength: { comments: { min: 3, ideal: 6, max: 10 } }
+  },
+  comments: { avoid: ["Great post!"] },
+  captions: { emojis: { max: 1, preferred: ["✅"], avoid: ["❤️", "🔥"] } }
+};
+const rules = getCommentRules(character);
+
+test("getCommentRules reads the rules from the character", () => {
+  assert.deepEqual(rules, {
+    avoidWords: ["amazing", "love it"],
+    avoidComments: ["Great post!"],
+    minWords: 3,
+    idealWords: 6,
+    maxWords: 10,
+    maxEmojis: 1,
+    avoidEmojis: ["❤️", "🔥"],
+    preferredEmojis: ["✅"]
+  });
+  assert.deepEqual(getCommentRules(undefined), {
+    avoidWords: [], avoidComments: [], minWords: null, idealWords: null, maxWords: null, maxEmojis: null, avoidEmojis: [], preferredEmojis: []
+  });
+});
+
+test("comments.emojis take precedence over captions.emojis", () => {
+  const withCommentEmojis = getCommentRules({ ...character, comments: { emojis: { max: 0, avoid: ["👍"] } } });
+  assert.equal(withCommentEmojis.maxEmojis, 0);
+  assert.deepEqual(withCommentEmojis.avoidEmojis, ["👍"]);
+});
+
+test("checkComment accepts a comment that follows every rule", () => {
+  assert.deepEqual(checkComment("Solid menu for a seaside spot ✅", rules), []);
+});
+
+test("checkComment rejects empty comments", () => {
+  assert.deepEqual(checkComment("   ", rules), ["the comment is empty"]);
+});
+
+test("checkComment matches banned words as whole words, case-insensitively", () => {
+  assert.deepEqual(checkComment("This view is Amazing, really", rules), ["it uses banned words: amazing"]);
+  assert.deepEqual(checkComment("We love it here, honestly", rules), ["it uses banned words: love it"]);
+  assert.deepEqual(checkComment("Amazingly clear numbers here", rules), []);
+});
+
+test("checkComment rejects the generic comments regardless of case and punctuation", () => {
+  assert.deepEqual(checkComment("great post", rules), ["it is one of the generic comments to avoid", "it is too short (2 words, at least 3)"]);
+});
+
+test("checkComment checks the length in words", () => {
+  assert.deepEqual(checkComment("Nice ✅", rules), ["it is too short (1 words, at least 3)"]);
+  assert.deepEqual(checkComment("one two three four five six seven eight nine ten eleven", rules), ["it is too long (11 words, at most 10)"]);
+  assert.equal(countWords("Solid menu — 10/10 ✅"), 3);
+});
+
+test("checkComment limits emojis and rejects avoided ones with or without variation selectors", () => {
+  assert.deepEqual(checkComment("Good call on the location ✅✅", rules), ["it has 2 emojis (at most 1)"]);
+  assert.deepEqual(checkComment("Good call on the location ❤", rules), ["it uses emojis to avoid: ❤"]);
+  assert.deepEqual(checkComment("Good call on the location 🔥", rules), ["it uses emojis to avoid: 🔥"]);
+});
+
+test("the built-in adrian-style character rejects its own avoided words and emojis", () => {
+  const adrian = getCommentRules(adrianStyleConfig);
+  const problems = checkComment("Wow 🔥", adrian);
+  assert.ok(problems.includes("it uses banned words: wow"), problems.join("; "));
+  assert.ok(problems.includes("it uses emojis to avoid: 🔥"), problems.join("; "));
+  assert.ok(problems.some(problem => problem.startsWith("it is too short")), problems.join("; "));
+});
@@ -0,0 +1,71 @@
+// Rules a generated comment must follow, read from the character (see the "comments",
+// "communicationStyle" and "captions.emojis" sections of src/config/adrian-style.ts).
+// The comment prompt states them, and checkComment() rejects comments that break them anyway.
+
+export interface CommentRules {
+  avoidWords: string[];       // communicationStyle.vocabulary.avoidWords, matched as whole words
+  avoidComments: string[];    // comments.avoid: generic comments that must not be sent
+  minWords: number | null;    // communicationStyle.messageLength.comments
+  idealWords: number | null;
+  maxWords: number | null;
+  maxEmojis: number | null;   // comments.emojis, falling back to captions.emojis
+  avoidEmojis: string[];
+  preferredEmojis: string[];
+}
+
+const EMOJI = () => new RegExp("\\p{Extended_Pictographic}", "gu");
+
+const stripVariation = (value: string) => value.replace(/\uFE0F/g, "");
+// Letters and digits only, for comparing a comment with the generic ones
+const normalize = (value: string) => value.toLowerCase().replace(new RegExp("[^\\p{L}\\p{N}\\s]", "gu"), "").replace(/\s+/g, " ").trim();
+const asNumber = (value: unknown) => (typeof value === "number" && value >= 0 ? value : null);
+const asStrings = (value: unknown): string[] => (Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v.trim() !== "") : []);
+
+export function getCommentRules(character: any): CommentRules {
+  const length = character?.communicationStyle?.messageLength?.comments || {};
+  const emojis = character?.comments?.emojis || character?.captions?.emojis || {};
+  return {
+    avoidWords: asStrings(character?.communicationStyle?.vocabulary?.avoidWords),
+    avoidComments: asStrings(character?.comments?.avoid),
+    minWords: asNumber(length.min),
+    idealWords: asNumber(length.ideal),
+    maxWords: asNumber(length.max),
+    maxEmojis: asNumber(emojis.max),
+    avoidEmojis: asStrings(emojis.avoid),
+    preferredEmojis: asStrings(emojis.preferred)
+  };
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => new RegExp("[\\p{L}\\p{N}]", "u").test(word)).length;
+}
+
+/**
+ * Problems with a generated comment, as short sentences for the log and for the regeneration
+ * prompt. An empty list means the comment can be posted.
+ */
+export function checkComment(comment: string, rules: CommentRules): string[] {
+  const text = comment.trim();
+  if (!text) return ["the comment is empty"];
+  const problems: string[] = [];
+
+  const banned = rules.avoidWords.filter(word =>
+    new RegExp(`(?<![\\p{L}\\p{N}])${word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\p{L}\\p{N}])`, "iu").test(text));
+  if (banned.length > 0) problems.push(`it uses banned words: ${banned.join(", ")}`);
+
+  if (rules.avoidComments.some(generic => normalize(generic) !== "" && normalize(generic) === normalize(text))) {
+    problems.push("it is one of the generic comments to avoid");
+  }
+
+  const words = countWords(text);
+  if (rules.minWords !== null && words < rules.minWords) problems.push(`it is too short (${words} words, at least ${rules.minWords})`);
+  if (rules.maxWords !== null && words > rules.maxWords) problems.push(`it is too long (${words} words, at most ${rules.maxWords})`);
+
+  const emojis = (text.match(EMOJI()) || []).map(stripVariation);
+  if (rules.maxEmojis !== null && emojis.length > rules.maxEmojis) problems.push(`it has ${emojis.length} emojis (at most ${rules.maxEmojis})`);
+  const avoided = new Set(rules.avoidEmojis.map(stripVariation));
+  const usedAvoided = [...new Set(emojis.filter(emoji => avoided.has(emoji)))];
+  if (usedAvoided.length > 0) problems.push(`it uses emojis to avoid: ${usedAvoided.join(" ")}`);
+
+  return problems;
+}
@@ -1,7 +1,8 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import logger from "../config/logger";
 import { geminiApiKeys } from "../secret";
-import { handleError } from "../utils";
+import { handleError, markGeminiKeyRateLimited } from "../utils";
+import { geminiKeyRotations, timeGeminiCall } from "../services/Metrics";
 import { InstagramCommentSchema } from "./schema";
 import fs from "fs";
 import path from "path";
@@ -53,7 +54,7 @@ export async function runAgent(
   });
 
   try {
-    const result = await model.generateContent(prompt);
+    const result = await timeGeminiCall("runAgent", () => model.generateContent(prompt));
 
     if (!result || !result.response) {
       logger.info("No response received from the AI model. || Service Unavailable");
@@ -69,10 +70,12 @@ export async function runAgent(
       logger.error(
         `---GEMINI_API_KEY_${apiKeyIndex + 1} limit exhausted, switching to the next API key...`
       );
+      markGeminiKeyRateLimited(apiKeyIndex);
       try {
         // Simple backoff
         await new Promise(resolve => setTimeout(resolve, 2000));
         geminiApiKey = getNextAgentApiKey();
+        geminiKeyRotations.inc({ caller: "runAgent" });
         return runAgent(schema, prompt, currentAgentApiKeyIndex);
       } catch (keyError) {
         if (keyError instanceof Error) {
@@ -0,0 +1,215 @@
+// Prompts the Instagram client sends to Gemini, built here so the character preview
+// (POST /api/characters/:file/preview) renders exactly what an account would send.
+
+import { getCommentRules } from "./commentRules";
+
+export interface DMHistoryMessage {
+  text: string;
+  isMine: boolean;
+}
+
+export interface DMReplyPromptInput {
+  character: any;
+  partnerUsername: string;
+  history: DMHistoryMessage[];
+  facts: string[];            // Known facts about the partner (see the Contact model)
+  languages: string[];
+  defaultLanguage: string;
+}
+
+export interface CampaignMessagePromptInput {
+  character: any;
+  username: string;
+  message: string;            // The campaign template, already filled in for this recipient
+  facts: string[];
+  languages: string[];
+  defaultLanguage: string;
+}
+
+export interface StoryReplyPromptInput {
+  character: any;
+  username: string;           // Story author
+  story: string;              // What the story shows: image description, stickers and text on it
+  languages: string[];
+  defaultLanguage: string;
+}
+
+export interface CommentPromptInput {
+  character: any;
+  caption: string;
+  languages: string[];
+  defaultLanguage: string;
+  rejected?: { comment: string; problems: string[] }[];   // Earlier attempts that failed checkComment()
+}
+
+export interface PostCaptionPromptInput {
+  character: any;             // chooseCharacter() result; its "captions" section drives the style
+  postType: string | null;    // Key of captions.postTypes
+  notes: string;              // What the post shows or is about, from the operator
+  languages: string[];
+  defaultLanguage: string;
+}
+
+export function buildCommentPrompt({ character, caption, languages, defaultLanguage, rejected }: CommentPromptInput): string {
+  const charName = character?.aiPersona?.name || character?.userProfile?.name || character?.name || "User";
+  const comments = character?.comments || {};
+  const rules = getCommentRules(character);
+  const style = Object.entries(comments.style || {}).map(([key, value]) => `${key}: ${value}`).join(", ");
+  const tone = character?.communicationStyle?.tone;
+  const examples = Object.entries<string[]>(comments.templates || {})
+    .map(([kind, templates]) => `- ${kind}: ${templates.join(" | ")}`).join("\n");
+  const guidelines = [
+    rules.minWords !== null || rules.maxWords !== null
+      ? `Length: ${rules.idealWords !== null ? `about ${rules.idealWords} words, ` : ""}between ${rules.minWords ?? 1} and ${rules.maxWords ?? "any number of"} words.`
+      : "Keep it concise (1-2 sentences).",
+    rules.avoidWords.length > 0 ? `Never use these words: ${rules.avoidWords.join(", ")}.` : "",
+    rules.avoidComments.length > 0 ? `Never write generic comments like: ${rules.avoidComments.map(c => `"${c}"`).join(", ")}.` : "",
+    rules.maxEmojis !== null
+      ? `Emojis: at most ${rules.maxEmojis}${rules.preferredEmojis.length > 0 ? `, preferably ${rules.preferredEmojis.join(" ")}` : ""}${rules.avoidEmojis.length > 0 ? `; never ${rules.avoidEmojis.join(" ")}` : ""}.`
+      : "",
+    ...Object.entries(comments.rules || {}).filter(([, on]) => on === true).map(([rule]) => `Rule: ${rule.replace(/([A-Z])/g, " $1").toLowerCase()}.`),
+    `React specifically to this post; no generic praise, no self-promotion, nothing against Instagram's guidelines.`,
+    `Write in the caption's language if you speak it (you speak: ${languages.join(", ")}); otherwise use "${defaultLanguage}".`
+  ].filter(Boolean);
+
+  return `You are ${charName} on Instagram, commenting on someone else's post.
+Your Style: ${[style, tone].filter(Boolean).join(", ") || "natural"}
+
+[THE POST CAPTION]
+${caption || "(No caption.)"}
+${examples ? `\n[COMMENTS YOU TYPICALLY WRITE, BY KIND OF POST]\n${examples}\n` : ""}
+Task: Write one comment as ${charName}.
+Guidelines:
+${guidelines.map(line => `- ${line}`).join("\n")}
+${rejected && rejected.length > 0 ? `\n[REJECTED EARLIER]\n${rejected.map(r => `- "${r.comment}": ${r.problems.join("; ")}`).join("\n")}\nWrite a different comment that fixes these problems.\n` : ""}`;
+}
+
+export function buildDMReplyPrompt({ character, partnerUsername, history, facts, languages, defaultLanguage }: DMReplyPromptInput): string {
+  const historyText = history.map(h => h.isMine ? `[Me]: ${h.text}` : `[Him]: ${h.text}`).join('\n');
+
+  const charName = character?.aiPersona?.name || character?.name || "User";
+  const charBio = (character?.bio || []).join(" ");
+  const charLore = (character?.lore || []).join(" ");
+  const charTopics = (character?.topics || []).join(", ");
+  const charAdjectives = (character?.adjectives || []).join(", ");
+  const charStyle = (character?.style?.all || []).join(" ");
+  const charGoal = character?.goal || "Engage naturally.";
+  const charLocation = character?.location || "Unknown";
+
+  const rawExamples = character?.messageExamples || [];
+  let formattedExamples = "";
+  if (rawExamples.length > 0) {
+    formattedExamples = "\n[EXAMPLE CONVERSATIONS]\n" + rawExamples.map((exList: any[]) => {
+      return exList.map((msg: any) => {
+        const role = msg.user === "{{user1}}" ? "User" : charName;
+        return `${role}: ${msg.content?.text || ""}`;
+      }).join('\n');
+    }).join('\n---\n') + "\n";
+  }
+
+  return `You are ${charName} on Instagram.
+            
+            Your Bio: ${charBio}
+            Your Lore/Backstory: ${charLore}
+            Your Interests: ${charTopics}
+            Your Style/Tone: ${charAdjectives} ${charStyle}
+            Your Location: ${charLocation}
+            
+            Your Main Goal: ${charGoal}
+            ${formattedExamples}
+            You are replying to a DM thread with user: "${partnerUsername}".
+
+            [KNOWN FACTS ABOUT USER]
+            ${facts.length > 0 ? facts.map(f => `- ${f}`).join('\n') : "(None yet)"}
+
+            [CONVERSATION HISTORY (Last 10 messages)]
+            ${historyText}
+
+             Language Configuration:
+            - You speak: [${languages.join(', ')}]
+            - Default Language: "${defaultLanguage}"
+            
+            Task: Generate a natural response as ${charName}.
+            Guidelines:
+            - IMPORTANT: ALWAYS detect the language of the user's latest incoming message. You MUST respond in that same language (e.g., if the latest message is in German, reply in German; if in French, reply in French). Fallback to your Default Language ("${defaultLanguage}") ONLY if the user's language is not one of your spoken languages.
+            - UNIQUE RESPONSES: Avoid repetition. Do NOT repeat or reuse exact sentences, structures, or phrases from your previous messages in the conversation history. Every response must be unique and contextually fresh.
+            - Keep it concise (1-2 sentences usually).
+            - Match your specific tone and style defined above.
+            - If the message is "hi" or generic, reply in character.
+            - If it's spam, ignore it (return empty string or "IGNORE").
+            - Do not be overly helpful assistant-like; be the character.
+            - IMPORTANT: Extract any NEW permanent facts about the user (e.g. name, age, city, pets, likes, relationships) from the conversation. Return them in the 'memory_updates' field.
+            `;
+}
+
+export function buildCampaignMessagePrompt({ character, username, message, facts, languages, defaultLanguage }: CampaignMessagePromptInput): string {
+  const charName = character?.aiPersona?.name || character?.name || "User";
+  const charStyle = [...(character?.adjectives || []), ...(character?.style?.chat || character?.style?.all || [])].join(", ");
+
+  return `You are ${charName} on Instagram, about to send a direct message to "${username}".
+Your Style/Tone: ${charStyle || "natural and friendly"}
+
+[MESSAGE TO SEND]
+${message}
+
+[KNOWN FACTS ABOUT ${username}]
+${facts.map(f => `- ${f}`).join('\n')}
+
+Task: Rewrite the message so it feels written for ${username}, using at most one or two of the facts where they fit naturally.
+Guidelines:
+- Keep the offer, links, dates and any call to action exactly as they are.
+- Keep roughly the same length; do not add new claims or promises.
+- Write in the message's language (you speak: ${languages.join(', ')}; default "${defaultLanguage}").
+- Do not mention that you know these facts from earlier conversations or notes.
+`;
+}
+
+export function buildStoryReplyPrompt({ character, username, story, languages, defaultLanguage }: StoryReplyPromptInput): string {
+  const charName = character?.aiPersona?.name || character?.name || "User";
+  const charStyle = [...(character?.adjectives || []), ...(character?.style?.chat || character?.style?.all || [])].join(", ");
+  const charTopics = (character?.topics || []).join(", ");
+
+  return `You are ${charName} on Instagram, replying to a story posted by "${username}".
+Your Style/Tone: ${charStyle || "natural and friendly"}
+Your Interests: ${charTopics || "(not specified)"}
+
+[THE STORY]
+${story || "(No description available.)"}
+
+Task: Write the reply as ${charName}. It arrives in ${username}'s DMs next to the story.
+Guidelines:
+- One short, casual sentence that reacts to this specific story; an emoji is fine.
+- No generic praise ("Nice!", "Great story!"), no questions that sound like a survey, no links or promotion.
+- Write in the language of the story text if you speak it (you speak: ${languages.join(', ')}); otherwise use "${defaultLanguage}".
+- If the story has nothing to react to, return an empty reply.
+`;
+}
+
+export function buildPostCaptionPrompt({ character, postType, notes, languages, defaultLanguage }: PostCaptionPromptInput): string {
+  const charName = character?.aiPersona?.name || character?.userProfile?.name || character?.name || "User";
+  const captions = character?.captions || {};
+  const type = postType ? captions.postTypes?.[postType] : null;
+  const length = character?.communicationStyle?.messageLength?.captions;
+  const emojis = captions.emojis;
+  const hashtags = captions.hashtags;
+  const categories = Object.entries(hashtags?.categories || {})
+    .map(([name, tags]) => `- ${name}: ${(tags as string[]).join(" ")}`).join("\n");
+  const examples = (captions.examples || []).map((e: any) => `- (${e.context}) ${e.caption}`).join("\n");
+  const rules = (character?.aiPersona?.writingRules || []).join("\n");
+
+  return `You are ${charName}, writing the caption of your own Instagram post.
+Your Style: ${Object.entries(captions.style || {}).map(([key, value]) => `${key}: ${value}`).join(", ") || "natural"}
+${type ? `\n[POST TYPE: ${postType}]\nStructure: ${type.template}\nExample: ${type.example}\n` : ""}
+[WHAT THE POST IS ABOUT]
+${notes || "(No notes. Write a caption that fits your usual content.)"}
+
+[EXAMPLE CAPTIONS]
+${examples || "(None)"}
+
+${rules ? `[WRITING RULES]\n${rules}\n\n` : ""}Task: Write the caption and choose its hashtags.
+Guidelines:
+${length ? `- Length: ${length.style || "short"}, about ${length.ideal} characters (between ${length.min} and ${length.max}), hashtags not included.\n` : ""}${(captions.typicalPhrases || []).length > 0 ? `- You may use one of your typical phrases: ${captions.typicalPhrases.join(", ")}.\n` : ""}${emojis ? `- Emojis: ${emojis.frequency}, at most ${emojis.max}, ${emojis.placement}. Prefer ${(emojis.preferred || []).join(" ")}; never use ${(emojis.avoid || []).join(" ")}.\n` : ""}- Do not put hashtags in the caption text; return them in "hashtags".
+${hashtags ? `- Hashtags: about ${hashtags.count?.ideal} (between ${hashtags.count?.min} and ${hashtags.count?.max}), mix ${hashtags.mix}${hashtags.localFirst ? ", local ones first" : ""}. Pick from these categories and add specific ones for the post:\n${categories}\n` : ""}- Write in "${defaultLanguage}" unless the notes ask for another language you speak (${languages.join(', ')}).
+- Never invent facts, numbers or promises that are not in the notes.
+`;
+}
@@ -36,7 +36,7 @@ export const getInstagramCommentSchema = (): InstagramCommentSchema => {
       properties: {
         comment: {
           type: SchemaType.STRING,
-          description: "A comment between 150 and 250 characters.",
+          description: "The comment, following the length and style rules of the prompt.",
           nullable: false,
         },
         viralRate: {
@@ -115,6 +115,120 @@ export const getInstagramDMResponseSchema = (): InstagramDMResponseSchema => {
   };
 };
 
+export interface CampaignMessageSchema {
+  description: string;
+  type: SchemaType;
+  items: {
+    type: SchemaType;
+    properties: {
+      message: {
+        type: SchemaType;
+        description: string;
+        nullable: boolean;
+      };
+    };
+    required: string[];
+  };
+}
+
+export const getCampaignMessageSchema = (): CampaignMessageSchema => {
+  return {
+    description: `Personalizes an outbound campaign DM for one recipient.`,
+    type: SchemaType.ARRAY,
+    items: {
+      type: SchemaType.OBJECT,
+      properties: {
+        message: {
+          type: SchemaType.STRING,
+          description: "The personalized message, ready to send.",
+          nullable: false,
+        },
+      },
+      required: ["message"],
+    },
+  };
+};
+
+export interface StoryReplySchema {
+  description: string;
+  type: SchemaType;
+  items: {
+    type: SchemaType;
+    properties: {
+      reply: {
+        type: SchemaType;
+        description: string;
+        nullable: boolean;
+      };
+    };
+    required: string[];
+  };
+}
+
+export const getStoryReplySchema = (): StoryReplySchema => {
+  return {
+    description: `A short reply to an Instagram story, sent as a DM.`,
+    type: SchemaType.ARRAY,
+    items: {
+      type: SchemaType.OBJECT,
+      properties: {
+        reply: {
+          type: SchemaType.STRING,
+          description: "The reply, at most one sentence.",
+          nullable: false,
+        },
+      },
+      required: ["reply"],
+    },
+  };
+};
+
+export interface PostCaptionSchema {
+  description: string;
+  type: SchemaType;
+  items: {
+    type: SchemaType;
+    properties: {
+      caption: {
+        type: SchemaType;
+        description: string;
+        nullable: boolean;
+      };
+      hashtags: {
+        type: SchemaType;
+        description: string;
+        items: { type: SchemaType };
+        nullable: boolean;
+      };
+    };
+    required: string[];
+  };
+}
+
+export const getPostCaptionSchema = (): PostCaptionSchema => {
+  return {
+    description: `A caption for an Instagram post, with its hashtags listed separately.`,
+    type: SchemaType.ARRAY,
+    items: {
+      type: SchemaType.OBJECT,
+      properties: {
+        caption: {
+          type: SchemaType.STRING,
+          description: "The caption text without hashtags.",
+          nullable: false,
+        },
+        hashtags: {
+          type: SchemaType.ARRAY,
+          description: "Hashtags for the post, each starting with #.",
+          items: { type: SchemaType.STRING },
+          nullable: false,
+        },
+      },
+      required: ["caption", "hashtags"],
+    },
+  };
+};
+
 // Define the interface for the Tweet document
 interface ITweet extends Document {
   tweetContent: string;
@@ -1,12 +1,14 @@
 /* eslint-disable no-unused-vars */
 import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold, SchemaType } from "@google/generative-ai";
 import logger from "../../config/logger";
+import { geminiKeyRotations, timeGeminiCall } from "../../services/Metrics";
 
 import dotenv from "dotenv";
 dotenv.config();
 
 
 import { geminiApiKeys } from "../../secret";
+import { markGeminiKeyRateLimited } from "../../utils";
 
 
 let currentApiKeyIndex = 0; // Keeps track of the current API key in use
@@ -99,7 +101,7 @@ export async function generateTrainingPrompt(transcript: string, prompt: string
     const combinedPrompt = `${prompt}\n\nVideo Transcript:\n${cleanedTranscript}`;
 
     try {
-        const result = await model.generateContent(combinedPrompt);
+        const result = await timeGeminiCall("summarize", () => model.generateContent(combinedPrompt));
 
         if (!result || !result.response) {
             logger.info("No response received from the AI model. || Service Unavailable");
@@ -113,8 +115,11 @@ export async function generateTrainingPrompt(transcript: string, prompt: string
     } catch (error) {
         if (error instanceof Error) {
             if (error.message.includes("429 Too Many Requests")) {
-                logger.error(`---${currentApiKeyName} limit exhausted, switching to the next API key...`); try {
+                logger.error(`---${currentApiKeyName} limit exhausted, switching to the next API key...`);
+                markGeminiKeyRateLimited(currentApiKeyIndex);
+                try {
                     geminiApiKey = getNextApiKey();
+                    geminiKeyRotations.inc({ caller: "summarize" });
                     currentApiKeyName = `GEMINI_API_KEY_${currentApiKeyIndex + 1}`;
                     return generateTrainingPrompt(transcript, prompt);
                 } catch (keyError) {
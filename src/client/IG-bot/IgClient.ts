@@ -7,17 +7,24 @@ import UserAgent from "user-agents";
 import { Server } from "proxy-chain";
 import { IGpassword, IGusername } from "../../secret";
 import logger from "../../config/logger";
-import { Instagram_cookiesExist, loadCookies, saveCookies, ActivityTracker, killChromeProcessByProfile, getHumanLikeDelay, getBrowserExecutablePath } from "../../utils";
+import { Instagram_cookiesExist, loadCookies, saveCookies, ActivityTracker, ActivityTrackerOptions, TrackedAction, killChromeProcessByProfile, getHumanLikeDelay, getBrowserExecutablePath, shuffle } from "../../utils";
 import { runAgent } from "../../Agent";
 import path from "path";
-import { getInstagramCommentSchema, getInstagramDMResponseSchema } from "../../Agent/schema";
+import { getInstagramCommentSchema, getInstagramDMResponseSchema, getStoryReplySchema } from "../../Agent/schema";
+import { buildCommentPrompt, buildDMReplyPrompt, buildStoryReplyPrompt } from "../../Agent/prompts";
+import { checkComment, getCommentRules } from "../../Agent/commentRules";
 import readline from "readline";
 import fs from "fs/promises";
 import { getShouldExitInteractions } from '../../api/agent';
-import { Contact } from '../../models/Contact';
+import { Contact, isOptOutMessage } from '../../models/Contact';
 
 import { EmailService } from "../../services/EmailService";
+import { eventBus } from "../../services/EventBus";
+import { browserLaunchFailures, instagramLoginFailures } from "../../services/Metrics";
 import { LikedPost } from "../../models/LikedPost";
+import { ActionJournal, JournalActionType, JournalOutcome } from "../../models/ActionJournal";
+import { AudienceMember } from "../../models/Audience";
+import { FollowedUser } from "../../models/FollowedUser";
 
 // Add stealth plugin to puppeteer
 puppeteerExtra.use(StealthPlugin());
@@ -30,6 +37,50 @@ puppeteerExtra.use(
 
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
+// Rounds of comment generation before a post is left without a comment
+const COMMENT_ATTEMPTS = 3;
+
+export interface ScrapedFollowers {
+    followers: AudienceMember[];
+    complete: boolean;          // Reached the end of the followers list
+}
+
+export interface GridInteractionOptions {
+    behavior?: { enableLikes?: boolean; enableComments?: boolean; enableCommentLikes?: boolean; enableFollows?: boolean; };
+    limits?: { likesPerHour?: number; commentsPerHour?: number; likesPerSession?: number; followsPerHour?: number; };
+    follows?: { chance?: number };     // Share of liked posts whose author is followed
+}
+
+export interface StoryOptions {
+    source: 'tray' | 'accounts' | 'hashtags';   // Home story tray, given usernames, or authors of hashtag posts
+    accounts?: string[];
+    hashtags?: string[];
+    target: number;                    // Accounts whose stories to watch this session
+    watchSeconds?: { min: number; max: number };  // Per story
+    maxStoriesPerAccount?: number;
+    reactionChance?: number;           // Per account: send one emoji reaction
+    replyChance?: number;              // Per account: send one AI-written reply
+    reactions?: string[];              // Quick reactions to pick from (default: the character's, see storyReactionsFor)
+    limits?: { storyViewsPerHour?: number; storyReactionsPerHour?: number; storyRepliesPerHour?: number };
+}
+
+// The emojis the story viewer offers as quick reactions; only these can be sent as a reaction
+export const STORY_QUICK_REACTIONS = ['😂', '😮', '😍', '😢', '👏', '🔥', '🎉', '💯'];
+
+export interface UnfollowOptions {
+    unfollowAfterDays: number;
+    allowlist?: string[];              // Lowercase usernames that are never unfollowed
+    unfollowsPerHour?: number;
+    maxPerSession?: number;
+}
+
+// A page with a post grid (hashtag, location, explore or profile)
+interface GridSource {
+    label: string;
+    url: string;
+    urlPatterns: string[]; // We are still on the source page while the URL contains one of these
+}
+
 export class IgClient {
     private browser: puppeteer.Browser | null = null;
     private page: puppeteer.Page | null = null;
@@ -42,12 +93,18 @@ export class IgClient {
     private emailService?: EmailService;
     private headless: boolean | "shell";
     public dmsProcessedThisSession: boolean = false;
+    public actionsCompletedThisSession: number = 0; // Set by the account loop, read when the session closes
+    private stopRequested: boolean = false;
+    private dryRun: boolean;
+    private activityOptions: ActivityTrackerOptions; // Daily/weekly quotas and warming curve
+    // Who/why fields stamped on every action journal entry; the orchestrator updates strategy per phase
+    private journalContext: { account?: string; sessionId?: string; strategy: string } = { strategy: 'api' };
 
     private languages: string[] = ['English'];
     private defaultLanguage: string = 'English';
 
     constructor(
-        config: { username?: string; password?: string; userDataDir?: string; proxy?: string, languages?: string[], defaultLanguage?: string, headless?: boolean | "shell" },
+        config: { username?: string; password?: string; userDataDir?: string; proxy?: string, languages?: string[], defaultLanguage?: string, headless?: boolean | "shell", dryRun?: boolean } & ActivityTrackerOptions,
         loggerInstance?: any,
         character?: any,
         emailService?: EmailService
@@ -62,6 +119,88 @@ export class IgClient {
         this.languages = config.languages || ['English'];
         this.defaultLanguage = config.defaultLanguage || 'English';
         this.headless = config.headless !== undefined ? config.headless : false;
+        this.dryRun = config.dryRun === true;
+        this.activityOptions = { quotas: config.quotas, warming: config.warming };
+    }
+
+    /**
+     * Asks running interaction/DM loops to stop after the action in progress.
+     * The browser stays open; callers close it once the loop has returned.
+     */
+    public requestStop(reason: string) {
+        if (this.stopRequested) return;
+        this.stopRequested = true;
+        this.logger.info(`Stop requested (${reason}). Finishing the current action...`);
+    }
+
+    private shouldStop(): boolean {
+        return this.stopRequested || (typeof getShouldExitInteractions === 'function' && getShouldExitInteractions());
+    }
+
+    public isStopRequested(): boolean {
+        return this.shouldStop();
+    }
+
+    private getActivityTrackerId(): string {
+        const accountId = this.userDataDir ? path.basename(this.userDataDir) : this.username;
+        // Dry runs count against their own history so they never use up the live limits
+        return this.dryRun ? `${accountId}.dry-run` : accountId;
+    }
+
+    private createActivityTracker(): ActivityTracker {
+        return new ActivityTracker(this.getActivityTrackerId(), this.activityOptions);
+    }
+
+    public setJournalContext(context: { account?: string; sessionId?: string; strategy?: string }) {
+        this.journalContext = { ...this.journalContext, ...context };
+    }
+
+    /**
+     * Appends an entry to the action journal. Never throws: a DB hiccup must not end a session.
+     */
+    private async journal(entry: {
+        action: JournalActionType;
+        outcome: JournalOutcome;
+        postUrl?: string;
+        targetUser?: string;
+        text?: string;
+        reason?: string;
+        limitState?: { action: TrackedAction; used: number; limit?: number };
+    }) {
+        const { sessionId, strategy } = this.journalContext;
+        const account = this.getEventAccount();
+        eventBus.publish('action', account,
+            `${entry.action.replace(/_/g, ' ')} ${entry.outcome}${entry.targetUser ? ` @${entry.targetUser}` : ''}${entry.reason ? ` (${entry.reason})` : ''}`,
+            { ...entry, strategy, sessionId });
+        await ActionJournal.create({
+            account,
+            username: this.username,
+            strategy,
+            sessionId,
+            ...entry
+        }).catch(e => this.logger.warn(`Failed to write action journal: ${e}`));
+    }
+
+    // Account id used in the journal and the event stream
+    private getEventAccount(): string {
+        return this.journalContext.account || (this.userDataDir ? path.basename(this.userDataDir) : this.username);
+    }
+
+    /**
+     * Dry-run mode: records an action instead of performing it, together with the
+     * hourly limit state at that moment.
+     */
+    private async recordDryRunAction(
+        entry: { action: JournalActionType; postUrl?: string; targetUser?: string; text?: string },
+        activityTracker: ActivityTracker,
+        limitAction: TrackedAction,
+        limit?: number
+    ) {
+        const used = activityTracker.getRecentCount(limitAction);
+        const target = entry.postUrl || entry.targetUser || '';
+        const usage = limit !== undefined ? activityTracker.describeUsage(limitAction, limit) : `${limitAction} ${used}/no limit this hour`;
+        this.logger.info(`[DRY RUN] Would ${entry.action.replace(/_/g, ' ')} ${target}${entry.text ? `: "${entry.text}"` : ''} (${usage})`);
+        await this.journal({ ...entry, outcome: 'dry_run', limitState: { action: limitAction, used, limit } });
     }
 
     public isConnected(): boolean {
@@ -538,8 +677,18 @@ export class IgClient {
             return;
         }
 
-        await this.launchBrowserInstance();
-        await this.ensureLoggedInState();
+        try {
+            await this.launchBrowserInstance();
+        } catch (error) {
+            browserLaunchFailures.inc({ bot: 'instagram' });
+            throw error;
+        }
+        try {
+            await this.ensureLoggedInState();
+        } catch (error) {
+            instagramLoginFailures.inc({ account: this.getEventAccount() });
+            throw error;
+        }
     }
 
     private async loginWithCookies() {
@@ -1016,6 +1165,7 @@ export class IgClient {
 
             if (blockDialog) {
                 this.logger.warn(`Action Block detected during: ${context}`);
+                eventBus.publish('action.blocked', this.getEventAccount(), `Action block during ${context}`, { context, sessionId: this.journalContext.sessionId });
                 if (this.emailService) {
                     await this.emailService.sendActionBlockAlert(this.username, context);
                 }
@@ -1108,6 +1258,7 @@ export class IgClient {
 
                 this.logger.error(`🚨 CRITICAL: reCAPTCHA DETECTED for user ${this.username} 🚨`);
                 this.logger.error(`URL: ${currentUrl}`);
+                eventBus.publish('challenge.detected', this.getEventAccount(), `Challenge or CAPTCHA waiting for manual solving`, { url: currentUrl });
 
                 // Send Email Alert
                 if (this.emailService) {
@@ -1146,6 +1297,7 @@ export class IgClient {
 
                     if (!stillHasCaptcha) {
                         this.logger.info("✅ CAPTCHA Solved/Gone! Resuming execution...");
+                        eventBus.publish('challenge.solved', this.getEventAccount(), `Challenge solved. Resuming.`);
                         await delay(3000); // Settle time
 
                         // If landed on post-challenge URL (e.g. ?e=1348020), navigate to home to render cleanly
@@ -1422,18 +1574,30 @@ export class IgClient {
         }
     }
 
-    async sendDirectMessage(username: string, message: string) {
+    async sendDirectMessage(username: string, message: string, limits?: { dmsPerHour?: number }): Promise<boolean> {
         if (!this.page) throw new Error("Page not initialized");
         try {
-            await this.sendDirectMessageWithMedia(username, message);
+            return await this.sendDirectMessageWithMedia(username, message, undefined, limits);
         } catch (error) {
             logger.error("Failed to send direct message", error);
             throw error;
         }
     }
 
-    async sendDirectMessageWithMedia(username: string, message: string, mediaPath?: string) {
+    /**
+     * Sends a DM. With `limits`, the account's DM limits are checked first and the DM is
+     * counted; returns false when it was skipped because a limit is reached.
+     */
+    async sendDirectMessageWithMedia(username: string, message: string, mediaPath?: string, limits?: { dmsPerHour?: number }): Promise<boolean> {
         if (!this.page) throw new Error("Page not initialized");
+        const activityTracker = limits ? this.createActivityTracker() : null;
+        const dmsPerHour = limits?.dmsPerHour ?? 50;
+        if (activityTracker && !activityTracker.canPerformAction('dms', dmsPerHour)) {
+            const usage = activityTracker.describeUsage('dms', dmsPerHour);
+            this.logger.info(`Not sending DM to ${username}: limit reached (${usage}).`);
+            await this.journal({ action: 'dm', outcome: 'skipped', targetUser: username, text: message, reason: `limit reached: ${usage}` });
+            return false;
+        }
         try {
             await this.page.goto(`https://www.instagram.com/${username}/`, {
                 waitUntil: "networkidle2",
@@ -1459,6 +1623,13 @@ export class IgClient {
             await delay(2000); // Wait for message modal to open
             await this.handleNotificationPopup();
 
+            if (this.dryRun) {
+                const text = mediaPath ? `${message} [media: ${path.basename(mediaPath)}]` : message;
+                await this.recordDryRunAction({ action: 'dm', targetUser: username, text }, activityTracker || this.createActivityTracker(), 'dms', limits ? dmsPerHour : undefined);
+                activityTracker?.trackAction('dms');
+                return true;
+            }
+
             if (mediaPath) {
                 const fileInput = await this.page.$('input[type="file"]');
                 if (fileInput) {
@@ -1498,20 +1669,24 @@ export class IgClient {
             await sendButton.click();
             await this.handleNotificationPopup();
             console.log("Message sent successfully");
+            activityTracker?.trackAction('dms');
+            await this.journal({ action: 'dm', outcome: 'success', targetUser: username, text: message });
+            return true;
         } catch (error) {
             logger.error(`Failed to send DM to ${username}`, error);
+            await this.journal({ action: 'dm', outcome: 'failed', targetUser: username, text: message, reason: String(error) });
             throw error;
         }
     }
 
 
 
-    async checkAndAcceptDMRequests(page: puppeteer.Page, limits?: { dmsPerHour?: number }) {
+    async checkAndAcceptDMRequests(page: puppeteer.Page, limits?: { dmsPerHour?: number; dmRequestsPerHour?: number }) {
         if (!page) return;
 
-        const dmsPerHour = limits?.dmsPerHour || 50;
-        const accountId = this.userDataDir ? path.basename(this.userDataDir) : this.username;
-        const activityTracker = new ActivityTracker(accountId);
+        const dmsPerHour = limits?.dmsPerHour ?? 50;
+        const dmRequestsPerHour = limits?.dmRequestsPerHour ?? 10;
+        const activityTracker = this.createActivityTracker();
 
         try {
             this.logger.info("Checking for DM Requests...");
@@ -1572,6 +1747,16 @@ export class IgClient {
                     this.logger.warn("Page is closed. Aborting requests loop.");
                     break;
                 }
+                if (this.shouldStop()) {
+                    this.logger.info("Stop requested. Leaving remaining DM requests for the next session.");
+                    break;
+                }
+                if (!activityTracker.canPerformAction('dmRequests', dmRequestsPerHour)) {
+                    const usage = activityTracker.describeUsage('dmRequests', dmRequestsPerHour);
+                    this.logger.info(`DM request limit reached (${usage}). Leaving remaining requests for later.`);
+                    await this.journal({ action: 'accept_dm_request', outcome: 'skipped', reason: `limit reached: ${usage}` });
+                    break;
+                }
 
                 // Re-fetch using SHAPE STRATEGY (The only one that works)
                 const currentRequests = await page.evaluateHandle(() => {
@@ -1599,11 +1784,15 @@ export class IgClient {
                     break;
                 }
 
-                // Click the first one
+                // Click the first one (in dry runs nothing gets accepted, so walk down the list instead)
+                const requestIndex = this.dryRun ? i : 0;
+                if (requestIndex >= currentRequests.length) break;
+                let requestLabel = "";
                 try {
-                    const text = await currentRequests[0].evaluate(el => (el as HTMLElement).innerText.substring(0, 30));
+                    const text = await currentRequests[requestIndex].evaluate(el => (el as HTMLElement).innerText.substring(0, 30));
+                    requestLabel = text.split('\n')[0].trim();
                     this.logger.info(`Clicking request item: "${text.replace(/\n/g, ' ')}..."`);
-                    await currentRequests[0].evaluate(el => (el as HTMLElement).click());
+                    await currentRequests[requestIndex].evaluate(el => (el as HTMLElement).click());
                 } catch (e) {
                     this.logger.warn(`Failed to click request item: ${e}`);
                     break;
@@ -1623,7 +1812,12 @@ export class IgClient {
                 });
 
                 const acceptBtnEl = acceptBtn.asElement();
-                if (acceptBtnEl) {
+                if (acceptBtnEl && this.dryRun) {
+                    await this.recordDryRunAction({ action: 'accept_dm_request', targetUser: requestLabel }, activityTracker, 'dmRequests', dmRequestsPerHour);
+                    activityTracker.trackAction('dmRequests');
+                    // The request preview shows the conversation, so the reply can still be generated
+                    await this.respondToCurrentOpenChat(page, activityTracker, dmsPerHour);
+                } else if (acceptBtnEl) {
                     await (acceptBtnEl as ElementHandle<Element>).click();
                     await delay(3000);
 
@@ -1645,11 +1839,14 @@ export class IgClient {
                     }
 
                     this.logger.info(`Accepted DM request ${i + 1}/${maxToAccept}`);
+                    activityTracker.trackAction('dmRequests');
+                    await this.journal({ action: 'accept_dm_request', outcome: 'success', targetUser: requestLabel });
 
                     // Respond immediately to the newly accepted chat!
                     await this.respondToCurrentOpenChat(page, activityTracker, dmsPerHour);
                 } else {
                     this.logger.warn(`Could not find Accept button for request ${i + 1}.`);
+                    await this.journal({ action: 'accept_dm_request', outcome: 'failed', targetUser: requestLabel, reason: 'accept button not found' });
                 }
 
                 if (page.isClosed()) {
@@ -1670,7 +1867,9 @@ export class IgClient {
 
         // Check rate limits
         if (!activityTracker.canPerformAction('dms', dmsPerHour)) {
-            this.logger.info(`Skipping reply: DM rate limit reached.`);
+            const usage = activityTracker.describeUsage('dms', dmsPerHour);
+            this.logger.info(`Skipping reply: DM limit reached (${usage}).`);
+            await this.journal({ action: 'dm', outcome: 'skipped', reason: `limit reached: ${usage}` });
             return false;
         }
 
@@ -1738,6 +1937,21 @@ export class IgClient {
                 this.logger.info(`Conversation Context (${history.length} msgs). Last from Partner: "${lastMessage.text.substring(0, 30)}..."`);
                 const lastMessageText = lastMessage.text;
 
+                // A partner who answers STOP is excluded from DM campaigns and gets no reply
+                if (partnerUsername && isOptOutMessage(lastMessageText)) {
+                    if (this.dryRun) {
+                        this.logger.info(`[DRY RUN] Would record that ${partnerUsername} opted out of campaign DMs.`);
+                    } else {
+                        await Contact.findOneAndUpdate(
+                            { username: partnerUsername },
+                            { $set: { optedOutAt: new Date(), optOutReason: `Replied "${lastMessageText.trim()}"` } },
+                            { upsert: true }
+                        ).catch(err => this.logger.warn(`Failed to record opt-out of ${partnerUsername}: ${err}`));
+                        this.logger.info(`${partnerUsername} opted out of campaign DMs. Not replying.`);
+                    }
+                    return false;
+                }
+
                 // Generate Response
                 const schema = getInstagramDMResponseSchema();
 
@@ -1751,67 +1965,22 @@ export class IgClient {
                     }
                 }
 
-                const historyText = history.map(h => h.isMine ? `[Me]: ${h.text}` : `[Him]: ${h.text}`).join('\n');
-
-                const charName = this.character?.aiPersona?.name || this.character?.name || "User";
-                const charBio = (this.character?.bio || []).join(" ");
-                const charLore = (this.character?.lore || []).join(" ");
-                const charTopics = (this.character?.topics || []).join(", ");
-                const charAdjectives = (this.character?.adjectives || []).join(", ");
-                const charStyle = (this.character?.style?.all || []).join(" ");
-                const charGoal = this.character?.goal || "Engage naturally.";
-                const charLocation = this.character?.location || "Unknown";
-
-                const rawExamples = this.character?.messageExamples || [];
-                let formattedExamples = "";
-                if (rawExamples.length > 0) {
-                    formattedExamples = "\n[EXAMPLE CONVERSATIONS]\n" + rawExamples.map((exList: any[]) => {
-                        return exList.map((msg: any) => {
-                            const role = msg.user === "{{user1}}" ? "User" : charName;
-                            return `${role}: ${msg.content?.text || ""}`;
-                        }).join('\n');
-                    }).join('\n---\n') + "\n";
-                }
-
-                const prompt = `You are ${charName} on Instagram.
-            
-            Your Bio: ${charBio}
-            Your Lore/Backstory: ${charLore}
-            Your Interests: ${charTopics}
-            Your Style/Tone: ${charAdjectives} ${charStyle}
-            Your Location: ${charLocation}
-            
-            Your Main Goal: ${charGoal}
-            ${formattedExamples}
-            You are replying to a DM thread with user: "${partnerUsername}".
-
-            [KNOWN FACTS ABOUT USER]
-            ${existingFacts.length > 0 ? existingFacts.map(f => `- ${f}`).join('\n') : "(None yet)"}
-
-            [CONVERSATION HISTORY (Last 10 messages)]
-            ${historyText}
-
-             Language Configuration:
-            - You speak: [${this.languages.join(', ')}]
-            - Default Language: "${this.defaultLanguage}"
-            
-            Task: Generate a natural response as ${charName}.
-            Guidelines:
-            - IMPORTANT: ALWAYS detect the language of the user's latest incoming message. You MUST respond in that same language (e.g., if the latest message is in German, reply in German; if in French, reply in French). Fallback to your Default Language ("${this.defaultLanguage}") ONLY if the user's language is not one of your spoken languages.
-            - UNIQUE RESPONSES: Avoid repetition. Do NOT repeat or reuse exact sentences, structures, or phrases from your previous messages in the conversation history. Every response must be unique and contextually fresh.
-            - Keep it concise (1-2 sentences usually).
-            - Match your specific tone and style defined above.
-            - If the message is "hi" or generic, reply in character.
-            - If it's spam, ignore it (return empty string or "IGNORE").
-            - Do not be overly helpful assistant-like; be the character.
-            - IMPORTANT: Extract any NEW permanent facts about the user (e.g. name, age, city, pets, likes, relationships) from the conversation. Return them in the 'memory_updates' field.
-            `;
+                const prompt = buildDMReplyPrompt({
+                    character: this.character,
+                    partnerUsername,
+                    history,
+                    facts: existingFacts,
+                    languages: this.languages,
+                    defaultLanguage: this.defaultLanguage
+                });
 
                 const result = await runAgent(schema, prompt);
                 let responseText = result[0]?.response;
                 let newFacts = result[0]?.memory_updates || [];
 
-                if (newFacts.length > 0 && partnerUsername) {
+                if (newFacts.length > 0 && partnerUsername && this.dryRun) {
+                    this.logger.info(`[DRY RUN] Would save ${newFacts.length} new facts for ${partnerUsername}: ${newFacts.join(', ')}`);
+                } else if (newFacts.length > 0 && partnerUsername) {
                     try {
                         await Contact.findOneAndUpdate(
                             { username: partnerUsername },
@@ -1827,7 +1996,11 @@ export class IgClient {
                     }
                 }
 
-                if (responseText && responseText !== "IGNORE") {
+                if (responseText && responseText !== "IGNORE" && this.dryRun) {
+                    await this.recordDryRunAction({ action: 'dm', targetUser: partnerUsername, text: responseText }, activityTracker, 'dms', dmsPerHour);
+                    activityTracker.trackAction('dms');
+                    return true;
+                } else if (responseText && responseText !== "IGNORE") {
                     this.logger.info(`Generated response: "${responseText}"`);
                     await page.type('div[role="textbox"][contenteditable="true"]', responseText);
                     await delay(1000);
@@ -1849,10 +2022,14 @@ export class IgClient {
                         activityTracker.trackAction('dms');
                         this.dmsProcessedThisSession = true;
                     }
+                    await this.journal({ action: 'dm', outcome: 'success', targetUser: partnerUsername, text: responseText });
 
                     this.logger.info("Waiting 10s before next DM to respect rate limits...");
                     await delay(10000);
                     return true;
+                } else {
+                    this.logger.info(`No reply generated for ${partnerUsername} (spam or empty response).`);
+                    await this.journal({ action: 'dm', outcome: 'skipped', targetUser: partnerUsername, reason: 'model chose not to reply (spam or empty)' });
                 }
             }
         } catch (e) {
@@ -1861,18 +2038,17 @@ export class IgClient {
         return false;
     }
 
-    async checkAndRespondToDMs(limits?: { dmsPerHour?: number }) {
+    async checkAndRespondToDMs(limits?: { dmsPerHour?: number; dmRequestsPerHour?: number }) {
         await this.ensurePageActive();
         if (!this.page) throw new Error("Page not initialized");
 
         this.dmsProcessedThisSession = false;
 
-        const dmsPerHour = limits?.dmsPerHour || 50;
-        const accountId = this.userDataDir ? path.basename(this.userDataDir) : this.username;
-        const activityTracker = new ActivityTracker(accountId);
+        const dmsPerHour = limits?.dmsPerHour ?? 50;
+        const activityTracker = this.createActivityTracker();
 
         if (!activityTracker.canPerformAction('dms', dmsPerHour)) {
-            this.logger.info(`Skipping DM check: Hourly limit reached (${activityTracker.getRecentCount('dms')}/${dmsPerHour}).`);
+            this.logger.info(`Skipping DM check: limit reached (${activityTracker.describeUsage('dms', dmsPerHour)}).`);
             return;
         }
 
@@ -1918,10 +2094,14 @@ export class IgClient {
                     this.logger.warn("Page was closed during DM polling. Exiting.");
                     break;
                 }
+                if (this.shouldStop()) {
+                    this.logger.info("Stop requested. Exiting DM polling.");
+                    break;
+                }
 
                 // Check rate limits dynamically
                 if (!activityTracker.canPerformAction('dms', dmsPerHour)) {
-                    this.logger.info("Hourly DM rate limit reached during polling. Exiting.");
+                    this.logger.info(`DM limit reached during polling (${activityTracker.describeUsage('dms', dmsPerHour)}). Exiting.`);
                     break;
                 }
 
@@ -2035,7 +2215,13 @@ export class IgClient {
         }
     }
 
-    async sendDirectMessagesFromFile(file: Buffer | string, message: string, mediaPath?: string) {
+    /**
+     * Sends the same DM to every username in the file (one per line). Returns how many were
+     * sent; with `limits`, stops once the account's DM limit is reached. `onProgress` gets the
+     * number sent so far after each DM.
+     */
+    async sendDirectMessagesFromFile(file: Buffer | string, message: string, mediaPath?: string, limits?: { dmsPerHour?: number },
+        onProgress?: (sent: number, total: number) => void): Promise<number> {
         if (!this.page) throw new Error("Page not initialized");
         logger.info(`Sending DMs from provided file content`);
         let fileContent: string;
@@ -2045,50 +2231,105 @@ export class IgClient {
             fileContent = file;
         }
         const usernames = fileContent.split("\n");
+        const total = usernames.filter(username => username.trim()).length;
+        let sent = 0;
         for (const username of usernames) {
+            if (this.shouldStop()) {
+                logger.info('Stop requested. Not sending the remaining DMs from file.');
+                break;
+            }
             if (username.trim()) {
                 await this.handleNotificationPopup();
-                await this.sendDirectMessageWithMedia(username.trim(), message, mediaPath);
+                if (!await this.sendDirectMessageWithMedia(username.trim(), message, mediaPath, limits)) {
+                    logger.info('DM limit reached. Not sending the remaining DMs from file.');
+                    break;
+                }
+                sent++;
+                onProgress?.(sent, total);
                 await this.handleNotificationPopup();
                 // add delay to avoid being flagged
                 await delay(30000);
             }
         }
+        return sent;
     }
 
-    async interactWithHashtags(hashtags: string[], options: {
-        behavior?: { enableLikes?: boolean; enableComments?: boolean; enableCommentLikes?: boolean; };
-        limits?: { likesPerHour?: number; commentsPerHour?: number; likesPerSession?: number; }
-    } = {}): Promise<number> {
+    async interactWithHashtags(hashtags: string[], options: GridInteractionOptions = {}): Promise<number> {
+        const sources = (hashtags || []).map(tag => ({
+            label: `#${tag}`,
+            url: `https://www.instagram.com/explore/tags/${tag}/`,
+            urlPatterns: ['/explore/tags/', '/explore/search/']
+        }));
+        return this.interactWithGridPages('Hashtag', sources, options);
+    }
+
+    /**
+     * Likes posts from location pages. Accepts location ids ("213385402"), "id/slug" or full URLs.
+     */
+    async interactWithLocations(locations: string[], options: GridInteractionOptions = {}): Promise<number> {
+        const sources = (locations || []).map(location => {
+            const locationPath = location.replace(/^https?:\/\/(www\.)?instagram\.com\/explore\/locations\//, '').replace(/^\/+|\/+$/g, '');
+            return {
+                label: `location ${locationPath}`,
+                url: `https://www.instagram.com/explore/locations/${locationPath}/`,
+                urlPatterns: ['/explore/locations/']
+            };
+        });
+        return this.interactWithGridPages('Location', sources, options);
+    }
+
+    async interactWithExplore(options: GridInteractionOptions = {}): Promise<number> {
+        const sources = [{ label: 'explore', url: 'https://www.instagram.com/explore/', urlPatterns: ['/explore/'] }];
+        return this.interactWithGridPages('Explore', sources, options);
+    }
+
+    /**
+     * Likes recent posts of specific profiles (e.g. accounts whose audience we target).
+     */
+    async interactWithProfiles(usernames: string[], options: GridInteractionOptions = {}): Promise<number> {
+        const sources = (usernames || []).map(name => {
+            const username = name.trim().replace(/^@/, '');
+            return { label: `@${username}`, url: `https://www.instagram.com/${username}/`, urlPatterns: [`/${username}/`] };
+        });
+        return this.interactWithGridPages('Profile', sources, options);
+    }
+
+    /**
+     * Shared grid flow for hashtag, location, explore and profile pages: open unliked posts from
+     * the grid in a modal, like them (and optionally a comment), close, move on. Sources are
+     * tried in random order until the session target is reached.
+     */
+    private async interactWithGridPages(kind: string, sources: GridSource[], options: GridInteractionOptions): Promise<number> {
         if (!this.page) throw new Error("Page not initialized");
         const { behavior = { enableLikes: true, enableComments: true, enableCommentLikes: true }, limits } = options;
 
-        if (!hashtags || hashtags.length === 0) {
-            this.logger.warn("No hashtags provided for interaction.");
+        if (!sources || sources.length === 0) {
+            this.logger.warn(`No ${kind.toLowerCase()} sources provided for interaction.`);
             return 0;
         }
 
-        const maxLikesPerHour = limits?.likesPerHour || 10;
-        const maxCommentsPerHour = limits?.commentsPerHour || 5;
+        const maxLikesPerHour = limits?.likesPerHour ?? 10;
+        const maxCommentsPerHour = limits?.commentsPerHour ?? 5;
+        const maxFollowsPerHour = limits?.followsPerHour ?? 5;
+        const followChance = options.follows?.chance ?? 0;
 
         // Initialize Activity Tracker
-        const accountId = this.userDataDir ? path.basename(this.userDataDir) : this.username;
-        const activityTracker = new ActivityTracker(accountId);
+        const activityTracker = this.createActivityTracker();
 
-        this.logger.info(`Starting Hashtag Interaction session. Tags: [${hashtags.join(', ')}]`);
+        this.logger.info(`Starting ${kind} Interaction session. Sources: [${sources.map(src => src.label).join(', ')}]`);
 
         let actionsDone = 0;
         const targetActions = limits?.likesPerSession || 10;
         const maxPostsToInspect = targetActions * 4; // Safety limit to avoid infinite scrolling
 
-        // Create a copy of hashtags to try them sequentially/randomly
-        const remainingTags = [...hashtags];
+        // Create a copy of the sources to try them sequentially/randomly
+        const remainingTags = [...sources];
 
-        while (remainingTags.length > 0 && actionsDone < targetActions) {
-            // Pick and remove a random hashtag
+        while (remainingTags.length > 0 && actionsDone < targetActions && !this.shouldStop()) {
+            // Pick and remove a random source
             const randomIndex = Math.floor(Math.random() * remainingTags.length);
-            const tag = remainingTags.splice(randomIndex, 1)[0];
-            this.logger.info(`Selected hashtag: #${tag} (${remainingTags.length} tags left in pool)`);
+            const source = remainingTags.splice(randomIndex, 1)[0];
+            this.logger.info(`Selected source: ${source.label} (${remainingTags.length} left in pool)`);
 
             let postsChecked = 0;
             let stabilizationRetries = 0; // Loop protection
@@ -2096,8 +2337,8 @@ export class IgClient {
 
             try {
                 await this.ensurePageActive();
-                this.logger.info(`Navigating to hashtag page: #${tag}`);
-                await this.gotoWithRetry(`https://www.instagram.com/explore/tags/${tag}/`, { waitUntil: "domcontentloaded" });
+                this.logger.info(`Navigating to ${kind.toLowerCase()} page: ${source.label}`);
+                await this.gotoWithRetry(source.url, { waitUntil: "domcontentloaded" });
 
                 // Allow hydration time (essential for React)
 this.logger.info("Waiting for page hydration...");
@@ -2105,14 +2346,15 @@ this.logger.info("Waiting for page hydration...");
 
                 // Scroll down to trigger lazy-loaded grid
                 await this.page.evaluate(() => window.scrollBy(0, 300));
-                this.logger.info(`Starting Hashtag Grid iteration for #${tag}...`);
+                this.logger.info(`Starting ${kind} Grid iteration for ${source.label}...`);
                 let consecutiveEmptyScrolls = 0;
 
                 while (actionsDone < targetActions && postsChecked < maxPostsToInspect) {
                     let interactionPerformed = false;
+                    let postLiked = false;
                     // Check exit flag
-                    if (typeof getShouldExitInteractions === 'function' && getShouldExitInteractions()) {
-                        this.logger.info('Exit requested. Stopping hashtag loop.');
+                    if (this.shouldStop()) {
+                        this.logger.info(`Exit requested. Stopping ${kind.toLowerCase()} loop.`);
                         return actionsDone;
                     }
 
@@ -2141,7 +2383,7 @@ this.logger.info("Waiting for page hydration...");
                             }
                             
                             if (stabilizationRetries >= 5) {
-                                this.logger.error("Failed to stabilize after 5 attempts and a refresh. Skipping current hashtag to avoid infinite loop.");
+                                this.logger.error("Failed to stabilize after 5 attempts and a refresh. Skipping current source to avoid infinite loop.");
                                 hashtagLoopBroken = true;
                                 break; 
                             }
@@ -2161,10 +2403,10 @@ this.logger.info("Waiting for page hydration...");
                     }
 
                     // --- URL VALIDITY CHECK ---
-                    // Ensure we are still on the hashtag page and haven't been redirected (e.g. to login)
+                    // Ensure we are still on the source page and haven't been redirected (e.g. to login)
                     const currentUrl = this.page.url();
-                    if (!currentUrl.includes('/explore/tags/') && !currentUrl.includes('/explore/search/')) {
-                        this.logger.warn(`Bot navigated away from hashtag page to: ${currentUrl}. Breaking current hashtag loop.`);
+                    if (!source.urlPatterns.some(pattern => currentUrl.includes(pattern))) {
+                        this.logger.warn(`Bot navigated away from ${source.label} to: ${currentUrl}. Breaking current grid loop.`);
                         hashtagLoopBroken = true;
                         break;
                     }
@@ -2172,7 +2414,7 @@ this.logger.info("Waiting for page hydration...");
                     if (postLinks.length === 0) {
                         consecutiveEmptyScrolls++;
                         if (consecutiveEmptyScrolls >= 4) {
-                            this.logger.warn("Scroll limit reached with 0 post links. Breaking current hashtag loop.");
+                            this.logger.warn("Scroll limit reached with 0 post links. Breaking current grid loop.");
                             break;
                         }
                         this.logger.warn("No post links found in grid. Scrolling...");
@@ -2187,7 +2429,7 @@ this.logger.info("Waiting for page hydration...");
                     if (postsChecked >= postLinks.length) {
                         consecutiveEmptyScrolls++;
                         if (consecutiveEmptyScrolls >= 4) {
-                            this.logger.warn("Scroll limit reached without finding new posts. Breaking current hashtag loop.");
+                            this.logger.warn("Scroll limit reached without finding new posts. Breaking current grid loop.");
                             break;
                         }
                         this.logger.info("Reached end of visible links. Scrolling for more...");
@@ -2243,10 +2485,12 @@ this.logger.info("Waiting for page hydration...");
 
                             if (shouldSkip) {
                                 this.logger.info(`Simulating human behavior: randomly skipping post ${postsChecked + 1} without liking.`);
+                                await this.journal({ action: 'like', outcome: 'skipped', postUrl, reason: 'random human-like skip' });
                                 await delay(getHumanLikeDelay(2000, 1000));
                                 interactionPerformed = true; // Random skip counts as a simulated action
                             } else if (await this.page.$(strictUnlikeSelector)) {
                                 this.logger.info(`Post ${postsChecked + 1} already liked (UI).`);
+                                await this.journal({ action: 'like', outcome: 'skipped', postUrl, reason: 'already liked' });
                                 await LikedPost.updateOne({ username: this.username, postUrl }, { $set: { likedAt: new Date() } }, { upsert: true }).catch(() => { });
                             } else {
                                 let likeSelector = 'section svg[aria-label="Like"]';
@@ -2269,6 +2513,7 @@ this.logger.info("Waiting for page hydration...");
 
                                         if (!likeButton) {
                                             this.logger.info(`Like button not found for post ${postsChecked + 1}.`);
+                                            await this.journal({ action: 'like', outcome: 'failed', postUrl, reason: 'like button not found' });
                                         }
                                     }
                                 }
@@ -2276,25 +2521,34 @@ this.logger.info("Waiting for page hydration...");
                                 if (likeButton) {
                                     const isConnected = await likeButton.evaluate(el => el.isConnected).catch(() => false);
                                     if (isConnected) {
-                                        this.logger.info(`Liking post ${postsChecked + 1} in #${tag}...`);
-                                        await this.humanLikeClick(likeButton);
-                                        await delay(getHumanLikeDelay(1500, 800));
-
-                                        await this.checkActionBlock("Hashtag Like Action");
+                                        if (this.dryRun) {
+                                            await this.recordDryRunAction({ action: 'like', postUrl }, activityTracker, 'likes', maxLikesPerHour);
+                                        } else {
+                                            this.logger.info(`Liking post ${postsChecked + 1} in ${source.label}...`);
+                                            await this.humanLikeClick(likeButton);
+                                            await delay(getHumanLikeDelay(1500, 800));
+
+                                            await this.checkActionBlock(`${kind} Like Action`);
+                                            await this.journal({ action: 'like', outcome: 'success', postUrl });
+                                        }
 
                                         activityTracker.trackAction('likes');
                                         interactionPerformed = true;
-
-                                        await LikedPost.updateOne(
-                                            { username: this.username, postUrl },
-                                            { $set: { likedAt: new Date() } },
-                                            { upsert: true }
-                                        ).catch(e => this.logger.warn(`Failed to save LikedPost to DB: ${e}`));
+                                        postLiked = true;
+
+                                        if (!this.dryRun) {
+                                            await LikedPost.updateOne(
+                                                { username: this.username, postUrl },
+                                                { $set: { likedAt: new Date() } },
+                                                { upsert: true }
+                                            ).catch(e => this.logger.warn(`Failed to save LikedPost to DB: ${e}`));
+                                        }
                                     }
                                 }
                             }
                         } catch (e) {
-                            this.logger.warn(`Error liking post in hashtag mode: ${e}`);
+                            this.logger.warn(`Error liking post in ${kind.toLowerCase()} mode: ${e}`);
+                            await this.journal({ action: 'like', outcome: 'failed', postUrl, reason: String(e) });
                         }
 
                         // --- COMMENT LIKING LOGIC ---
@@ -2311,9 +2565,14 @@ this.logger.info("Waiting for page hydration...");
 
                                     const isConnected = await btn.evaluate(el => el.isConnected).catch(() => false);
                                     if (isConnected) {
-                                        this.logger.info(`Liking a comment on post ${postsChecked + 1}...`);
-                                        await this.humanLikeClick(btn);
-                                        await delay(getHumanLikeDelay(1500, 800));
+                                        if (this.dryRun) {
+                                            await this.recordDryRunAction({ action: 'comment_like', postUrl: this.page.url() }, activityTracker, 'likes', maxLikesPerHour);
+                                        } else {
+                                            this.logger.info(`Liking a comment on post ${postsChecked + 1}...`);
+                                            await this.humanLikeClick(btn);
+                                            await delay(getHumanLikeDelay(1500, 800));
+                                            await this.journal({ action: 'comment_like', outcome: 'success', postUrl });
+                                        }
                                         likedCount++;
                                     }
                                 }
@@ -2321,9 +2580,22 @@ this.logger.info("Waiting for page hydration...");
                                 this.logger.warn(`Error liking comment: ${e}`);
                             }
                         }
+
+                        // --- FOLLOW LOGIC ---
+                        if (postLiked && behavior.enableFollows && Math.random() < followChance
+                            && activityTracker.canPerformAction('follows', maxFollowsPerHour)) {
+                            try {
+                                await this.followPostAuthor(postUrl, activityTracker, maxFollowsPerHour);
+                            } catch (e) {
+                                this.logger.warn(`Error following post author: ${e}`);
+                                await this.journal({ action: 'follow', outcome: 'failed', postUrl, reason: String(e) });
+                            }
+                        }
                     } else {
                         if (behavior.enableLikes !== false) {
-                            this.logger.info("Hourly like limit reached. Stopping hashtag session.");
+                            const usage = activityTracker.describeUsage('likes', maxLikesPerHour);
+                            this.logger.info(`Like limit reached (${usage}). Stopping ${kind.toLowerCase()} session.`);
+                            await this.journal({ action: 'like', outcome: 'skipped', postUrl, reason: `limit reached: ${usage}` });
                             return actionsDone;
                         }
                     }
@@ -2388,20 +2660,551 @@ this.logger.info("Waiting for page hydration...");
                 }
 
             } catch (e) {
-                this.logger.error(`Error in interactWithHashtags for tag #${tag}: ${e}`);
+                this.logger.error(`Error in ${kind.toLowerCase()} interaction for ${source.label}: ${e}`);
             }
 
             if (actionsDone >= targetActions) {
-                this.logger.info(`Successfully completed target hashtag actions (${actionsDone}/${targetActions})`);
+                this.logger.info(`Successfully completed target ${kind.toLowerCase()} actions (${actionsDone}/${targetActions})`);
                 break;
             } else if (remainingTags.length > 0) {
-                this.logger.warn(`Hashtag #${tag} incomplete or interrupted (${actionsDone}/${targetActions} done). Trying next random hashtag...`);
+                this.logger.warn(`${source.label} incomplete or interrupted (${actionsDone}/${targetActions} done). Trying next random source...`);
             }
         }
 
         return actionsDone;
     }
 
+    // Profile username from the header of the open post (modal or post page)
+    private async getPostAuthor(): Promise<string | null> {
+        if (!this.page) return null;
+        return this.page.evaluate(() => {
+            const header = document.querySelector('div[role="dialog"] header') || document.querySelector('article header');
+            if (!header) return null;
+            const link = Array.from(header.querySelectorAll('a[href^="/"]'))
+                .find(a => /^\/[A-Za-z0-9._]+\/$/.test(a.getAttribute('href') || ''));
+            return link ? link.getAttribute('href')!.split('/')[1] : null;
+        });
+    }
+
+    // Button in `scope` whose whole text is one of `labels`
+    private async findButtonByText(scope: string, labels: string[]): Promise<puppeteer.ElementHandle<Element> | null> {
+        if (!this.page) return null;
+        for (const element of await this.page.$$(`${scope} button, ${scope} div[role="button"]`)) {
+            const text = await element.evaluate((el: Element) => (el.textContent || '').trim());
+            if (labels.includes(text)) return element;
+        }
+        return null;
+    }
+
+    /**
+     * Follows the author of the post open in the modal and records it in FollowedUser. Authors
+     * this account followed before (including ones it unfollowed) are skipped. Returns true when
+     * the author was followed (or would have been, in a dry run).
+     */
+    private async followPostAuthor(postUrl: string, activityTracker: ActivityTracker, followsPerHour: number): Promise<boolean> {
+        if (!this.page) return false;
+        const author = await this.getPostAuthor();
+        if (!author || author.toLowerCase() === this.username.toLowerCase()) return false;
+
+        const account = this.getEventAccount();
+        if (await FollowedUser.exists({ account, targetUser: author })) {
+            this.logger.info(`Not following @${author}: followed before.`);
+            return false;
+        }
+        const followButton = await this.findButtonByText('div[role="dialog"] header', ['Follow'])
+            || await this.findButtonByText('article header', ['Follow']);
+        if (!followButton) {
+            // "Following" / "Requested" or no button: nothing to do
+            return false;
+        }
+
+        if (this.dryRun) {
+            await this.recordDryRunAction({ action: 'follow', targetUser: author, postUrl }, activityTracker, 'follows', followsPerHour);
+            activityTracker.trackAction('follows');
+            return true;
+        }
+
+        this.logger.info(`Following @${author}...`);
+        await this.humanLikeClick(followButton);
+        await delay(getHumanLikeDelay(2000, 1000));
+        await this.checkActionBlock("Follow Action");
+
+        activityTracker.trackAction('follows');
+        await this.journal({ action: 'follow', outcome: 'success', targetUser: author, postUrl });
+        await FollowedUser.updateOne(
+            { account, targetUser: author },
+            { $set: { username: this.username, strategy: this.journalContext.strategy, postUrl, status: 'following', followedBack: null, followedAt: new Date() } },
+            { upsert: true }
+        ).catch(e => this.logger.warn(`Failed to save FollowedUser to DB: ${e}`));
+        return true;
+    }
+
+    /**
+     * Whether `username` is in this account's followers, using the search box of the followers
+     * list. Returns null when the list can't be searched.
+     */
+    async isFollowedBy(username: string): Promise<boolean | null> {
+        if (!this.page) throw new Error("Page not initialized");
+        await this.gotoWithRetry(`https://www.instagram.com/${this.username}/followers/`, { waitUntil: "networkidle2" });
+        const search = await this.page.waitForSelector('div[role="dialog"] input', { timeout: 15000 }).catch(() => null);
+        if (!search) return null;
+        await search.type(username, { delay: 80 });
+        await delay(getHumanLikeDelay(3000, 1000));
+        return this.page.evaluate((target: string) => {
+            const dialog = document.querySelector('div[role="dialog"]');
+            return !!dialog && Array.from(dialog.querySelectorAll('a[href^="/"]'))
+                .some(a => (a.getAttribute('href') || '').split('/').filter(Boolean)[0]?.toLowerCase() === target.toLowerCase());
+        }, username);
+    }
+
+    /**
+     * Unfollows one user from their profile ("Following", then "Unfollow" in the menu).
+     * Returns false when the profile shows we don't follow them (anymore).
+     */
+    async unfollowUser(username: string): Promise<boolean> {
+        if (!this.page) throw new Error("Page not initialized");
+        await this.gotoWithRetry(`https://www.instagram.com/${username}/`, { waitUntil: "networkidle2" });
+        await delay(getHumanLikeDelay(3000, 1000));
+
+        const followingButton = await this.findButtonByText('header', ['Following', 'Requested']);
+        if (!followingButton) {
+            if (await this.findButtonByText('header', ['Follow', 'Follow Back'])) return false;
+            throw new Error("Following button not found.");
+        }
+        await this.humanLikeClick(followingButton);
+        await delay(getHumanLikeDelay(1500, 800));
+
+        const confirm = await this.findButtonByText('div[role="dialog"]', ['Unfollow']);
+        if (!confirm) throw new Error("Unfollow button not found.");
+        await this.humanLikeClick(confirm);
+        await delay(getHumanLikeDelay(2000, 1000));
+        await this.checkActionBlock("Unfollow Action");
+        return true;
+    }
+
+    /**
+     * Unfollows users this account followed at least `unfollowAfterDays` ago who haven't
+     * followed back, oldest first, within the unfollow limits. Allowlisted users and users who
+     * followed back are kept. Returns the number of users unfollowed.
+     */
+    async unfollowNonFollowers(options: UnfollowOptions): Promise<number> {
+        if (!this.page) throw new Error("Page not initialized");
+        const unfollowsPerHour = options.unfollowsPerHour ?? 5;
+        // Allowlisted users stay out of the query, so they never fill the pass in place of due ones
+        const allowlist = (options.allowlist || []).map(username =>
+            new RegExp(`^${username.trim().replace(/^@/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i'));
+        const activityTracker = this.createActivityTracker();
+        const account = this.getEventAccount();
+        const cutoff = new Date(Date.now() - options.unfollowAfterDays * 24 * 60 * 60 * 1000);
+
+        const due = await FollowedUser.find({
+            account, status: 'following', followedBack: { $ne: true }, followedAt: { $lte: cutoff },
+            ...(allowlist.length > 0 ? { targetUser: { $nin: allowlist } } : {})
+        })
+            .sort({ followedAt: 1 })
+            .limit(options.maxPerSession || 10);
+        if (due.length === 0) return 0;
+        this.logger.info(`Unfollow pass: ${due.length} user(s) followed ${options.unfollowAfterDays}+ days ago without a follow-back.`);
+
+        let unfollowed = 0;
+        for (const follow of due) {
+            if (this.shouldStop()) break;
+            const target = follow.targetUser;
+            if (!activityTracker.canPerformAction('unfollows', unfollowsPerHour)) {
+                this.logger.info(`Unfollow limit reached (${activityTracker.describeUsage('unfollows', unfollowsPerHour)}). Stopping unfollow pass.`);
+                break;
+            }
+
+            try {
+                const followsBack = await this.isFollowedBy(target);
+                if (followsBack === null) {
+                    this.logger.warn(`Could not search the followers list. Stopping unfollow pass.`);
+                    break;
+                }
+                await FollowedUser.updateOne({ _id: follow._id }, { $set: { followedBack: followsBack, checkedAt: new Date() } });
+                if (followsBack) {
+                    this.logger.info(`@${target} followed back. Keeping.`);
+                    continue;
+                }
+
+                if (this.dryRun) {
+                    await this.recordDryRunAction({ action: 'unfollow', targetUser: target }, activityTracker, 'unfollows', unfollowsPerHour);
+                    activityTracker.trackAction('unfollows');
+                    continue;
+                }
+
+                const reason = `no follow-back after ${options.unfollowAfterDays} days`;
+                if (await this.unfollowUser(target)) {
+                    activityTracker.trackAction('unfollows');
+                    unfollowed++;
+                    this.logger.info(`Unfollowed @${target} (${reason}).`);
+                    await this.journal({ action: 'unfollow', outcome: 'success', targetUser: target, reason });
+                    await FollowedUser.updateOne({ _id: follow._id }, { $set: { status: 'unfollowed', unfollowedAt: new Date(), unfollowReason: reason } });
+                } else {
+                    await this.journal({ action: 'unfollow', outcome: 'skipped', targetUser: target, reason: 'not following anymore' });
+                    await FollowedUser.updateOne({ _id: follow._id }, { $set: { status: 'unfollowed', unfollowedAt: new Date(), unfollowReason: 'not following anymore' } });
+                }
+            } catch (e) {
+                this.logger.warn(`Error unfollowing @${target}: ${e}`);
+                await this.journal({ action: 'unfollow', outcome: 'failed', targetUser: target, reason: String(e) });
+                if (String(e).includes("Action Blocked")) throw e;
+            }
+            await delay(getHumanLikeDelay(20000, 10000));
+        }
+        return unfollowed;
+    }
+
+    /**
+     * Watches stories: picks accounts from the source, opens each one's stories and watches up to
+     * `maxStoriesPerAccount` of them for a random `watchSeconds` each. On the first story of an
+     * account it may send an emoji reaction or an AI-written reply (by `reactionChance` and
+     * `replyChance`). Returns the number of accounts whose stories were watched.
+     */
+    async watchStories(options: StoryOptions): Promise<number> {
+        if (!this.page) throw new Error("Page not initialized");
+        const activityTracker = this.createActivityTracker();
+        const viewsPerHour = options.limits?.storyViewsPerHour ?? 60;
+
+        const candidates = await this.collectStoryAuthors(options);
+        if (candidates.length === 0) {
+            this.logger.warn(`No accounts with stories found (source: ${options.source}).`);
+            return 0;
+        }
+        this.logger.info(`Starting story session (source: ${options.source}, ${candidates.length} candidate accounts, target ${options.target}).`);
+
+        let watched = 0;
+        for (const username of candidates) {
+            if (watched >= options.target || this.shouldStop()) break;
+            if (!activityTracker.canPerformAction('storyViews', viewsPerHour)) {
+                this.logger.info(`Story view limit reached (${activityTracker.describeUsage('storyViews', viewsPerHour)}). Stopping story session.`);
+                break;
+            }
+            try {
+                if (await this.watchStoriesOf(username, options, activityTracker)) watched++;
+            } catch (e) {
+                this.logger.warn(`Error watching stories of @${username}: ${e}`);
+                await this.journal({ action: 'story_view', outcome: 'failed', targetUser: username, reason: String(e) });
+                if (String(e).includes("Action Blocked")) throw e;
+            }
+        }
+        this.logger.info(`Story session finished: watched stories of ${watched} account(s).`);
+        return watched;
+    }
+
+    // Usernames to watch, in the order to try them
+    private async collectStoryAuthors(options: StoryOptions): Promise<string[]> {
+        if (!this.page) return [];
+        const own = this.username.toLowerCase();
+        const unique = (names: string[]) => [...new Set(names.map(name => name.trim().replace(/^@/, '')).filter(name => name && name.toLowerCase() !== own))];
+
+        if (options.source === 'accounts') {
+            return shuffle(unique(options.accounts || []));
+        }
+
+        if (options.source === 'hashtags') {
+            const authors: string[] = [];
+            const hashtags = shuffle(options.hashtags || []);
+            for (const tag of hashtags) {
+                if (authors.length >= options.target * 2 || this.shouldStop()) break;
+                await this.gotoWithRetry(`https://www.instagram.com/explore/tags/${tag}/`, { waitUntil: "domcontentloaded" });
+                await delay(5000);
+                const postUrls: string[] = await this.page.evaluate(() =>
+                    [...new Set(Array.from(document.querySelectorAll('a[href^="/p/"]')).map(a => a.getAttribute('href') || ''))].filter(Boolean));
+                for (const postUrl of postUrls.slice(0, options.target * 2)) {
+                    if (authors.length >= options.target * 2 || this.shouldStop()) break;
+                    await this.gotoWithRetry(`https://www.instagram.com${postUrl}`, { waitUntil: "domcontentloaded" });
+                    await delay(getHumanLikeDelay(3000, 1500));
+                    const author = await this.getPostAuthor();
+                    if (author) authors.push(author);
+                }
+            }
+            return unique(authors);
+        }
+
+        // Home tray: rings are labelled "Story by <username>, not seen" (or "..., seen")
+        await this.gotoWithRetry("https://www.instagram.com/", { waitUntil: "domcontentloaded" });
+        await delay(5000);
+        const tray: string[] = await this.page.evaluate(() => Array.from(document.querySelectorAll('[aria-label^="Story by"]'))
+            .map(el => el.getAttribute('aria-label') || '')
+            .filter(label => !/, seen/i.test(label))
+            .map(label => (/^Story by ([A-Za-z0-9._]+)/.exec(label) || [])[1])
+            .filter((name): name is string => !!name));
+        return unique(tray);
+    }
+
+    /**
+     * Watches the stories of one account. Returns false when it has no active story.
+     */
+    private async watchStoriesOf(username: string, options: StoryOptions, activityTracker: ActivityTracker): Promise<boolean> {
+        if (!this.page) return false;
+        const storyPath = `/stories/${username}/`;
+        await this.gotoWithRetry(`https://www.instagram.com${storyPath}`, { waitUntil: "domcontentloaded" });
+        await delay(getHumanLikeDelay(3000, 1000));
+
+        // Instagram may ask for confirmation before showing someone's stories
+        const viewButton = await this.findButtonByText('body', ['View story', 'View Story']);
+        if (viewButton) {
+            await this.humanLikeClick(viewButton);
+            await delay(2000);
+        }
+        if (!this.page.url().includes(storyPath)) {
+            this.logger.info(`@${username} has no active story.`);
+            return false;
+        }
+
+        const storyUrl = this.page.url();
+        const { min, max } = options.watchSeconds || { min: 4, max: 9 };
+        const maxStories = options.maxStoriesPerAccount || 3;
+        let watchedStories = 0;
+        while (watchedStories < maxStories && !this.shouldStop()) {
+            await delay((min + Math.random() * (max - min)) * 1000);
+            watchedStories++;
+            if (watchedStories === 1) await this.maybeRespondToStory(username, options, activityTracker);
+
+            await this.page.keyboard.press('ArrowRight');
+            await delay(1500);
+            if (!this.page.url().includes(storyPath)) break; // The account's last story ended
+        }
+
+        activityTracker.trackAction('storyViews');
+        this.logger.info(`Watched ${watchedStories} stor${watchedStories === 1 ? 'y' : 'ies'} of @${username}.`);
+        await this.journal({ action: 'story_view', outcome: 'success', targetUser: username, postUrl: storyUrl });
+        return true;
+    }
+
+    /**
+     * Quick reactions this account may send: the configured `reactions`, or else the character's
+     * preferred emojis that are quick reactions. A character whose preferred emojis include none
+     * gets every quick reaction it doesn't avoid.
+     */
+    private storyReactionsFor(options: StoryOptions): string[] {
+        const { preferredEmojis, avoidEmojis } = getCommentRules(this.character);
+        const bare = (emoji: string) => emoji.replace(/\uFE0F/g, '');
+        const avoided = new Set(avoidEmojis.map(bare));
+        const allowed = STORY_QUICK_REACTIONS.filter(emoji => !avoided.has(bare(emoji)));
+        if (options.reactions && options.reactions.length > 0) {
+            return allowed.filter(emoji => options.reactions!.some(reaction => bare(reaction) === bare(emoji)));
+        }
+        const preferred = allowed.filter(emoji => preferredEmojis.some(reaction => bare(reaction) === bare(emoji)));
+        return preferred.length > 0 ? preferred : allowed;
+    }
+
+    // At most one reaction or reply per account, by chance and within the limits
+    private async maybeRespondToStory(username: string, options: StoryOptions, activityTracker: ActivityTracker) {
+        if (!this.page) return;
+        const repliesPerHour = options.limits?.storyRepliesPerHour ?? 3;
+        const reactionsPerHour = options.limits?.storyReactionsPerHour ?? 10;
+        const replyChance = options.replyChance || 0;
+        const reactionChance = options.reactionChance || 0;
+        const roll = Math.random();
+        const storyUrl = this.page.url();
+
+        let action: 'story_reply' | 'story_reaction';
+        let text = '';
+        if (roll < replyChance && activityTracker.canPerformAction('storyReplies', repliesPerHour)) {
+            action = 'story_reply';
+            // Image descriptions (alt text) are the only view of the story content the page gives us
+            const story = await this.page.evaluate(() => Array.from(document.querySelectorAll('section img[alt], div[role="dialog"] img[alt]'))
+                .map(img => (img.getAttribute('alt') || '').trim())
+                .filter(alt => alt && !/profile picture/i.test(alt))
+                .join('\n'));
+            if (!story) {
+                this.logger.info(`Not replying to @${username}'s story: nothing to react to.`);
+                return;
+            }
+            const result = await runAgent(getStoryReplySchema(), buildStoryReplyPrompt({
+                character: this.character,
+                username,
+                story,
+                languages: this.languages,
+                defaultLanguage: this.defaultLanguage
+            }));
+            text = (Array.isArray(result) ? result[0]?.reply ?? "" : "").trim();
+            if (!text) return;
+        } else if (roll < replyChance + reactionChance && activityTracker.canPerformAction('storyReactions', reactionsPerHour)) {
+            action = 'story_reaction';
+            const reactions = this.storyReactionsFor(options);
+            if (reactions.length === 0) {
+                this.logger.info(`Not reacting to @${username}'s story: the character avoids every quick reaction.`);
+                return;
+            }
+            text = reactions[Math.floor(Math.random() * reactions.length)];
+        } else {
+            return;
+        }
+        const limitAction = action === 'story_reply' ? 'storyReplies' : 'storyReactions';
+        const limit = action === 'story_reply' ? repliesPerHour : reactionsPerHour;
+
+        if (this.dryRun) {
+            await this.recordDryRunAction({ action, targetUser: username, postUrl: storyUrl, text }, activityTracker, limitAction, limit);
+            activityTracker.trackAction(limitAction);
+            return;
+        }
+
+        const replyBox = await this.page.$('textarea[placeholder^="Reply to"], textarea[placeholder^="Send message"], div[role="textbox"]');
+        if (!replyBox) {
+            await this.journal({ action, outcome: 'skipped', targetUser: username, postUrl: storyUrl, text, reason: 'replies are turned off' });
+            return;
+        }
+        // Focusing the reply box opens the quick reactions; a reaction is sent by clicking one,
+        // never typed into the box (which would send it as a DM)
+        await this.humanLikeClick(replyBox);
+        await delay(getHumanLikeDelay(1000, 500));
+        if (action === 'story_reaction') {
+            const reaction = await this.findButtonByText('body', [text, `${text}\uFE0F`]);
+            if (!reaction) {
+                await this.page.keyboard.press('Escape');
+                await this.journal({ action, outcome: 'skipped', targetUser: username, postUrl: storyUrl, text, reason: 'quick reactions not shown' });
+                return;
+            }
+            await this.humanLikeClick(reaction);
+        } else {
+            await replyBox.type(text, { delay: 60 });
+            await delay(getHumanLikeDelay(1000, 500));
+            await this.page.keyboard.press('Enter');
+        }
+        await delay(getHumanLikeDelay(2000, 800));
+        await this.checkActionBlock(action === 'story_reply' ? "Story Reply" : "Story Reaction");
+
+        activityTracker.trackAction(limitAction);
+        this.logger.info(`Sent story ${action === 'story_reply' ? 'reply' : 'reaction'} to @${username}: "${text}"`);
+        await this.journal({ action, outcome: 'success', targetUser: username, postUrl: storyUrl, text });
+    }
+
+    /**
+     * Publishes a post through the web "Create" flow: uploads the media (several files make a
+     * carousel), skips crop and edit, types the caption and shares. Returns the URL of the new
+     * post (null when it can't be found on the profile, or in a dry run), or null instead of
+     * an object when the post limit is reached. Throws when the flow fails.
+     */
+    async publishPost(mediaPaths: string[], caption: string, limits?: { postsPerHour?: number }): Promise<{ postUrl: string | null } | null> {
+        if (!this.page) throw new Error("Page not initialized");
+        const activityTracker = this.createActivityTracker();
+        const postsPerHour = limits?.postsPerHour ?? 1;
+        const media = mediaPaths.map(file => path.basename(file)).join(', ');
+        if (!activityTracker.canPerformAction('posts', postsPerHour)) {
+            const usage = activityTracker.describeUsage('posts', postsPerHour);
+            this.logger.info(`Not publishing post (${media}): limit reached (${usage}).`);
+            await this.journal({ action: 'post', outcome: 'skipped', text: caption, reason: `limit reached: ${usage}` });
+            return null;
+        }
+
+        if (this.dryRun) {
+            await this.recordDryRunAction({ action: 'post', text: `${caption} [media: ${media}]` }, activityTracker, 'posts', postsPerHour);
+            activityTracker.trackAction('posts');
+            return { postUrl: null };
+        }
+
+        try {
+            // Grid links from before, so the new post isn't confused with a pinned or older one
+            const existingPosts = new Set(await this.getProfilePostLinks());
+            await this.gotoWithRetry("https://www.instagram.com/", { waitUntil: "networkidle2" });
+            await delay(getHumanLikeDelay(3000, 1000));
+            await this.handleNotificationPopup();
+
+            const createButton = await this.page.$('svg[aria-label="New post"]');
+            if (!createButton) throw new Error("Create button not found.");
+            await this.humanLikeClick(createButton);
+            await delay(getHumanLikeDelay(1500, 500));
+            // Newer layouts open a menu (Post / Live / AI) first
+            const postMenuItem = await this.page.$('svg[aria-label="Post"]');
+            if (postMenuItem) {
+                await this.humanLikeClick(postMenuItem);
+                await delay(getHumanLikeDelay(1500, 500));
+            }
+
+            const fileInput = await this.page.waitForSelector('div[role="dialog"] input[type="file"], form input[type="file"]', { timeout: 15000 }).catch(() => null);
+            if (!fileInput) throw new Error("Media upload input not found.");
+            await (fileInput as puppeteer.ElementHandle<HTMLInputElement>).uploadFile(...mediaPaths);
+            await delay(getHumanLikeDelay(5000, 1500));
+            // Videos are shared as reels; Instagram says so once
+            const reelsNotice = await this.findButtonByText('div[role="dialog"]', ['OK']);
+            if (reelsNotice) {
+                await this.humanLikeClick(reelsNotice);
+                await delay(1000);
+            }
+
+            // Crop, then filters/edit, then the caption step
+            for (let step = 0; step < 2; step++) {
+                const next = await this.findButtonByText('div[role="dialog"]', ['Next']);
+                if (!next) throw new Error(`"Next" button not found (step ${step + 1}).`);
+                await this.humanLikeClick(next);
+                await delay(getHumanLikeDelay(2500, 800));
+            }
+
+            const captionBox = await this.page.$('div[role="dialog"] div[aria-label^="Write a caption"], div[role="dialog"] div[role="textbox"]');
+            if (!captionBox) throw new Error("Caption box not found.");
+            await this.humanLikeClick(captionBox);
+            await captionBox.type(caption, { delay: 40 });
+            await delay(getHumanLikeDelay(2000, 800));
+
+            const share = await this.findButtonByText('div[role="dialog"]', ['Share']);
+            if (!share) throw new Error('"Share" button not found.');
+            this.logger.info(`Publishing post (${media})...`);
+            await this.humanLikeClick(share);
+            await this.page.waitForFunction(
+                () => /Your (post|reel) has been shared|Post shared|Reel shared/i.test(document.body.innerText),
+                { timeout: 120000 }
+            ).catch(() => this.logger.warn("No confirmation that the post was shared; checking the profile."));
+            await this.checkActionBlock("Post Action");
+            activityTracker.trackAction('posts');
+
+            // The new post is the grid link that wasn't there before publishing
+            const postUrl = (await this.getProfilePostLinks()).find(link => !existingPosts.has(link)) || null;
+            this.logger.info(`Post published${postUrl ? `: ${postUrl}` : ' (post URL not found)'}.`);
+            await this.journal({ action: 'post', outcome: 'success', postUrl: postUrl || undefined, text: caption });
+            return { postUrl };
+        } catch (error) {
+            this.logger.error(`Failed to publish post (${media}): ${error}`);
+            await this.journal({ action: 'post', outcome: 'failed', text: caption, reason: String(error) });
+            throw error;
+        }
+    }
+
+    /**
+     * Post and reel URLs in this account's profile grid, in grid order (pinned posts first).
+     */
+    private async getProfilePostLinks(): Promise<string[]> {
+        if (!this.page) throw new Error("Page not initialized");
+        await this.gotoWithRetry(`https://www.instagram.com/${this.username}/`, { waitUntil: "networkidle2" });
+        await delay(getHumanLikeDelay(3000, 1000));
+        const hrefs = await this.page.evaluate(() =>
+            Array.from(document.querySelectorAll('main a[href*="/p/"], main a[href*="/reel/"]')).map(link => link.getAttribute('href') || ''));
+        return [...new Set(hrefs.filter(Boolean).map(href => new URL(href, "https://www.instagram.com").toString()))];
+    }
+
+    /**
+     * Generates a comment in the character's voice and checks it against the character's rules
+     * (banned words, generic comments, length, emojis). Comments that fail are sent back with
+     * their problems, up to COMMENT_ATTEMPTS rounds. Returns null and the last problems when
+     * none passes.
+     */
+    private async generateComment(caption: string): Promise<{ comment: string | null; problems: string[] }> {
+        const rules = getCommentRules(this.character);
+        const rejected: { comment: string; problems: string[] }[] = [];
+        for (let attempt = 0; attempt < COMMENT_ATTEMPTS; attempt++) {
+            const result = await runAgent(getInstagramCommentSchema(), buildCommentPrompt({
+                character: this.character,
+                caption,
+                languages: this.languages,
+                defaultLanguage: this.defaultLanguage,
+                rejected
+            }));
+            // runAgent answers with an error string when Gemini is unavailable
+            const candidates: string[] = Array.isArray(result)
+                ? result.map((item: any) => (typeof item?.comment === "string" ? item.comment.trim() : "")).filter(Boolean)
+                : [];
+            if (candidates.length === 0) return { comment: null, problems: ["no comment was generated"] };
+            for (const comment of candidates) {
+                const problems = checkComment(comment, rules);
+                if (problems.length === 0) return { comment, problems: [] };
+                this.logger.info(`Generated comment rejected (${problems.join('; ')}): "${comment}"`);
+                rejected.push({ comment, problems });
+            }
+        }
+        return { comment: null, problems: rejected[rejected.length - 1]?.problems || [] };
+    }
+
     /**
      * Simulates a human-like click by moving the mouse to the element first,
      * hesitating, and then triggering the click via JS to avoid protocol timeouts.
@@ -2455,13 +3258,12 @@ this.logger.info("Waiting for page hydration...");
         const { behavior = { enableLikes: true, enableComments: true }, limits } = options;
 
         // Define limits (default to safe values if not provided)
-        const maxLikesPerHour = limits?.likesPerHour || 10;
-        const maxCommentsPerHour = limits?.commentsPerHour || 5;
+        const maxLikesPerHour = limits?.likesPerHour ?? 10;
+        const maxCommentsPerHour = limits?.commentsPerHour ?? 5;
         const targetActions = limits?.likesPerSession || 10;
 
         // Initialize Activity Tracker
-        const accountId = this.userDataDir ? path.basename(this.userDataDir) : this.username;
-        const activityTracker = new ActivityTracker(accountId);
+        const activityTracker = this.createActivityTracker();
 
         this.logger.info(`Starting interaction session. Hourly Limits: Likes=${maxLikesPerHour}, Comments=${maxCommentsPerHour}. Session Target=${targetActions}.`);
 
@@ -2514,7 +3316,7 @@ this.logger.info("Waiting for page hydration...");
         const initialCanComment = behavior.enableComments !== false && activityTracker.canPerformAction('comments', maxCommentsPerHour);
 
         if (!initialCanLike && !initialCanComment) {
-            this.logger.warn("Hourly limits already reached or features disabled for BOTH actions. Skipping post interaction loop entirely.");
+            this.logger.warn("Limits already reached or features disabled for BOTH actions. Skipping post interaction loop entirely.");
             return 0;
         }
 
@@ -2524,7 +3326,7 @@ this.logger.info("Waiting for page hydration...");
 
         while (postIndex <= maxPosts && actionsDone < targetActions) {
             // Check for exit flag
-            if (typeof getShouldExitInteractions === 'function' && getShouldExitInteractions()) {
+            if (this.shouldStop()) {
                 console.log('Exit from interactions requested. Stopping loop.');
                 break;
             }
@@ -2534,7 +3336,7 @@ this.logger.info("Waiting for page hydration...");
             const canComment = behavior.enableComments !== false && activityTracker.canPerformAction('comments', maxCommentsPerHour);
 
             if (!canLike && !canComment) {
-                this.logger.warn("Hourly limits reached or features disabled for BOTH actions. Ending session early.");
+                this.logger.warn("Limits reached or features disabled for BOTH actions. Ending session early.");
                 break;
             }
 
@@ -2579,6 +3381,7 @@ this.logger.info("Waiting for page hydration...");
                     // Update DB if found in UI but not in DB
                     if (!isAlreadyLikedDB && postUrl) {
                         await LikedPost.updateOne({ username: this.username, postUrl }, { $set: { likedAt: new Date() } }, { upsert: true }).catch(() => { });
+                        await this.journal({ action: 'like', outcome: 'skipped', postUrl, reason: 'already liked' });
                     }
 
                     // Move to next post immediately
@@ -2591,12 +3394,18 @@ this.logger.info("Waiting for page hydration...");
                 // --- LIKING LOGIC ---
                 if (behavior.enableLikes !== false) {
                     if (!activityTracker.canPerformAction('likes', maxLikesPerHour)) {
-                        console.log(`Skipping like: Hourly limit reached (${activityTracker.getRecentCount('likes')}/${maxLikesPerHour}).`);
+                        const usage = activityTracker.describeUsage('likes', maxLikesPerHour);
+                        console.log(`Skipping like: limit reached (${usage}).`);
+                        await this.journal({ action: 'like', outcome: 'skipped', postUrl: postUrl || undefined, reason: `limit reached: ${usage}` });
                     } else if (ariaLabel === "Like" && likeButton) {
                         console.log(`Liking post ${postIndex}...`);
                         try {
                             const isConnected = await likeButton.evaluate(el => el.isConnected).catch(() => false);
-                            if (isConnected) {
+                            if (isConnected && this.dryRun) {
+                                await this.recordDryRunAction({ action: 'like', postUrl: postUrl || undefined }, activityTracker, 'likes', maxLikesPerHour);
+                                activityTracker.trackAction('likes');
+                                actionsDone++;
+                            } else if (isConnected) {
                                 // Use human-like safe click (Move -> Delay -> JS Click)
                                 await this.humanLikeClick(likeButton as puppeteer.ElementHandle<Element>)
                                     .catch(err => console.warn(`Failed to click like button: ${err}`));
@@ -2608,6 +3417,7 @@ this.logger.info("Waiting for page hydration...");
                                 await this.checkActionBlock("Hashtag Like Action");
 
                                 console.log(`Post ${postIndex} liked.`);
+                                await this.journal({ action: 'like', outcome: 'success', postUrl: postUrl || undefined });
                                 activityTracker.trackAction('likes');
                                 actionsDone++;
 
@@ -2624,9 +3434,11 @@ this.logger.info("Waiting for page hydration...");
                             }
                         } catch (e) {
                             console.warn(`Error interacting with like button for post ${postIndex}:`, e);
+                            await this.journal({ action: 'like', outcome: 'failed', postUrl: postUrl || undefined, reason: String(e) });
                         }
                     } else {
                         console.log(`Like button not found for post ${postIndex}.`);
+                        await this.journal({ action: 'like', outcome: 'failed', postUrl: postUrl || undefined, reason: 'like button not found' });
                     }
                 } else {
                     console.log(`Skipping liking for post ${postIndex} (feature disabled).`);
@@ -2668,48 +3480,59 @@ this.logger.info("Waiting for page hydration...");
                 // --- COMMENT LOGIC ---
                 if (behavior.enableComments !== false) {
                     if (!activityTracker.canPerformAction('comments', maxCommentsPerHour)) {
-                        console.log(`Skipping comment: Hourly limit reached (${activityTracker.getRecentCount('comments')}/${maxCommentsPerHour}).`);
+                        const usage = activityTracker.describeUsage('comments', maxCommentsPerHour);
+                        console.log(`Skipping comment: limit reached (${usage}).`);
+                        await this.journal({ action: 'comment', outcome: 'skipped', postUrl: postUrl || undefined, reason: `limit reached: ${usage}` });
                     } else {
                         const commentBoxSelector = `${postSelector} textarea`;
                         const commentBox = await page.$(commentBoxSelector);
                         if (commentBox) {
                             console.log(`Commenting on post ${postIndex}...`);
-                            const prompt = `human-like Instagram comment based on to the following post: "${caption}". make sure the reply\n            Matchs the tone of the caption (casual, funny, serious, or sarcastic).\n            Sound organic—avoid robotic phrasing, overly perfect grammar, or anything that feels AI-generated.\n            Use relatable language, including light slang, emojis (if appropriate), and subtle imperfections like minor typos or abbreviations (e.g., 'lol' or 'omg').\n            If the caption is humorous or sarcastic, play along without overexplaining the joke.\n            If the post is serious (e.g., personal struggles, activism), respond with empathy and depth.\n            Avoid generic praise ('Great post!'); instead, react specifically to the content (e.g., 'The way you called out pineapple pizza haters 😂👏').\n            *Keep it concise (1-2 sentences max) and compliant with Instagram's guidelines (no spam, harassment, etc.).*`;
-                            const schema = getInstagramCommentSchema();
-                            const result = await runAgent(schema, prompt);
-                            const comment = (result[0]?.comment ?? "") as string;
-                            await commentBox.type(comment);
-
-                            // New selector approach for the post button
-                            const postButton = await page.evaluateHandle(() => {
-                                const buttons = Array.from(
-                                    document.querySelectorAll('div[role="button"]')
-                                );
-                                return buttons.find(
-                                    (button) =>
-                                        button.textContent === "Post" && !button.hasAttribute("disabled")
-                                );
-                            });
-                            // Only click if postButton is an ElementHandle and not null
-                            const postButtonElement = postButton && postButton.asElement ? postButton.asElement() : null;
-                            if (postButtonElement) {
-                                console.log(`Posting comment on post ${postIndex}...`);
-                                // Click logic...
-                                await this.humanLikeClick(postButtonElement as puppeteer.ElementHandle<Element>);
-                                console.log(`Comment posted on post ${postIndex}.`);
-
-                                // CHECK FOR ACTION BLOCK (Soft Block)
-                                await delay(2000); // Wait for popup
-                                await this.checkActionBlock("Hashtag Comment Action");
-
+                            const { comment, problems } = await this.generateComment(caption);
+                            if (comment === null) {
+                                this.logger.info(`Not commenting on post ${postIndex}: no generated comment passed the character's rules (${problems.join('; ')}).`);
+                                await this.journal({ action: 'comment', outcome: 'skipped', postUrl: postUrl || undefined, reason: `rejected: ${problems.join('; ')}` });
+                            } else if (this.dryRun) {
+                                await this.recordDryRunAction({ action: 'comment', postUrl: postUrl || undefined, text: comment }, activityTracker, 'comments', maxCommentsPerHour);
                                 activityTracker.trackAction('comments');
-                                // Wait for comment to be posted and UI to update
                                 await delay(2000);
                             } else {
-                                console.log("Post button not found.");
+                                await commentBox.type(comment);
+
+                                // New selector approach for the post button
+                                const postButton = await page.evaluateHandle(() => {
+                                    const buttons = Array.from(
+                                        document.querySelectorAll('div[role="button"]')
+                                    );
+                                    return buttons.find(
+                                        (button) =>
+                                            button.textContent === "Post" && !button.hasAttribute("disabled")
+                                    );
+                                });
+                                // Only click if postButton is an ElementHandle and not null
+                                const postButtonElement = postButton && postButton.asElement ? postButton.asElement() : null;
+                                if (postButtonElement) {
+                                    console.log(`Posting comment on post ${postIndex}...`);
+                                    // Click logic...
+                                    await this.humanLikeClick(postButtonElement as puppeteer.ElementHandle<Element>);
+                                    console.log(`Comment posted on post ${postIndex}.`);
+
+                                    // CHECK FOR ACTION BLOCK (Soft Block)
+                                    await delay(2000); // Wait for popup
+                                    await this.checkActionBlock("Hashtag Comment Action");
+                                    await this.journal({ action: 'comment', outcome: 'success', postUrl: postUrl || undefined, text: comment });
+
+                                    activityTracker.trackAction('comments');
+                                    // Wait for comment to be posted and UI to update
+                                    await delay(2000);
+                                } else {
+                                    console.log("Post button not found.");
+                                    await this.journal({ action: 'comment', outcome: 'failed', postUrl: postUrl || undefined, text: comment, reason: 'post button not found' });
+                                }
                             }
                         } else {
                             console.log("Comment box not found.");
+                            await this.journal({ action: 'comment', outcome: 'failed', postUrl: postUrl || undefined, reason: 'comment box not found' });
                         }
                     }
                 } else {
@@ -2744,9 +3567,30 @@ this.logger.info("Waiting for page hydration...");
         return actionsDone;
     }
 
-    async scrapeFollowers(targetAccount: string, maxFollowers: number) {
+    /**
+     * Scrolls the followers list of `targetAccount` and collects up to `maxFollowers` entries with
+     * what the list shows of each (full name, verified badge), plus the private flag from the
+     * followers API responses that fill the list. `complete` is true when the end of the list was
+     * reached. A stop request returns the followers collected so far.
+     */
+    async scrapeFollowers(targetAccount: string, maxFollowers: number, onProgress?: (scraped: number, max: number) => void): Promise<ScrapedFollowers> {
         if (!this.page) throw new Error("Page not initialized");
         const page = this.page;
+        // The list doesn't show whether an account is private, but the followers API responses
+        // that fill it do (users[].is_private); rows missing from them keep isPrivate null
+        const privateFlags = new Map<string, boolean>();
+        const onResponse = async (response: puppeteer.HTTPResponse) => {
+            if (!/\/friendships\/\d+\/followers\//.test(response.url()) || !response.ok()) return;
+            try {
+                const body = await response.json();
+                for (const user of Array.isArray(body?.users) ? body.users : []) {
+                    if (typeof user?.username === 'string' && typeof user.is_private === 'boolean') privateFlags.set(user.username, user.is_private);
+                }
+            } catch {
+                // Not JSON (e.g. a login redirect)
+            }
+        };
+        page.on('response', onResponse);
         try {
             // Navigate to the target account's followers page
             await page.goto(`https://www.instagram.com/${targetAccount}/followers/`, {
@@ -2763,32 +3607,53 @@ this.logger.info("Waiting for page hydration...");
             }
             console.log("Followers modal loaded");
 
-            const followers: string[] = [];
+            const followers = new Map<string, AudienceMember>();
+            let complete = false;
             let previousHeight = 0;
             let currentHeight = 0;
-            maxFollowers = maxFollowers + 4;
             // Scroll and collect followers until we reach the desired amount or can't scroll anymore
-            console.log(maxFollowers);
-            while (followers.length < maxFollowers) {
-                // Get all follower links in the current view
-                const newFollowers = await page.evaluate(() => {
-                    const followerElements =
-                        document.querySelectorAll('div a[role="link"]');
-                    return Array.from(followerElements)
-                        .map((element) => element.getAttribute("href"))
-                        .filter(
-                            (href): href is string => href !== null && href.startsWith("/")
-                        )
-                        .map((href) => href.substring(1)); // Remove leading slash
-                });
+            while (followers.size < maxFollowers) {
+                if (this.shouldStop()) {
+                    console.log("Stop requested. Returning followers scraped so far.");
+                    break;
+                }
+                // Each row of the modal has one profile link; the row's text holds the username, the
+                // full name and the button label, and verified accounts carry a badge
+                const rows = await page.evaluate((target: string) => {
+                    const dialog = document.querySelector('div[role="dialog"]');
+                    if (!dialog) return [];
+                    const buttonLabels = ['follow', 'following', 'remove', 'requested', 'follow back', 'message', '·'];
+                    const seen = new Set<string>();
+                    const entries: { username: string; fullName: string | null; verified: boolean }[] = [];
+                    for (const link of Array.from(dialog.querySelectorAll('a[role="link"][href^="/"]'))) {
+                        const username = (link.getAttribute('href') || '').split('/').filter(Boolean)[0];
+                        if (!username || username.toLowerCase() === target.toLowerCase() || seen.has(username)) continue;
+                        // Widen to the row: the largest ancestor that links to this profile only
+                        let row: Element = link;
+                        while (row.parentElement && row.parentElement !== dialog &&
+                            Array.from(row.parentElement.querySelectorAll('a[href^="/"]')).every(other => (other.getAttribute('href') || '').split('/').filter(Boolean)[0] === username)) {
+                            row = row.parentElement;
+                        }
+                        const lines = ((row as HTMLElement).innerText || '').split('\n').map(line => line.trim())
+                            .filter(line => line && line !== username && !buttonLabels.includes(line.toLowerCase()));
+                        seen.add(username);
+                        entries.push({
+                            username,
+                            fullName: lines[0] || null,
+                            verified: !!row.querySelector('svg[aria-label="Verified"]')
+                        });
+                    }
+                    return entries;
+                }, targetAccount);
 
                 // Add new unique followers to our list
-                for (const follower of newFollowers) {
-                    if (!followers.includes(follower) && followers.length < maxFollowers) {
-                        followers.push(follower);
-                        console.log(`Found follower: ${follower}`);
+                for (const row of rows) {
+                    if (!followers.has(row.username) && followers.size < maxFollowers) {
+                        followers.set(row.username, { ...row, isPrivate: null });
+                        console.log(`Found follower: ${row.username}`);
                     }
                 }
+                onProgress?.(followers.size, maxFollowers);
 
                 // Scroll the followers modal
                 await page.evaluate(() => {
@@ -2809,17 +3674,21 @@ this.logger.info("Waiting for page hydration...");
 
                 if (currentHeight === previousHeight) {
                     console.log("Reached the end of followers list");
+                    complete = true;
                     break;
                 }
 
                 previousHeight = currentHeight;
             }
 
-            console.log(`Successfully scraped ${followers.length - 4} followers`);
-            return followers.slice(4, maxFollowers);
+            console.log(`Successfully scraped ${followers.size} followers`);
+            const scraped = Array.from(followers.values()).map(follower => ({ ...follower, isPrivate: privateFlags.get(follower.username) ?? null }));
+            return { followers: scraped, complete };
         } catch (error) {
             console.error(`Error scraping followers for ${targetAccount}:`, error);
             throw error;
+        } finally {
+            page.off('response', onResponse);
         }
     }
 
@@ -2864,7 +3733,7 @@ export async function scrapeFollowersHandler(targetAccount: string, maxFollowers
     // For now, just pass empty credentials which will fail if login needed, but keeps syntax valid.
     const client = new IgClient({});
     await client.init();
-    const followers = await client.scrapeFollowers(targetAccount, maxFollowers);
+    const { followers } = await client.scrapeFollowers(targetAccount, maxFollowers);
     await client.close();
-    return followers;
+    return followers.map(follower => follower.username);
 }
\ No newline at end of file
@@ -5,6 +5,8 @@ import AdblockerPlugin from 'puppeteer-extra-plugin-adblocker';
 import { createAccountLogger } from '../../config/logger';
 const logger = createAccountLogger('JobBot');
 import { EmailService } from '../../services/EmailService';
+import { eventBus } from '../../services/EventBus';
+import { browserLaunchFailures, jobBotJobs } from '../../services/Metrics';
 import { JobAnalyzer } from '../../services/JobAnalyzer';
 import { JobHistory } from '../../services/JobHistory';
 import UserAgent from 'user-agents';
@@ -49,6 +51,7 @@ export class JobClient {
     private currentTargetUserId: string | null = null;
     private originalConfig: JobConfig;
     private proxyUrl: string | null = null;
+    private stopRequested = false;
 
     constructor(emailService: EmailService, config: JobConfig) {
         this.emailService = emailService;
@@ -113,7 +116,10 @@ export class JobClient {
                 ...(this.proxyUrl ? [`--proxy-server=${this.proxyUrl}`] : []),
             ],
             ignoreHTTPSErrors: true
-        } as any);
+        } as any).catch(error => {
+            browserLaunchFailures.inc({ bot: 'jobbot' });
+            throw error;
+        });
 
         const apiKey = process.env.RESUMATE_API_TOKEN || "MISSING";
         logger.info(`Loaded ResuMate API Key: ${apiKey.substring(0, 5)}...`);
@@ -215,6 +221,13 @@ export class JobClient {
         }
     }
 
+    /**
+     * Makes the running search return after the job currently being analyzed.
+     */
+    requestStop() {
+        this.stopRequested = true;
+    }
+
     async close() {
         if (this.browser) {
             await this.browser.close();
@@ -235,8 +248,13 @@ export class JobClient {
         }
 
         logger.info(`>>> Processing ${proUsers.length} Users... << <`);
+        eventBus.publish('jobbot.progress', null, `Search cycle started for ${proUsers.length} users`, { stage: 'cycle.started', users: proUsers.length });
 
-        for (const user of proUsers) {
+        for (const [index, user] of proUsers.entries()) {
+            if (this.stopRequested) {
+                logger.info(">>> Stop requested. Skipping remaining users. <<<");
+                break;
+            }
             logger.info(`\n === Processing User: ${user.name} (${user.id}) === `);
             this.currentTargetUserId = user.id;
 
@@ -270,6 +288,9 @@ export class JobClient {
             };
 
             logger.info(`   Target: ${this.config.keywords[0]} in ${this.config.location} (Pensum: ${this.config.pensum || 'Any'})`);
+            eventBus.publish('jobbot.progress', null, `User ${index + 1}/${proUsers.length}: ${this.config.keywords[0]} in ${this.config.location}`, {
+                stage: 'user.started', user: user.id, index: index + 1, total: proUsers.length
+            });
 
             await this.executeSearchLoop();
         }
@@ -278,6 +299,7 @@ export class JobClient {
         this.currentTargetUserId = null;
         this.config = this.originalConfig;
         logger.info(">>> CENTRAL SERVICE LOOP COMPLETED <<<");
+        eventBus.publish('jobbot.progress', null, 'Search cycle completed', { stage: 'cycle.completed', stopped: this.stopRequested });
     }
 
     private async fetchProUsers(): Promise<any[]> {
@@ -321,6 +343,7 @@ export class JobClient {
             logger.info(`-- - Searching jobs in: ${location} --- `);
 
             for (const platform of this.config.platforms) {
+                if (this.stopRequested) break;
                 try {
                     await this.ensureBrowser();
 
@@ -466,10 +489,16 @@ export class JobClient {
         jobs = await this.filterExistingJobs(jobs);
 
         logger.info(`Processing ${jobs.length} new jobs for ${platform}...`);
+        eventBus.publish('jobbot.progress', null, `${jobs.length} new jobs on ${platform}`, { stage: 'jobs.found', platform, jobs: jobs.length, user: this.currentTargetUserId });
+        jobBotJobs.inc({ platform, stage: 'scraped' }, jobs.length);
 
         const matchedJobsToReturn: any[] = [];
 
         for (const job of jobs) {
+            if (this.stopRequested) {
+                logger.info(`Stop requested. Leaving ${jobs.length - jobs.indexOf(job)} jobs for the next run.`);
+                break;
+            }
             try {
                 const currentStableId = this.extractJobId(job.url);
                 if (this.history.isProcessed(currentStableId)) { // Double check with Stable ID
@@ -490,9 +519,14 @@ export class JobClient {
                     this.config.keywords[0], // targetTitle (e.g. "Verkäufer")
                     this.config.pensum       // targetPensum (e.g. "40%")
                 );
+                jobBotJobs.inc({ platform, stage: 'analyzed' });
 
                 if (analysis.isRelevant) {
+                    jobBotJobs.inc({ platform, stage: 'matched' });
                     logger.info(`Job Match! Score: ${analysis.score}. Queuing for batch email.`);
+                    eventBus.publish('jobbot.progress', null, `Match: ${job.title} (score ${analysis.score})`, {
+                        stage: 'job.matched', platform, title: job.title, company: job.company, score: analysis.score, user: this.currentTargetUserId
+                    });
                     matchedJobsToReturn.push({
                         title: job.title,
                         company: job.company,
@@ -126,6 +126,12 @@ export function setupErrorHandlers(): void {
 
 // ... existing logger ...
 
+export const SYSTEM_LOG_DIR = systemLogDir;
+
+// Sanitize accountId for filesystem safety
+export const getAccountLogDir = (accountId: string) =>
+    path.join(logDir, 'accounts', accountId.replace(/[^a-zA-Z0-9_-]/g, '_'));
+
 const accountLoggersMap = new Map<string, any>(); // generic winston logger type
 
 export const createAccountLogger = (accountId: string) => {
@@ -133,9 +139,7 @@ export const createAccountLogger = (accountId: string) => {
         return accountLoggersMap.get(accountId)!;
     }
 
-    // Sanitize accountId for filesystem safety
-    const safeId = accountId.replace(/[^a-zA-Z0-9_-]/g, '_');
-    const accountLogDir = path.join(logDir, 'accounts', safeId);
+    const accountLogDir = getAccountLogDir(accountId);
 
     if (!fs.existsSync(accountLogDir)) {
         fs.mkdirSync(accountLogDir, { recursive: true });
@@ -3,6 +3,7 @@ import logger from "./config/logger";
 import { shutdown } from "./services";
 import app from "./app";
 import { initAgent } from "./Agent/index";
+import { accountManager } from "./services/AccountManager";
 
 dotenv.config();
 
@@ -26,6 +27,10 @@ async function startServer() {
     logger.info("Received SIGINT signal.");
     shutdown(server);
   });
+  process.on("SIGHUP", () => {
+    logger.info("Received SIGHUP signal. Reloading accounts...");
+    accountManager.reload();
+  });
 }
 
 startServer();
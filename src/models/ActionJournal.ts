@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TrackedAction } from '../utils/activityTracker';
+
+export type JournalActionType = 'like' | 'comment' | 'comment_like' | 'accept_dm_request' | 'dm' | 'follow' | 'unfollow' | 'story_view' | 'story_reaction' | 'story_reply' | 'post';
+export type JournalOutcome = 'success' | 'failed' | 'skipped' | 'dry_run';
+
+export interface IActionJournalEntry extends Document {
+    account: string;            // Account id from accounts.json (falls back to the tracker id)
+    username: string;           // Instagram username of the bot account
+    action: JournalActionType;
+    targetUser?: string;
+    postUrl?: string;
+    text?: string;              // Generated comment or DM
+    strategy: string;           // feed, hashtag, dm-only, dm, api, ...
+    sessionId?: string;
+    outcome: JournalOutcome;
+    reason?: string;            // Why an action was skipped or failed
+    limitState?: {
+        action: TrackedAction;
+        used: number;           // Actions counted in the last hour
+        limit?: number;         // Hourly limit before warming (unset for manual API sends)
+    };
+    createdAt: Date;
+}
+
+const ActionJournalSchema: Schema = new Schema({
+    account: { type: String, required: true, index: true },
+    username: { type: String, required: true },
+    action: { type: String, required: true, enum: ['like', 'comment', 'comment_like', 'accept_dm_request', 'dm', 'follow', 'unfollow', 'story_view', 'story_reaction', 'story_reply', 'post'] },
+    targetUser: { type: String },
+    postUrl: { type: String },
+    text: { type: String },
+    strategy: { type: String, required: true },
+    sessionId: { type: String, index: true },
+    outcome: { type: String, required: true, enum: ['success', 'failed', 'skipped', 'dry_run'] },
+    reason: { type: String },
+    limitState: {
+        type: new Schema({
+            action: { type: String, required: true },
+            used: { type: Number, required: true },
+            limit: { type: Number }
+        }, { _id: false }),
+        required: false
+    },
+    createdAt: { type: Date, default: Date.now }
+});
+
+// Typical queries: one account over a date range, newest first
+ActionJournalSchema.index({ account: 1, createdAt: -1 });
+ActionJournalSchema.index({ createdAt: -1 });
+
+export const ActionJournal = mongoose.model<IActionJournalEntry>('ActionJournal', ActionJournalSchema);
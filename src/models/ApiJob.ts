@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ApiJobType = 'interact' | 'dm-file' | 'scrape-followers' | 'dm-campaign' | 'publish-post';
+export type ApiJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface ApiJobProgress {
+    done: number;
+    total: number | null;       // null while unknown
+    unit: string;               // actions, messages, followers
+}
+
+export interface IApiJob extends Document {
+    jobId: string;
+    type: ApiJobType;
+    account: string | null;     // Account id, null for the standalone client
+    status: ApiJobStatus;
+    params: Record<string, any>;
+    progress: ApiJobProgress;
+    result?: any;               // Kept for cancelled jobs too (e.g. followers scraped so far)
+    error?: string;
+    createdBy: string;          // Operator username
+    createdAt: Date;
+    startedAt?: Date;
+    finishedAt?: Date;
+}
+
+const ApiJobSchema: Schema = new Schema({
+    jobId: { type: String, required: true, unique: true },
+    type: { type: String, required: true, enum: ['interact', 'dm-file', 'scrape-followers', 'dm-campaign', 'publish-post'] },
+    account: { type: String, default: null, index: true },
+    status: { type: String, required: true, enum: ['queued', 'running', 'completed', 'failed', 'cancelled', 'interrupted'] },
+    params: { type: Schema.Types.Mixed, default: {} },
+    progress: {
+        done: { type: Number, default: 0 },
+        total: { type: Number, default: null },
+        unit: { type: String, required: true }
+    },
+    result: { type: Schema.Types.Mixed },
+    error: { type: String },
+    createdBy: { type: String, required: true },
+    createdAt: { type: Date, default: Date.now },
+    startedAt: { type: Date },
+    finishedAt: { type: Date }
+}, { minimize: false });
+
+ApiJobSchema.index({ createdAt: -1 });
+
+export const ApiJob = mongoose.model<IApiJob>('ApiJob', ApiJobSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One follower as seen in the followers list; null = not shown there (isPrivate: not in the API responses)
+export interface AudienceMember {
+    username: string;
+    fullName: string | null;
+    verified: boolean;
+    isPrivate: boolean | null;
+}
+
+export interface IAudience extends Document {
+    name: string;
+    sourceAccount: string;      // Instagram account whose followers were scraped
+    scrapedBy: string | null;   // Account id that scraped, null for the standalone client
+    maxFollowers: number;       // Requested maximum; a scrape that hit it saw only part of the list
+    complete: boolean;          // The scrape reached the end of the followers list
+    count: number;
+    followers: AudienceMember[];
+    jobId?: string;
+    createdBy: string;          // Operator username
+    createdAt: Date;            // Scrape date
+}
+
+const AudienceMemberSchema = new Schema({
+    username: { type: String, required: true },
+    fullName: { type: String, default: null },
+    verified: { type: Boolean, default: false },
+    isPrivate: { type: Boolean, default: null }
+}, { _id: false });
+
+const AudienceSchema: Schema = new Schema({
+    name: { type: String, required: true, trim: true },
+    sourceAccount: { type: String, required: true, lowercase: true, index: true },
+    scrapedBy: { type: String, default: null },
+    maxFollowers: { type: Number, required: true },
+    complete: { type: Boolean, default: false },
+    count: { type: Number, required: true },
+    followers: { type: [AudienceMemberSchema], default: [] },
+    jobId: { type: String },
+    createdBy: { type: String, required: true },
+    createdAt: { type: Date, default: Date.now }
+});
+
+AudienceSchema.index({ sourceAccount: 1, createdAt: -1 });
+
+export const Audience = mongoose.model<IAudience>('Audience', AudienceSchema);
@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface IAuditEntry extends Document {
+    operator: string | null;    // Operator username; the attempted username for logins, null when unknown
+    role: string | null;        // Role at the time of the call
+    action: string;             // operationId from the OpenAPI document, or "METHOD /path" for unknown routes
+    method: string;
+    path: string;               // Full request path, e.g. /api/accounts/main/dm
+    account: string | null;     // Account id for /accounts/:id routes
+    params: Record<string, any>;    // Path params, query and body with secrets redacted
+    status: number;             // HTTP status of the answer
+    outcome: AuditOutcome;      // success = 2xx/3xx
+    error?: string;             // Error message of a failed call
+    jobId?: string;             // Job created by the call
+    ip?: string;
+    durationMs: number;
+    createdAt: Date;
+}
+
+const AuditEntrySchema: Schema = new Schema({
+    operator: { type: String, default: null, index: true },
+    role: { type: String, default: null },
+    action: { type: String, required: true, index: true },
+    method: { type: String, required: true },
+    path: { type: String, required: true },
+    account: { type: String, default: null, index: true },
+    params: { type: Schema.Types.Mixed, default: {} },
+    status: { type: Number, required: true },
+    outcome: { type: String, required: true, enum: ['success', 'failure'] },
+    error: { type: String },
+    jobId: { type: String },
+    ip: { type: String },
+    durationMs: { type: Number, required: true },
+    createdAt: { type: Date, default: Date.now }
+}, { minimize: false });
+
+AuditEntrySchema.index({ createdAt: -1 });
+
+// Append-only: entries are never changed or removed through the app
+AuditEntrySchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'], function (next) {
+    next(new Error('The audit log is append-only'));
+});
+AuditEntrySchema.pre('save', function (next) {
+    next(this.isNew ? undefined : new Error('The audit log is append-only'));
+});
+
+export const AuditEntry = mongoose.model<IAuditEntry>('AuditEntry', AuditEntrySchema);
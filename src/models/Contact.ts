@@ -1,15 +1,24 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// Replies that opt a recipient out of campaign DMs ("STOP", "unsubscribe", ...), matched on the whole message
+const OPT_OUT_PATTERN = /^\s*(stop|unsubscribe|opt[\s-]?out|stop messaging me|no more messages)\s*[.!]*\s*$/i;
+
+export const isOptOutMessage = (text: string) => OPT_OUT_PATTERN.test(text);
+
 export interface IContact extends Document {
     username: string;
     facts: string[];
     lastInteraction: Date;
+    optedOutAt?: Date;          // Asked not to receive campaign DMs (replied STOP or added through the API)
+    optOutReason?: string;
 }
 
 const ContactSchema: Schema = new Schema({
     username: { type: String, required: true, unique: true, index: true },
     facts: { type: [String], default: [] },
-    lastInteraction: { type: Date, default: Date.now }
+    lastInteraction: { type: Date, default: Date.now },
+    optedOutAt: { type: Date },
+    optOutReason: { type: String }
 });
 
 export const Contact = mongoose.model<IContact>('Contact', ContactSchema);
@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type DmCampaignStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+export type DmRecipientStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface DmCampaignRecipient {
+    username: string;
+    fullName: string | null;
+    variables: Record<string, string>;  // Extra template variables (CSV columns)
+    status: DmRecipientStatus;
+    message?: string;                   // Text that was sent (after templating and personalization)
+    reason?: string;                    // Why it failed or was skipped
+    attemptedAt?: Date;                 // Set just before sending; a pending recipient with it was interrupted mid-send
+    sentAt?: Date;
+    dryRunAt?: Date;                    // Covered by a dry run; the recipient stays pending for a real run
+}
+
+export interface IDmCampaign extends Document {
+    name: string;
+    account: string;                    // Sending account id
+    status: DmCampaignStatus;
+    template: string;                   // {{username}}, {{fullName}}, {{firstName}} and CSV columns
+    personalize: boolean;               // Rewrite each message with Gemini from the recipient's Contact facts
+    mediaPath?: string;
+    audienceId?: string;                // Source audience, if any
+    recipients: DmCampaignRecipient[];
+    currentJobId?: string;              // Batch job running right now
+    nextRunAt?: Date;                   // Earliest time for the next batch (DM limits, account not running)
+    lastError?: string;
+    createdBy: string;
+    createdAt: Date;
+    finishedAt?: Date;
+}
+
+const DmCampaignRecipientSchema = new Schema({
+    username: { type: String, required: true },
+    fullName: { type: String, default: null },
+    variables: { type: Schema.Types.Mixed, default: {} },
+    status: { type: String, required: true, enum: ['pending', 'sent', 'failed', 'skipped'], default: 'pending' },
+    message: { type: String },
+    reason: { type: String },
+    attemptedAt: { type: Date },
+    sentAt: { type: Date },
+    dryRunAt: { type: Date }
+}, { _id: false, minimize: false });
+
+const DmCampaignSchema: Schema = new Schema({
+    name: { type: String, required: true, trim: true },
+    account: { type: String, required: true, index: true },
+    status: { type: String, required: true, enum: ['running', 'paused', 'completed', 'cancelled'], index: true },
+    template: { type: String, required: true },
+    personalize: { type: Boolean, default: false },
+    mediaPath: { type: String },
+    audienceId: { type: String },
+    recipients: { type: [DmCampaignRecipientSchema], default: [] },
+    currentJobId: { type: String },
+    nextRunAt: { type: Date },
+    lastError: { type: String },
+    createdBy: { type: String, required: true },
+    createdAt: { type: Date, default: Date.now },
+    finishedAt: { type: Date }
+}, { minimize: false });
+
+DmCampaignSchema.index({ createdAt: -1 });
+
+export const DmCampaign = mongoose.model<IDmCampaign>('DmCampaign', DmCampaignSchema);
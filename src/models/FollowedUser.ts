@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type FollowStatus = 'following' | 'unfollowed';
+
+export interface IFollowedUser extends Document {
+    account: string;            // Account id from accounts.json (falls back to the tracker id)
+    username: string;           // Instagram username of the bot account
+    targetUser: string;         // Who we followed
+    strategy: string;           // Strategy of the session that followed (hashtags, explore, ...)
+    postUrl?: string;           // Post whose author was followed
+    status: FollowStatus;
+    followedBack: boolean | null;   // null = not checked yet
+    checkedAt?: Date;           // Last follow-back check
+    followedAt: Date;
+    unfollowedAt?: Date;
+    unfollowReason?: string;
+}
+
+const FollowedUserSchema: Schema = new Schema({
+    account: { type: String, required: true, index: true },
+    username: { type: String, required: true },
+    targetUser: { type: String, required: true },
+    strategy: { type: String, required: true },
+    postUrl: { type: String },
+    status: { type: String, required: true, enum: ['following', 'unfollowed'], default: 'following' },
+    followedBack: { type: Boolean, default: null },
+    checkedAt: { type: Date },
+    followedAt: { type: Date, default: Date.now },
+    unfollowedAt: { type: Date },
+    unfollowReason: { type: String }
+});
+
+// One record per account and followed user; following again reuses it
+FollowedUserSchema.index({ account: 1, targetUser: 1 }, { unique: true });
+// Unfollow pass: oldest follows that haven't followed back
+FollowedUserSchema.index({ account: 1, status: 1, followedAt: 1 });
+
+export const FollowedUser = mongoose.model<IFollowedUser>('FollowedUser', FollowedUserSchema);
@@ -0,0 +1,26 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type OperatorRole = 'viewer' | 'operator' | 'admin';
+
+// Lowest to highest; each role can do everything the roles before it can
+export const OPERATOR_ROLES: OperatorRole[] = ['viewer', 'operator', 'admin'];
+
+export interface IOperatorUser extends Document {
+    username: string;           // Dashboard login, stored lowercase
+    passwordHash: string;       // See hashPassword() in src/secret
+    role: OperatorRole;
+    disabled: boolean;          // Disabled users can't log in and their tokens stop working
+    lastLoginAt?: Date;
+    createdAt: Date;
+}
+
+const OperatorUserSchema: Schema = new Schema({
+    username: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    passwordHash: { type: String, required: true },
+    role: { type: String, required: true, enum: OPERATOR_ROLES },
+    disabled: { type: Boolean, default: false },
+    lastLoginAt: { type: Date },
+    createdAt: { type: Date, default: Date.now }
+});
+
+export const OperatorUser = mongoose.model<IOperatorUser>('OperatorUser', OperatorUserSchema);
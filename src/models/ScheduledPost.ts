@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ScheduledPostStatus = 'pending_approval' | 'scheduled' | 'publishing' | 'published' | 'failed' | 'cancelled';
+
+export interface IScheduledPost extends Document {
+    account: string;                    // Publishing account id
+    status: ScheduledPostStatus;
+    mediaPaths: string[];               // Files on the server; more than one makes a carousel
+    notes?: string;                     // What the post is about, for the caption
+    postType?: string;                  // captions.postTypes key picked for the caption
+    caption: string;                    // Final text, hashtags included
+    captionSource: 'generated' | 'manual';
+    scheduledAt: Date;                  // Requested publish time
+    nextAttemptAt?: Date;               // Later retry (account not running, post limit reached)
+    requireApproval: boolean;
+    approvedBy?: string;
+    approvedAt?: Date;
+    currentJobId?: string;              // Publish job queued or running
+    attemptedAt?: Date;                 // Set just before publishing; a post still publishing with it was interrupted
+    postUrl?: string;
+    publishedAt?: Date;
+    dryRun?: boolean;                   // Published by an account in dry-run mode (nothing was posted)
+    lastError?: string;
+    createdBy: string;
+    createdAt: Date;
+}
+
+const ScheduledPostSchema: Schema = new Schema({
+    account: { type: String, required: true, index: true },
+    status: { type: String, required: true, enum: ['pending_approval', 'scheduled', 'publishing', 'published', 'failed', 'cancelled'], index: true },
+    mediaPaths: { type: [String], required: true },
+    notes: { type: String },
+    postType: { type: String },
+    caption: { type: String, required: true },
+    captionSource: { type: String, required: true, enum: ['generated', 'manual'] },
+    scheduledAt: { type: Date, required: true },
+    nextAttemptAt: { type: Date },
+    requireApproval: { type: Boolean, default: false },
+    approvedBy: { type: String },
+    approvedAt: { type: Date },
+    currentJobId: { type: String },
+    attemptedAt: { type: Date },
+    postUrl: { type: String },
+    publishedAt: { type: Date },
+    dryRun: { type: Boolean },
+    lastError: { type: String },
+    createdBy: { type: String, required: true },
+    createdAt: { type: Date, default: Date.now }
+});
+
+// Scheduler: due posts in publish order
+ScheduledPostSchema.index({ status: 1, scheduledAt: 1 });
+
+export const ScheduledPost = mongoose.model<IScheduledPost>('ScheduledPost', ScheduledPostSchema);
@@ -0,0 +1,20 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITrackerState extends Document {
+    collectionName: string;     // 'activity' or 'schedule'
+    accountId: string;          // Tracker id (profile dir name or username, ".dry-run" suffix for dry runs)
+    data: any;                  // The tracker's entry for this account, same shape as in the JSON files
+    updatedAt: Date;
+}
+
+const TrackerStateSchema: Schema = new Schema({
+    collectionName: { type: String, required: true },
+    accountId: { type: String, required: true },
+    data: { type: Schema.Types.Mixed, required: true },
+    updatedAt: { type: Date, default: Date.now }
+}, { minimize: false });
+
+// One document per tracker and account
+TrackerStateSchema.index({ collectionName: 1, accountId: 1 }, { unique: true });
+
+export const TrackerState = mongoose.model<ITrackerState>('TrackerState', TrackerStateSchema);
@@ -0,0 +1,394 @@
+import express, { Request, Response } from 'express';
+import logger from '../config/logger';
+import { accountManager, RunNowMode } from '../services/AccountManager';
+import { strategyRegistry } from '../services/StrategyRegistry';
+import { ActionJournal } from '../models/ActionJournal';
+import { FollowedUser } from '../models/FollowedUser';
+import { apiJobQueue, ApiJobSpec } from '../services/ApiJobQueue';
+import { audiences } from '../services/Audiences';
+import { accountConfigs } from '../services/AccountConfigs';
+import { getRequestUser, requireRole } from './auth';
+import { requests } from './schemas';
+import { validate } from './validation';
+
+const router = express.Router();
+
+// Reads are open to viewers; controls and session actions need the operator role,
+// editing or reloading accounts.json and resetting warming need admin
+const operatorOnly = requireRole('operator');
+const adminOnly = requireRole('admin');
+
+// Shared checks for the session actions below: the account needs a running loop and must not be paused
+const checkActionable = (req: Request, res: Response): boolean => {
+  const status = accountManager.getAccountStatus(req.params.id);
+  if (!status) {
+    res.status(404).json({ error: `Account ${req.params.id} is not running` });
+    return false;
+  }
+  if (status.paused) {
+    res.status(409).json({ error: 'Account is paused. Resume it first.' });
+    return false;
+  }
+  return true;
+};
+
+// List the accounts that currently have a running loop, with their control state
+router.get('/', (_req: Request, res: Response) => {
+  return res.json({
+    running: accountManager.getRunningAccountIds(),
+    accounts: accountManager.getAllAccountStatus()
+  });
+});
+
+// Re-read accounts.json and start/stop/update account loops without a restart
+router.post('/reload', adminOnly, (_req: Request, res: Response) => {
+  try {
+    const result = accountManager.reload();
+    return res.json({ message: 'Accounts reloaded', ...result });
+  } catch (error) {
+    logger.error('Account reload error:', error);
+    return res.status(500).json({ error: 'Failed to reload accounts' });
+  }
+});
+
+// Every account in accounts.json, running or not, without passwords
+router.get('/config', adminOnly, (_req: Request, res: Response) => {
+  try {
+    const result = accountConfigs.list();
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json({ accounts: result });
+  } catch (error) {
+    logger.error('Account config list error:', error);
+    return res.status(500).json({ error: 'Failed to read accounts.json' });
+  }
+});
+
+// Add an account: { id, username, password, proxy?, character?, userDataDir?, enabled?, settings? }.
+// It starts right away when enabled.
+router.post('/config', adminOnly, validate(requests.createAccountConfig), (req: Request, res: Response) => {
+  try {
+    const result = accountConfigs.create(req.body);
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.status(201).json({ message: 'Account created', ...result });
+  } catch (error) {
+    logger.error('Account create error:', error);
+    return res.status(500).json({ error: 'Failed to create account' });
+  }
+});
+
+router.get('/:id/config', adminOnly, validate(requests.account), (req: Request, res: Response) => {
+  try {
+    const result = accountConfigs.get(req.params.id);
+    if (!result) return res.status(404).json({ error: `Account ${req.params.id} is not in accounts.json` });
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json(result);
+  } catch (error) {
+    logger.error('Account config lookup error:', error);
+    return res.status(500).json({ error: 'Failed to read accounts.json' });
+  }
+});
+
+// Edit an account: { character?, userDataDir?, enabled?, settings? }; settings replaces the whole object.
+// A running account applies the change from its next cycle.
+router.patch('/:id/config', adminOnly, validate(requests.updateAccountConfig), (req: Request, res: Response) => {
+  try {
+    const result = accountConfigs.update(req.params.id, req.body);
+    if (!result) return res.status(404).json({ error: `Account ${req.params.id} is not in accounts.json` });
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json({ message: 'Account updated', ...result });
+  } catch (error) {
+    logger.error('Account update error:', error);
+    return res.status(500).json({ error: 'Failed to update account' });
+  }
+});
+
+// Remove a disabled account from accounts.json (its browser profile and history stay)
+router.delete('/:id/config', adminOnly, validate(requests.account), (req: Request, res: Response) => {
+  try {
+    const result = accountConfigs.remove(req.params.id);
+    if (!result) return res.status(404).json({ error: `Account ${req.params.id} is not in accounts.json` });
+    if (result !== true) return res.status(result.status).json({ error: result.error });
+    return res.json({ message: 'Account deleted' });
+  } catch (error) {
+    logger.error('Account delete error:', error);
+    return res.status(500).json({ error: 'Failed to delete account' });
+  }
+});
+
+// Enable starts the account's loop; disable stops it after its current cycle
+for (const enabled of [true, false]) {
+  router.post(`/:id/${enabled ? 'enable' : 'disable'}`, adminOnly, validate(requests.account), (req: Request, res: Response) => {
+    try {
+      const result = accountConfigs.setEnabled(req.params.id, enabled);
+      if (!result) return res.status(404).json({ error: `Account ${req.params.id} is not in accounts.json` });
+      if ('error' in result) return res.status(result.status).json({ error: result.error });
+      return res.json({ message: enabled ? 'Account enabled' : 'Account disabled', ...result });
+    } catch (error) {
+      logger.error('Account enable/disable error:', error);
+      return res.status(500).json({ error: 'Failed to change account' });
+    }
+  });
+}
+
+// Change the Instagram login or proxy: { username?, password?, proxy? }. Used from the next session.
+router.put('/:id/credentials', adminOnly, validate(requests.accountCredentials), (req: Request, res: Response) => {
+  try {
+    const result = accountConfigs.setCredentials(req.params.id, req.body);
+    if (!result) return res.status(404).json({ error: `Account ${req.params.id} is not in accounts.json` });
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json({ message: 'Credentials updated', ...result });
+  } catch (error) {
+    logger.error('Account credentials error:', error);
+    return res.status(500).json({ error: 'Failed to update credentials' });
+  }
+});
+
+router.get('/:id', validate(requests.account), (req: Request, res: Response) => {
+  const status = accountManager.getAccountStatus(req.params.id);
+  if (!status) return res.status(404).json({ error: `Account ${req.params.id} is not running` });
+  return res.json(status);
+});
+
+// Pause an account indefinitely, or until a time given as { until: ISO date } or { minutes }
+router.post('/:id/pause', operatorOnly, validate(requests.pauseAccount), (req: Request, res: Response) => {
+  const { until, minutes } = req.body;
+  let pauseUntil: number | null = null;
+  if (until !== undefined && minutes !== undefined) {
+    return res.status(400).json({ error: 'Provide either until or minutes, not both' });
+  }
+  if (until !== undefined) {
+    pauseUntil = new Date(until).getTime();
+    if (pauseUntil <= Date.now()) return res.status(400).json({ error: 'until must be in the future' });
+  } else if (minutes !== undefined) {
+    pauseUntil = Date.now() + minutes * 60 * 1000;
+  }
+
+  const status = accountManager.pauseAccount(req.params.id, pauseUntil);
+  if (!status) return res.status(404).json({ error: `Account ${req.params.id} is not running` });
+  return res.json({ message: 'Account paused', status });
+});
+
+router.post('/:id/resume', operatorOnly, validate(requests.account), (req: Request, res: Response) => {
+  const status = accountManager.resumeAccount(req.params.id);
+  if (!status) return res.status(404).json({ error: `Account ${req.params.id} is not running` });
+  return res.json({ message: 'Account resumed', status });
+});
+
+// Force an immediate cycle that skips the rest window: { mode: 'full' | 'dms' }
+router.post('/:id/run', operatorOnly, validate(requests.runAccount), (req: Request, res: Response) => {
+  const mode = req.body.mode as RunNowMode;
+  const current = accountManager.getAccountStatus(req.params.id);
+  if (!current) return res.status(404).json({ error: `Account ${req.params.id} is not running` });
+  if (current.paused) return res.status(409).json({ error: 'Account is paused. Resume it first.' });
+  if (mode === 'dms' && !current.autoDMsEnabled) {
+    return res.status(409).json({ error: 'Auto DMs are disabled for this account' });
+  }
+
+  const status = accountManager.runNow(req.params.id, mode);
+  return res.status(202).json({ message: `${mode === 'dms' ? 'DM-only' : 'Full'} cycle requested`, status });
+});
+
+// Cancel the running cycle (the session stops after its current action)
+router.post('/:id/cancel', operatorOnly, validate(requests.account), (req: Request, res: Response) => {
+  if (!accountManager.getAccountStatus(req.params.id)) {
+    return res.status(404).json({ error: `Account ${req.params.id} is not running` });
+  }
+  if (!accountManager.cancelCycle(req.params.id)) {
+    return res.status(409).json({ error: 'No cycle is running for this account' });
+  }
+  return res.json({ message: 'Cancellation requested', status: accountManager.getAccountStatus(req.params.id) });
+});
+
+// Effective hourly/daily/weekly limits per action after warming, with current usage
+router.get('/:id/limits', validate(requests.account), (req: Request, res: Response) => {
+  const report = accountManager.getEffectiveLimits(req.params.id);
+  if (!report) return res.status(404).json({ error: `Account ${req.params.id} is not running` });
+  return res.json(report);
+});
+
+// Restart the warming curve, e.g. after an action block: { day } resumes part-way (default 0)
+router.post('/:id/warming/restart', adminOnly, validate(requests.restartWarming), (req: Request, res: Response) => {
+  const report = accountManager.restartWarming(req.params.id, req.body.day);
+  if (!report) return res.status(404).json({ error: `Account ${req.params.id} is not running` });
+  return res.json({ message: 'Warming restarted', ...report });
+});
+
+// Actions a dry-run account would have performed, newest first
+router.get('/:id/dry-run', validate(requests.dryRunActions), async (req: Request, res: Response) => {
+  const status = accountManager.getAccountStatus(req.params.id);
+  if (!status) return res.status(404).json({ error: `Account ${req.params.id} is not running` });
+  const limit = Number(req.query.limit);
+  try {
+    const actions = await ActionJournal.find({ account: status.id, outcome: 'dry_run' })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean();
+    return res.json({ dryRun: status.dryRun, actions });
+  } catch (error) {
+    logger.error('Dry-run actions error:', error);
+    return res.status(500).json({ error: 'Failed to load dry-run actions' });
+  }
+});
+
+// Users the account followed, newest first, with follow-back stats.
+// Filters: status (following, unfollowed), followedBack (true, false), plus limit and skip
+router.get('/:id/follows', validate(requests.follows), async (req: Request, res: Response) => {
+  const status = accountManager.getAccountStatus(req.params.id);
+  if (!status) return res.status(404).json({ error: `Account ${req.params.id} is not running` });
+  const limit = Number(req.query.limit);
+  const skip = Number(req.query.skip);
+  const filter: Record<string, any> = { account: status.id };
+  if (req.query.status) filter.status = req.query.status;
+  if (req.query.followedBack !== undefined) filter.followedBack = Boolean(req.query.followedBack); // Converted by validate()
+  try {
+    const [total, following, unfollowed, followedBack, follows] = await Promise.all([
+      FollowedUser.countDocuments(filter),
+      FollowedUser.countDocuments({ account: status.id, status: 'following' }),
+      FollowedUser.countDocuments({ account: status.id, status: 'unfollowed' }),
+      FollowedUser.countDocuments({ account: status.id, followedBack: true }),
+      FollowedUser.find(filter).sort({ followedAt: -1 }).skip(skip).limit(limit).lean()
+    ]);
+    return res.json({ stats: { following, unfollowed, followedBack }, total, skip, limit, follows });
+  } catch (error) {
+    logger.error('Follows list error:', error);
+    return res.status(500).json({ error: 'Failed to load follows' });
+  }
+});
+
+// The routes below act through the account's own session. They are queued on the account loop
+// and run between cycles with the same limiter slots. Short actions answer once they have
+// finished; long ones (interact, dm-file, scrape-followers) answer 202 with a job to poll at /api/jobs/:jobId.
+
+const submitJob = async <T>(res: Response, spec: ApiJobSpec<T>) => {
+  try {
+    const job = await apiJobQueue.submit(spec);
+    if (!job) return res.status(404).json({ error: `Account ${spec.account} is not running` });
+    return res.status(202).json({ message: 'Job queued', job });
+  } catch (error) {
+    logger.error(`Submit ${spec.type} job error:`, error);
+    return res.status(500).json({ error: `Failed to queue ${spec.type} job` });
+  }
+};
+
+// Run one interaction session: the account's weighted strategies, or { strategy, options }
+// (options are merged over the ones configured for that strategy)
+router.post('/:id/interact', operatorOnly, validate(requests.accountInteract), async (req: Request, res: Response) => {
+  if (!checkActionable(req, res)) return;
+  const { strategy, options } = req.body;
+  const effective = accountManager.getEffectiveSettings(req.params.id)!;
+  let candidates = effective.strategies;
+  let fallbackOrder = effective.fallbackOrder;
+
+  if (strategy !== undefined) {
+    const registered = strategyRegistry.get(strategy);
+    if (!registered) {
+      return res.status(400).json({ error: `Unknown strategy (available: ${strategyRegistry.names().join(', ')})` });
+    }
+    const configured = effective.strategies.find(s => s.name === strategy);
+    const merged = {
+      ...(strategy === 'hashtags' ? { hashtags: effective.hashtags } : {}),
+      ...(configured?.options || {}),
+      ...(options || {})
+    };
+    const problem = registered.validateOptions?.(merged);
+    if (problem) return res.status(400).json({ error: `Invalid options for ${strategy}: ${problem}` });
+    candidates = [{
+      name: strategy,
+      weight: 1,
+      actionsPerSession: configured?.actionsPerSession || effective.likesPerSession,
+      options: merged
+    }];
+    fallbackOrder = [];
+  }
+
+  return submitJob(res, {
+    type: 'interact',
+    account: req.params.id,
+    kind: 'interaction',
+    params: { strategy: strategy ?? null, options: options ?? null },
+    unit: 'actions',
+    createdBy: getRequestUser(req).username,
+    run: ({ igClient, account, effective, logger: accountLogger }) => strategyRegistry.runWithFallback(
+      candidates,
+      fallbackOrder,
+      { igClient, accountId: account!.id, behavior: effective!.behavior, limits: effective!.limits, follows: effective!.follows, logger: accountLogger },
+      name => igClient.setJournalContext({ strategy: name })
+    )
+  });
+});
+
+// Send a DM from the account: { username, message, mediaPath? }. 429 when the DM limits are reached
+router.post('/:id/dm', operatorOnly, validate(requests.accountDm), async (req: Request, res: Response) => {
+  const { username, message, mediaPath } = req.body;
+  if (!checkActionable(req, res)) return;
+  try {
+    const sent = await accountManager.runAccountAction(req.params.id, 'dm', 'session', ({ igClient, effective }) =>
+      igClient.sendDirectMessageWithMedia(username, message, mediaPath, { dmsPerHour: effective.limits.dmsPerHour }));
+    if (sent === false) return res.status(429).json({ error: 'DM limit reached for this account', limits: accountManager.getEffectiveLimits(req.params.id) });
+    return res.json({ message: 'Message sent successfully' });
+  } catch (error) {
+    logger.error('Account DM error:', error);
+    return res.status(500).json({ error: `Failed to send message: ${(error as Error).message}` });
+  }
+});
+
+// Send the same DM to every username in { file } (one per line), stopping at the DM limits
+router.post('/:id/dm-file', operatorOnly, validate(requests.accountDmFile), async (req: Request, res: Response) => {
+  const { file, message, mediaPath } = req.body;
+  if (!checkActionable(req, res)) return;
+  return submitJob(res, {
+    type: 'dm-file',
+    account: req.params.id,
+    kind: 'session',
+    params: { recipients: String(file).split('\n').filter(line => line.trim()).length, message, mediaPath: mediaPath ?? null },
+    unit: 'messages',
+    createdBy: getRequestUser(req).username,
+    run: ({ igClient, effective, progress }) =>
+      igClient.sendDirectMessagesFromFile(file, message, mediaPath, { dmsPerHour: effective!.limits.dmsPerHour }, progress)
+  });
+});
+
+// Check the inbox and reply with the account's character, within its DM limits
+router.post('/:id/check-dms', operatorOnly, validate(requests.account), async (req: Request, res: Response) => {
+  if (!checkActionable(req, res)) return;
+  try {
+    await accountManager.runAccountAction(req.params.id, 'check-dms', 'session', ({ igClient, effective }) =>
+      igClient.checkAndRespondToDMs({ dmsPerHour: effective.limits.dmsPerHour, dmRequestsPerHour: effective.limits.dmRequestsPerHour }));
+    return res.json({ message: 'DM check finished' });
+  } catch (error) {
+    logger.error('Account DM check error:', error);
+    return res.status(500).json({ error: `Failed to check DMs: ${(error as Error).message}` });
+  }
+});
+
+// Scrape followers of { targetAccount, maxFollowers, audienceName? } with this account's session.
+// The followers are saved as an audience (see /api/audiences); the job's result is its summary
+router.post('/:id/scrape-followers', operatorOnly, validate(requests.accountScrapeFollowers), async (req: Request, res: Response) => {
+  const { targetAccount, maxFollowers, audienceName } = req.body;
+  if (!checkActionable(req, res)) return;
+  const createdBy = getRequestUser(req).username;
+  return submitJob(res, {
+    type: 'scrape-followers',
+    account: req.params.id,
+    kind: 'session',
+    params: { targetAccount, maxFollowers, audienceName: audienceName ?? null },
+    unit: 'followers',
+    createdBy,
+    run: ({ igClient, jobId, progress }) => audiences.scrape(igClient,
+      { name: audienceName, sourceAccount: targetAccount, scrapedBy: req.params.id, maxFollowers, jobId, createdBy }, progress)
+  });
+});
+
+// Drop queued actions and end the account's browser session (the loop keeps running)
+router.post('/:id/exit', operatorOnly, validate(requests.account), async (req: Request, res: Response) => {
+  try {
+    const status = await accountManager.exitSession(req.params.id);
+    if (!status) return res.status(404).json({ error: `Account ${req.params.id} is not running` });
+    return res.json({ message: 'Session ended', status });
+  } catch (error) {
+    logger.error('Account exit error:', error);
+    return res.status(500).json({ error: 'Failed to end the session' });
+  }
+});
+
+export default router;
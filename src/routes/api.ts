@@ -1,24 +1,35 @@
 import express, { Request, Response } from 'express';
-import { getIgClient, closeIgClient, scrapeFollowersHandler } from '../client/Instagram';
+import { getIgClient, closeIgClient } from '../client/Instagram';
 import logger from '../config/logger';
 import mongoose from 'mongoose';
-import { signToken, verifyToken, getTokenFromRequest } from '../secret';
+import { signToken } from '../secret';
 import fs from 'fs/promises';
 import path from 'path';
+import { operatorUsers } from '../services/OperatorUsers';
+import { apiJobQueue, ApiJobSpec } from '../services/ApiJobQueue';
+import { audiences } from '../services/Audiences';
+import { getRequestUser, requireAuth, requireRole } from './auth';
+import accountRoutes from './accounts';
+import audienceRoutes from './audiences';
+import auditRoutes, { auditTrail } from './audit';
+import campaignRoutes from './campaigns';
+import postRoutes from './posts';
+import characterRoutes from './characters';
+import journalRoutes from './journal';
+import eventRoutes from './events';
+import healthRoutes from './health';
+import jobRoutes from './jobs';
+import logRoutes from './logs';
+import secretRoutes from './secrets';
+import userRoutes from './users';
+import { buildOpenApiDocument } from './openapi';
+import { requests } from './schemas';
+import { validate } from './validation';
 
 const router = express.Router();
 
-// JWT Auth middleware
-function requireAuth(req: Request, res: Response, next: Function) {
-  const token = getTokenFromRequest(req);
-  if (!token) return res.status(401).json({ error: 'Not authenticated' });
-  const payload = verifyToken(token);
-  if (!payload || typeof payload !== 'object' || !('username' in payload)) {
-    return res.status(401).json({ error: 'Invalid token' });
-  }
-  (req as any).user = { username: payload.username };
-  next();
-}
+// Every state-changing call below, including logins, ends up in the audit log
+router.use(auditTrail);
 
 // Status endpoint
 router.get('/status', (_req: Request, res: Response) => {
@@ -28,42 +39,111 @@ router.get('/status', (_req: Request, res: Response) => {
     return res.json(status);
 });
 
-// Login endpoint
-router.post('/login', async (req: Request, res: Response) => {
+// Health and readiness (/health/ready is public for container healthchecks, /health needs a login)
+router.use('/health', healthRoutes);
+
+// OpenAPI document of every endpoint (public, like the login it describes)
+router.get('/openapi.json', (_req: Request, res: Response) => {
+  return res.json(buildOpenApiDocument());
+});
+
+// Login endpoint (operator users, see /users)
+router.post('/login', validate(requests.login), async (req: Request, res: Response) => {
   try {
     const { username, password } = req.body;
-    if (!username || !password) {
-      return res.status(400).json({ error: 'Username and password are required' });
+    const user = await operatorUsers.authenticate(username, password);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid username or password' });
     }
-    const igClient = await getIgClient(username, password);
     // Sign JWT and set as httpOnly cookie
-    const token = signToken({ username });
+    const token = signToken({ sub: String(user._id), username: user.username, role: user.role });
     res.cookie('token', token, {
       httpOnly: true,
       sameSite: 'lax',
       maxAge: 2 * 60 * 60 * 1000, // 2 hours
       secure: process.env.NODE_ENV === 'production',
     });
-    return res.json({ message: 'Login successful' });
+    return res.json({ message: 'Login successful', username: user.username, role: user.role });
   } catch (error) {
     logger.error('Login error:', error);
     return res.status(500).json({ error: 'Failed to login' });
   }
 });
 
+// Logout endpoint
+router.post('/logout', (req: Request, res: Response) => {
+  res.clearCookie('token', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+  });
+  return res.json({ message: 'Logged out successfully' });
+});
+
+// All routes below require authentication (viewer role at least)
+router.use(requireAuth);
+
 // Auth check endpoint
 router.get('/me', (req: Request, res: Response) => {
-  const token = getTokenFromRequest(req);
-  if (!token) return res.status(401).json({ error: 'Not authenticated' });
-  const payload = verifyToken(token);
-  if (!payload || typeof payload !== 'object' || !('username' in payload)) {
-    return res.status(401).json({ error: 'Invalid token' });
+  const { username, role } = getRequestUser(req);
+  return res.json({ username, role });
+});
+
+// Change your own password: { currentPassword, newPassword }
+router.post('/me/password', validate(requests.changePassword), async (req: Request, res: Response) => {
+  const { currentPassword, newPassword } = req.body;
+  try {
+    const { username } = getRequestUser(req);
+    if (!await operatorUsers.authenticate(username, currentPassword)) {
+      return res.status(401).json({ error: 'Current password is incorrect' });
+    }
+    const result = await operatorUsers.update(username, { password: newPassword });
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json({ message: 'Password changed' });
+  } catch (error) {
+    logger.error('Password change error:', error);
+    return res.status(500).json({ error: 'Failed to change password' });
   }
-  return res.json({ username: payload.username });
 });
 
+// Multi-account loop management (per-route roles, see accounts.ts)
+router.use('/accounts', accountRoutes);
+
+// Action journal (likes, comments, DMs, accepted requests and skips)
+router.use('/journal', journalRoutes);
+
+// System and per-account log files
+router.use('/logs', logRoutes);
+
+// Live activity feed (Server-Sent Events) and recent events
+router.use('/events', eventRoutes);
+
+// Long-running operations: progress, results and cancellation
+router.use('/jobs', jobRoutes);
+
+// Character files and prompt previews
+router.use('/characters', characterRoutes);
+
+// Saved follower scrapes: export and diffs
+router.use('/audiences', audienceRoutes);
+
+// Outbound DM campaigns and opt-outs
+router.use('/campaigns', campaignRoutes);
+
+// Publishing queue with generated captions and approvals
+router.use('/posts', postRoutes);
+
+// Audit log of state-changing calls
+router.use('/audit', requireRole('admin'), auditRoutes);
+
+// Operator user management
+router.use('/users', requireRole('admin'), userRoutes);
+
+// Gemini API keys and the JWT secret
+router.use('/secrets', requireRole('admin'), secretRoutes);
+
 // Endpoint to clear Instagram cookies
-router.delete('/clear-cookies', async (req, res) => {
+router.delete('/clear-cookies', requireRole('admin'), async (req, res) => {
   const cookiesPath = path.join(__dirname, '../../cookies/Instagramcookies.json');
   try {
     await fs.unlink(cookiesPath);
@@ -77,29 +157,52 @@ router.delete('/clear-cookies', async (req, res) => {
   }
 });
 
-// All routes below require authentication
-router.use(requireAuth);
+// The routes below drive a single standalone client logged in through /ig-login, unrelated to the
+// configured accounts. Use /accounts/:id/interact, /dm, /dm-file, /check-dms, /scrape-followers
+// and /exit to act through an account's own session.
+router.use(['/ig-login', '/interact', '/dm', '/dm-file', '/scrape-followers', '/exit'], requireRole('operator'));
 
-// Interact with posts endpoint
-router.post('/interact', async (req: Request, res: Response) => {
+// Log the standalone client into Instagram: { username, password }
+router.post('/ig-login', validate(requests.igLogin), async (req: Request, res: Response) => {
   try {
-    const igClient = await getIgClient((req as any).user.username);
-    await igClient.interactWithPosts();
-    return res.json({ message: 'Interaction successful' });
+    const { username, password } = req.body;
+    await getIgClient(username, password);
+    return res.json({ message: 'Instagram login successful' });
   } catch (error) {
-    logger.error('Interaction error:', error);
-    return res.status(500).json({ error: 'Failed to interact with posts' });
+    logger.error('Instagram login error:', error);
+    return res.status(500).json({ error: 'Failed to login to Instagram' });
   }
 });
 
+// Long-running standalone operations run as jobs (one at a time, through the shared limiter pools)
+const submitStandaloneJob = async <T>(res: Response, spec: ApiJobSpec<T>) => {
+  try {
+    const job = await apiJobQueue.submit(spec);
+    return res.status(202).json({ message: 'Job queued', job });
+  } catch (error) {
+    logger.error(`Submit ${spec.type} job error:`, error);
+    return res.status(500).json({ error: `Failed to queue ${spec.type} job` });
+  }
+};
+
+// Interact with posts endpoint
+router.post('/interact', async (req: Request, res: Response) => {
+  return submitStandaloneJob(res, {
+    type: 'interact',
+    account: null,
+    kind: 'interaction',
+    params: {},
+    unit: 'actions',
+    createdBy: getRequestUser(req).username,
+    run: ({ igClient }) => igClient.interactWithPosts()
+  });
+});
+
 // Send direct message endpoint
-router.post('/dm', async (req: Request, res: Response) => {
+router.post('/dm', validate(requests.standaloneDm), async (req: Request, res: Response) => {
   try {
     const { username, message } = req.body;
-    if (!username || !message) {
-      return res.status(400).json({ error: 'Username and message are required' });
-    }
-    const igClient = await getIgClient((req as any).user.username);
+    const igClient = await getIgClient();
     await igClient.sendDirectMessage(username, message);
     return res.json({ message: 'Message sent successfully' });
   } catch (error) {
@@ -109,62 +212,33 @@ router.post('/dm', async (req: Request, res: Response) => {
 });
 
 // Send messages from file endpoint
-router.post('/dm-file', async (req: Request, res: Response) => {
-  try {
-    const { file, message, mediaPath } = req.body;
-    if (!file || !message) {
-      return res.status(400).json({ error: 'File and message are required' });
-    }
-    const igClient = await getIgClient((req as any).user.username);
-    await igClient.sendDirectMessagesFromFile(file, message, mediaPath);
-    return res.json({ message: 'Messages sent successfully' });
-  } catch (error) {
-    logger.error('File DM error:', error);
-    return res.status(500).json({ error: 'Failed to send messages from file' });
-  }
-});
-
-// Scrape followers endpoint
-router.post('/scrape-followers', async (req: Request, res: Response) => {
-  const { targetAccount, maxFollowers } = req.body;
-  try {
-    const result = await scrapeFollowersHandler(targetAccount, maxFollowers);
-    if (Array.isArray(result)) {
-      if (req.query.download === '1') {
-        const filename = `${targetAccount}_followers.txt`;
-        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-        res.setHeader('Content-Type', 'text/plain');
-        res.send(result.join('\n'));
-      } else {
-        res.json({ success: true, followers: result });
-      }
-    } else {
-      res.json({ success: true, result });
-    }
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
-  }
+router.post('/dm-file', validate(requests.standaloneDmFile), async (req: Request, res: Response) => {
+  const { file, message, mediaPath } = req.body;
+  return submitStandaloneJob(res, {
+    type: 'dm-file',
+    account: null,
+    kind: 'session',
+    params: { recipients: String(file).split('\n').filter(line => line.trim()).length, message, mediaPath: mediaPath ?? null },
+    unit: 'messages',
+    createdBy: getRequestUser(req).username,
+    run: ({ igClient, progress }) => igClient.sendDirectMessagesFromFile(file, message, mediaPath, undefined, progress)
+  });
 });
 
-// GET handler for scrape-followers to support file download
-router.get('/scrape-followers', async (req: Request, res: Response) => {
-  const { targetAccount, maxFollowers } = req.query;
-  try {
-    const result = await scrapeFollowersHandler(
-      String(targetAccount),
-      Number(maxFollowers)
-    );
-    if (Array.isArray(result)) {
-      const filename = `${targetAccount}_followers.txt`;
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.setHeader('Content-Type', 'text/plain');
-      res.send(result.join('\n'));
-    } else {
-      res.status(400).send('No followers found.');
-    }
-  } catch (error) {
-    res.status(500).send('Error scraping followers.');
-  }
+// Scrape followers endpoint; the followers are saved as an audience (see /audiences)
+router.post('/scrape-followers', validate(requests.standaloneScrapeFollowers), async (req: Request, res: Response) => {
+  const { targetAccount, maxFollowers, audienceName } = req.body;
+  const createdBy = getRequestUser(req).username;
+  return submitStandaloneJob(res, {
+    type: 'scrape-followers',
+    account: null,
+    kind: 'session',
+    params: { targetAccount, maxFollowers, audienceName: audienceName ?? null },
+    unit: 'followers',
+    createdBy,
+    run: ({ igClient, jobId, progress }) => audiences.scrape(igClient,
+      { name: audienceName, sourceAccount: targetAccount, scrapedBy: null, maxFollowers, jobId, createdBy }, progress)
+  });
 });
 
 // Exit endpoint
@@ -178,14 +252,4 @@ router.post('/exit', async (_req: Request, res: Response) => {
   }
 });
 
-// Logout endpoint
-router.post('/logout', (req: Request, res: Response) => {
-  res.clearCookie('token', {
-    httpOnly: true,
-    sameSite: 'lax',
-    secure: process.env.NODE_ENV === 'production',
-  });
-  return res.json({ message: 'Logged out successfully' });
-});
-
 export default router; 
\ No newline at end of file
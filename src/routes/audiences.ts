@@ -0,0 +1,101 @@
+import express, { Request, Response } from 'express';
+import logger from '../config/logger';
+import { AudienceExportFormat, audiences } from '../services/Audiences';
+import { requireRole } from './auth';
+import { requests } from './schemas';
+import { validate } from './validation';
+
+const router = express.Router();
+
+const CONTENT_TYPES: Record<AudienceExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  txt: 'text/plain; charset=utf-8'
+};
+
+// Saved audiences newest first (without followers). Filters: sourceAccount, plus limit (max 200) and skip
+router.get('/', validate(requests.audiences), async (req: Request, res: Response) => {
+  const { sourceAccount } = req.query;
+  const limit = Number(req.query.limit);
+  const skip = Number(req.query.skip);
+  try {
+    const result = await audiences.list({
+      sourceAccount: typeof sourceAccount === 'string' && sourceAccount !== '' ? sourceAccount : undefined,
+      limit,
+      skip
+    });
+    return res.json({ ...result, skip, limit });
+  } catch (error) {
+    logger.error('Audience list error:', error);
+    return res.status(500).json({ error: 'Failed to list audiences' });
+  }
+});
+
+// One audience with its followers
+router.get('/:audienceId', validate(requests.audience), async (req: Request, res: Response) => {
+  try {
+    const audience = await audiences.get(req.params.audienceId);
+    if (!audience) return res.status(404).json({ error: `Audience ${req.params.audienceId} not found` });
+    return res.json(audience);
+  } catch (error) {
+    logger.error('Audience lookup error:', error);
+    return res.status(500).json({ error: 'Failed to load audience' });
+  }
+});
+
+// Download an audience: ?format=csv (default), json or txt (usernames only)
+router.get('/:audienceId/export', validate(requests.exportAudience), async (req: Request, res: Response) => {
+  const format = req.query.format as AudienceExportFormat;
+  try {
+    const audience = await audiences.get(req.params.audienceId);
+    if (!audience) return res.status(404).json({ error: `Audience ${req.params.audienceId} not found` });
+    const filename = `${audience.sourceAccount}_followers_${audience.createdAt.slice(0, 10)}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    return res.send(audiences.serialize(audience, format));
+  } catch (error) {
+    logger.error('Audience export error:', error);
+    return res.status(500).json({ error: 'Failed to export audience' });
+  }
+});
+
+// New and lost followers since an earlier scrape of the same account: ?against=<audienceId>,
+// default the previous scrape
+router.get('/:audienceId/diff', validate(requests.diffAudience), async (req: Request, res: Response) => {
+  const against = req.query.against;
+  try {
+    const diff = await audiences.diff(req.params.audienceId, typeof against === 'string' && against !== '' ? against : undefined);
+    if (!diff) return res.status(404).json({ error: `Audience ${req.params.audienceId} not found` });
+    if ('error' in diff) return res.status(diff.status).json({ error: diff.error });
+    return res.json(diff);
+  } catch (error) {
+    logger.error('Audience diff error:', error);
+    return res.status(500).json({ error: 'Failed to compare audiences' });
+  }
+});
+
+// Rename an audience: { name }
+router.patch('/:audienceId', requireRole('operator'), validate(requests.renameAudience), async (req: Request, res: Response) => {
+  try {
+    const audience = await audiences.rename(req.params.audienceId, req.body.name);
+    if (!audience) return res.status(404).json({ error: `Audience ${req.params.audienceId} not found` });
+    return res.json({ message: 'Audience renamed', audience });
+  } catch (error) {
+    logger.error('Audience rename error:', error);
+    return res.status(500).json({ error: 'Failed to rename audience' });
+  }
+});
+
+router.delete('/:audienceId', requireRole('operator'), validate(requests.audience), async (req: Request, res: Response) => {
+  try {
+    if (!await audiences.remove(req.params.audienceId)) {
+      return res.status(404).json({ error: `Audience ${req.params.audienceId} not found` });
+    }
+    return res.json({ message: 'Audience deleted' });
+  } catch (error) {
+    logger.error('Audience delete error:', error);
+    return res.status(500).json({ error: 'Failed to delete audience' });
+  }
+});
+
+export default router;
@@ -0,0 +1,119 @@
+import express, { NextFunction, Request, Response } from 'express';
+import logger from '../config/logger';
+import { getTokenFromRequest, verifyToken } from '../secret';
+import { AuditOutcome } from '../models/AuditEntry';
+import { auditLog } from '../services/AuditLog';
+import { getRequestUser } from './auth';
+import { apiOperations } from './openapi';
+import { requests } from './schemas';
+import { validate } from './validation';
+
+const router = express.Router();
+
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// OpenAPI paths as patterns, literal segments first so /accounts/reload wins over /accounts/{id}
+const operationPatterns = apiOperations
+  .filter(operation => !operation.outsideApi && operation.method !== 'get')
+  .map(operation => ({
+    operationId: operation.operationId,
+    method: operation.method.toUpperCase(),
+    params: operation.path.split('{').length - 1,
+    pattern: new RegExp(`^${operation.path.replace(/\{(\w+)\}/g, '(?<$1>[^/]+)')}/?$`)
+  }))
+  .sort((a, b) => a.params - b.params);
+
+const matchOperation = (method: string, path: string) => {
+  for (const operation of operationPatterns) {
+    if (operation.method !== method) continue;
+    const match = operation.pattern.exec(path);
+    if (match) {
+      const params = Object.fromEntries(Object.entries(match.groups || {}).map(([name, value]) => [name, decodeURIComponent(value)]));
+      return { action: operation.operationId, params };
+    }
+  }
+  return { action: `${method} ${path}`, params: {} as Record<string, string> };
+};
+
+// Who made the call: the logged-in user, the token holder (logout) or the attempted login
+const describeCaller = (req: Request) => {
+  const user = getRequestUser(req);
+  if (user) return { operator: user.username, role: user.role };
+  const token = getTokenFromRequest(req);
+  const payload = token ? verifyToken(token) : null;
+  if (payload && typeof payload === 'object' && typeof payload.username === 'string') {
+    return { operator: payload.username, role: typeof payload.role === 'string' ? payload.role : null };
+  }
+  return { operator: null, role: null };
+};
+
+/**
+ * Records every state-changing call under /api in the audit log once its answer is sent.
+ * Mount it before the routes (and before requireAuth, so failed logins are recorded too).
+ */
+export const auditTrail = (req: Request, res: Response, next: NextFunction) => {
+  if (READ_ONLY_METHODS.includes(req.method)) return next();
+
+  const startedAt = Date.now();
+  const path = req.path;
+  const fullPath = `${req.baseUrl}${req.path}`;
+  const caller = describeCaller(req);
+  let responseBody: any;
+  const json = res.json.bind(res);
+  res.json = (body?: any) => {
+    responseBody = body;
+    return json(body);
+  };
+
+  res.on('finish', () => {
+    const { action, params } = matchOperation(req.method, path);
+    const current = describeCaller(req);
+    const operator = current.operator ?? caller.operator ?? (action === 'login' && typeof req.body?.username === 'string' ? req.body.username.toLowerCase().trim() : null);
+    const failed = res.statusCode >= 400;
+    const error = failed && responseBody && typeof responseBody === 'object'
+      ? String(responseBody.error ?? responseBody.message ?? '') || undefined
+      : undefined;
+    auditLog.record({
+      operator,
+      role: current.role ?? caller.role,
+      action,
+      method: req.method,
+      path: fullPath,
+      account: path.startsWith('/accounts/') && params.id ? params.id : null,
+      params: { ...params, ...(req.query || {}), ...(req.body && typeof req.body === 'object' ? req.body : {}) },
+      status: res.statusCode,
+      error,
+      jobId: responseBody?.job?.id,
+      ip: req.ip,
+      durationMs: Date.now() - startedAt
+    });
+  });
+  next();
+};
+
+// Query the audit log, newest first. Filters: operator, account, action (operationId), method,
+// outcome, from/to (ISO dates, inclusive), plus limit (max 1000) and skip for paging.
+router.get('/', validate(requests.audit), async (req: Request, res: Response) => {
+  const { operator, account, action, method, outcome, from, to } = req.query;
+  const limit = Number(req.query.limit);
+  const skip = Number(req.query.skip);
+  try {
+    const result = await auditLog.query({
+      operator: typeof operator === 'string' && operator !== '' ? operator : undefined,
+      account: typeof account === 'string' && account !== '' ? account : undefined,
+      action: typeof action === 'string' && action !== '' ? action : undefined,
+      method: method as string | undefined,
+      outcome: outcome as AuditOutcome | undefined,
+      from: from !== undefined ? new Date(String(from)) : undefined,
+      to: to !== undefined ? new Date(String(to)) : undefined,
+      limit,
+      skip
+    });
+    return res.json({ ...result, skip, limit });
+  } catch (error) {
+    logger.error('Audit log query error:', error);
+    return res.status(500).json({ error: 'Failed to query the audit log' });
+  }
+});
+
+export default router;
@@ -0,0 +1,50 @@
+import { NextFunction, Request, Response } from 'express';
+import logger from '../config/logger';
+import { verifyToken, getTokenFromRequest } from '../secret';
+import { OperatorRole } from '../models/OperatorUser';
+import { hasRole, operatorUsers } from '../services/OperatorUsers';
+
+export interface AuthenticatedUser {
+  id: string;
+  username: string;
+  role: OperatorRole;
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    user?: AuthenticatedUser;   // Set by requireAuth
+  }
+}
+
+// The logged-in user, for routes mounted after requireAuth
+export const getRequestUser = (req: Request): AuthenticatedUser => req.user!;
+
+// JWT auth middleware. The user is looked up on every request, so disabling a user or
+// changing their role takes effect immediately instead of when the token expires.
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = getTokenFromRequest(req);
+  if (!token) return res.status(401).json({ error: 'Not authenticated' });
+  const payload = verifyToken(token);
+  if (!payload || typeof payload !== 'object' || typeof payload.sub !== 'string') {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+  try {
+    const user = await operatorUsers.findActive(payload.sub);
+    if (!user) return res.status(401).json({ error: 'User no longer exists or is disabled' });
+    req.user = { id: String(user._id), username: user.username, role: user.role };
+    next();
+  } catch (error) {
+    logger.error('Auth lookup error:', error);
+    return res.status(500).json({ error: 'Failed to verify user' });
+  }
+}
+
+// Use after requireAuth: viewer < operator < admin
+export const requireRole = (role: OperatorRole) => (req: Request, res: Response, next: NextFunction) => {
+  const user = req.user;
+  if (!user) return res.status(401).json({ error: 'Not authenticated' });
+  if (!hasRole(user.role, role)) {
+    return res.status(403).json({ error: `Requires the ${role} role` });
+  }
+  next();
+};
@@ -0,0 +1,111 @@
+import express, { Request, Response } from 'express';
+import logger from '../config/logger';
+import { DmCampaignStatus, DmRecipientStatus } from '../models/DmCampaign';
+import { dmCampaigns } from '../services/DmCampaigns';
+import { getRequestUser, requireRole } from './auth';
+import { requests } from './schemas';
+import { validate } from './validation';
+
+const router = express.Router();
+
+const operatorOnly = requireRole('operator');
+
+// Campaigns newest first (without recipients). Filters: account, status, plus limit (max 200) and skip
+router.get('/', validate(requests.campaigns), async (req: Request, res: Response) => {
+  const { account, status } = req.query;
+  const limit = Number(req.query.limit);
+  const skip = Number(req.query.skip);
+  try {
+    const result = await dmCampaigns.list({
+      account: typeof account === 'string' && account !== '' ? account : undefined,
+      status: status as DmCampaignStatus | undefined,
+      limit,
+      skip
+    });
+    return res.json({ ...result, skip, limit });
+  } catch (error) {
+    logger.error('Campaign list error:', error);
+    return res.status(500).json({ error: 'Failed to list campaigns' });
+  }
+});
+
+// Start a campaign: { name, account, template, audienceId | file, personalize?, mediaPath? }.
+// Batches run on the account's loop within its DM limits until every recipient is done.
+router.post('/', operatorOnly, validate(requests.createCampaign), async (req: Request, res: Response) => {
+  try {
+    const result = await dmCampaigns.create({ ...req.body, createdBy: getRequestUser(req).username });
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.status(201).json({ message: 'Campaign started', campaign: result });
+  } catch (error) {
+    logger.error('Campaign create error:', error);
+    return res.status(500).json({ error: 'Failed to create campaign' });
+  }
+});
+
+// Opt-outs: users who asked not to be messaged (also recorded from "stop"-style DM replies)
+router.get('/opt-outs', async (_req: Request, res: Response) => {
+  try {
+    return res.json({ optOuts: await dmCampaigns.listOptOuts() });
+  } catch (error) {
+    logger.error('Opt-out list error:', error);
+    return res.status(500).json({ error: 'Failed to list opt-outs' });
+  }
+});
+
+router.post('/opt-outs', operatorOnly, validate(requests.optOut), async (req: Request, res: Response) => {
+  const { username, reason } = req.body;
+  try {
+    const optOut = await dmCampaigns.optOut(username, reason || `Added by ${getRequestUser(req).username}`);
+    return res.json({ message: 'User opted out', optOut });
+  } catch (error) {
+    logger.error('Opt-out error:', error);
+    return res.status(500).json({ error: 'Failed to opt user out' });
+  }
+});
+
+router.delete('/opt-outs/:username', operatorOnly, validate(requests.removeOptOut), async (req: Request, res: Response) => {
+  try {
+    if (!await dmCampaigns.removeOptOut(req.params.username)) {
+      return res.status(404).json({ error: `${req.params.username} has not opted out` });
+    }
+    return res.json({ message: 'Opt-out removed' });
+  } catch (error) {
+    logger.error('Opt-out removal error:', error);
+    return res.status(500).json({ error: 'Failed to remove opt-out' });
+  }
+});
+
+// Campaign report: counts and every recipient, or only ?recipientStatus=pending|sent|failed|skipped
+router.get('/:campaignId', validate(requests.campaign), async (req: Request, res: Response) => {
+  try {
+    const campaign = await dmCampaigns.get(req.params.campaignId, req.query.recipientStatus as DmRecipientStatus | undefined);
+    if (!campaign) return res.status(404).json({ error: `Campaign ${req.params.campaignId} not found` });
+    return res.json(campaign);
+  } catch (error) {
+    logger.error('Campaign lookup error:', error);
+    return res.status(500).json({ error: 'Failed to load campaign' });
+  }
+});
+
+const ACTIONS = {
+  pause: { run: (id: string) => dmCampaigns.pause(id), message: 'Campaign paused' },
+  resume: { run: (id: string) => dmCampaigns.resume(id), message: 'Campaign resumed' },
+  cancel: { run: (id: string) => dmCampaigns.cancel(id), message: 'Campaign cancelled' }
+};
+
+// Pause (after the DM in progress), resume, or cancel a campaign
+for (const [name, action] of Object.entries(ACTIONS)) {
+  router.post(`/:campaignId/${name}`, operatorOnly, validate(requests.campaignAction), async (req: Request, res: Response) => {
+    try {
+      const result = await action.run(req.params.campaignId);
+      if (!result) return res.status(404).json({ error: `Campaign ${req.params.campaignId} not found` });
+      if ('error' in result) return res.status(result.status).json({ error: result.error });
+      return res.json({ message: action.message, campaign: result });
+    } catch (error) {
+      logger.error(`Campaign ${name} error:`, error);
+      return res.status(500).json({ error: `Failed to ${name} campaign` });
+    }
+  });
+}
+
+export default router;
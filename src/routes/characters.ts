@@ -0,0 +1,88 @@
+import express, { Request, Response } from 'express';
+import logger from '../config/logger';
+import { characters } from '../services/Characters';
+import { requireRole } from './auth';
+import { requests } from './schemas';
+import { validate } from './validation';
+
+const router = express.Router();
+
+// Reads and previews are open to viewers; writing character files needs admin
+const adminOnly = requireRole('admin');
+
+// Character files with their display name and the accounts (accounts.json) that use them
+router.get('/', (_req: Request, res: Response) => {
+  try {
+    return res.json({ characters: characters.list() });
+  } catch (error) {
+    logger.error('Character list error:', error);
+    return res.status(500).json({ error: 'Failed to list characters' });
+  }
+});
+
+router.get('/:file', validate(requests.character), (req: Request, res: Response) => {
+  try {
+    const result = characters.get(req.params.file);
+    if (!result) return res.status(404).json({ error: `Character ${req.params.file} not found` });
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json(result.character);
+  } catch (error) {
+    logger.error('Character lookup error:', error);
+    return res.status(500).json({ error: 'Failed to load character' });
+  }
+});
+
+// Create a character: { file: "name.json", character: { name, bio, ... } }
+router.post('/', adminOnly, validate(requests.createCharacter), (req: Request, res: Response) => {
+  const { file, character } = req.body;
+  try {
+    const result = characters.save(file, character, 'create');
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.status(201).json({ message: 'Character created', character: result });
+  } catch (error) {
+    logger.error('Character create error:', error);
+    return res.status(500).json({ error: 'Failed to create character' });
+  }
+});
+
+// Replace a character; accounts using it pick up the change at their next session
+router.put('/:file', adminOnly, validate(requests.replaceCharacter), (req: Request, res: Response) => {
+  try {
+    const result = characters.save(req.params.file, req.body, 'replace');
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json({ message: 'Character saved', character: result });
+  } catch (error) {
+    logger.error('Character save error:', error);
+    return res.status(500).json({ error: 'Failed to save character' });
+  }
+});
+
+// Delete a character that no account in accounts.json uses
+router.delete('/:file', adminOnly, validate(requests.character), (req: Request, res: Response) => {
+  try {
+    const result = characters.remove(req.params.file);
+    if (!result) return res.status(404).json({ error: `Character ${req.params.file} not found` });
+    if (result !== true) return res.status(result.status).json({ error: result.error });
+    return res.json({ message: 'Character deleted' });
+  } catch (error) {
+    logger.error('Character delete error:', error);
+    return res.status(500).json({ error: 'Failed to delete character' });
+  }
+});
+
+// Merged config and the comment and DM prompts for a sample caption and conversation:
+// { account?, caption?, conversation?: [{ from: 'me' | 'them', text }], partnerUsername?, facts? }.
+// :file may also be adrian-style, the base every character is merged over.
+router.post('/:file/preview', validate(requests.previewCharacter), (req: Request, res: Response) => {
+  try {
+    const result = characters.preview(req.params.file, req.body);
+    if (!result) return res.status(404).json({ error: `Character ${req.params.file} not found` });
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json(result);
+  } catch (error) {
+    logger.error('Character preview error:', error);
+    return res.status(500).json({ error: 'Failed to preview character' });
+  }
+});
+
+export default router;
@@ -0,0 +1,56 @@
+import express, { Request, Response } from 'express';
+import { BotEvent, BotEventFilter, eventBus } from '../services/EventBus';
+import { requests } from './schemas';
+import { validate } from './validation';
+
+const router = express.Router();
+
+// Comment line that keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25000;
+
+const parseList = (value: unknown): string[] | undefined => {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+};
+
+const getFilter = (req: Request): BotEventFilter => ({
+  accounts: parseList(req.query.account),
+  types: parseList(req.query.types)
+});
+
+// Buffered recent events as JSON: ?account=a,b&types=session,action&limit=100
+router.get('/recent', validate(requests.recentEvents), (req: Request, res: Response) => {
+  const limit = Number(req.query.limit);
+  return res.json({ events: eventBus.getRecent(getFilter(req), 0, limit) });
+});
+
+// Live Server-Sent Events stream, same filters as /recent. Reconnecting clients get the
+// events they missed from the buffer (Last-Event-ID header, or ?since=<event id>).
+router.get('/', validate(requests.events), (req: Request, res: Response) => {
+  const filter = getFilter(req);
+  const lastEventId = Number(req.headers['last-event-id'] ?? req.query.since) || 0;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // Disable nginx buffering
+  });
+  res.write('retry: 5000\n\n');
+
+  // Unnamed messages, so one EventSource.onmessage handler sees every type (event.type is in the data)
+  const send = (event: BotEvent) => {
+    res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  if (lastEventId > 0) eventBus.getRecent(filter, lastEventId).forEach(send);
+  const unsubscribe = eventBus.subscribe(send, filter);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
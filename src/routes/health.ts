@@ -0,0 +1,31 @@
+import express, { Request, Response } from 'express';
+import logger from '../config/logger';
+import { healthMonitor } from '../services/Health';
+import { requireAuth } from './auth';
+
+const router = express.Router();
+
+// Readiness verdict and dependency checks without account details, for Docker/load balancer
+// healthchecks (no login). 200 when ready, 503 otherwise
+router.get('/ready', async (_req: Request, res: Response) => {
+  try {
+    const { status, ready, checkedAt, shuttingDown, checks } = await healthMonitor.getReport();
+    return res.status(ready ? 200 : 503).json({ status, ready, checkedAt, shuttingDown, checks });
+  } catch (error) {
+    logger.error('Health check error:', error);
+    return res.status(503).json({ status: 'fail', ready: false, error: 'Health check failed' });
+  }
+});
+
+// Full report: checks, the state of every account and the Job Bot's last run. Same status codes as /ready
+router.get('/', requireAuth, async (_req: Request, res: Response) => {
+  try {
+    const report = await healthMonitor.getReport();
+    return res.status(report.ready ? 200 : 503).json(report);
+  } catch (error) {
+    logger.error('Health report error:', error);
+    return res.status(500).json({ error: 'Failed to build health report' });
+  }
+});
+
+export default router;
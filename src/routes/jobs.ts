@@ -0,0 +1,69 @@
+import express, { Request, Response } from 'express';
+import logger from '../config/logger';
+import { ApiJobStatus, ApiJobType } from '../models/ApiJob';
+import { apiJobQueue } from '../services/ApiJobQueue';
+import { audiences } from '../services/Audiences';
+import { requireRole } from './auth';
+import { requests } from './schemas';
+import { validate } from './validation';
+
+const router = express.Router();
+
+// Jobs newest first (without results). Filters: account, status, type, plus limit (max 200) and skip
+router.get('/', validate(requests.jobs), async (req: Request, res: Response) => {
+  const { account, status, type } = req.query;
+  const limit = Number(req.query.limit);
+  const skip = Number(req.query.skip);
+  try {
+    const result = await apiJobQueue.list({
+      account: typeof account === 'string' && account !== '' ? account : undefined,
+      status: status as ApiJobStatus | undefined,
+      type: type as ApiJobType | undefined,
+      limit,
+      skip
+    });
+    return res.json({ ...result, skip, limit });
+  } catch (error) {
+    logger.error('Job list error:', error);
+    return res.status(500).json({ error: 'Failed to list jobs' });
+  }
+});
+
+// Status, progress and result of one job. ?download=1 returns a scrape's usernames as a text file
+// (see /api/audiences/:audienceId/export for CSV and JSON)
+router.get('/:jobId', validate(requests.job), async (req: Request, res: Response) => {
+  try {
+    const job = await apiJobQueue.get(req.params.jobId);
+    if (!job) return res.status(404).json({ error: `Job ${req.params.jobId} not found` });
+    if (req.query.download) {
+      // Scrapes from before audiences were stored kept the usernames in the result
+      const audience = job.type === 'scrape-followers' && typeof job.result?.id === 'string' ? await audiences.get(job.result.id) : null;
+      const usernames = Array.isArray(job.result) ? job.result : audience?.followers.map(follower => follower.username);
+      if (job.type !== 'scrape-followers' || !usernames) {
+        return res.status(409).json({ error: 'This job has no follower list to download' });
+      }
+      res.setHeader('Content-Disposition', `attachment; filename="${job.params.targetAccount}_followers.txt"`);
+      res.setHeader('Content-Type', 'text/plain');
+      return res.send(usernames.join('\n'));
+    }
+    return res.json(job);
+  } catch (error) {
+    logger.error('Job lookup error:', error);
+    return res.status(500).json({ error: 'Failed to load job' });
+  }
+});
+
+// Cancel a queued or running job (a running job stops after its current step and keeps its partial result)
+router.post('/:jobId/cancel', requireRole('operator'), validate(requests.cancelJob), async (req: Request, res: Response) => {
+  try {
+    const job = await apiJobQueue.cancel(req.params.jobId);
+    if (job === null) return res.status(404).json({ error: `Job ${req.params.jobId} not found` });
+    if (job === false) return res.status(409).json({ error: 'Job has already finished' });
+    return res.status(202).json({ message: 'Cancellation requested', job });
+  } catch (error) {
+    logger.error('Job cancel error:', error);
+    return res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
+
+export default router;
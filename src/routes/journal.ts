@@ -0,0 +1,42 @@
+import express, { Request, Response } from 'express';
+import logger from '../config/logger';
+import { ActionJournal } from '../models/ActionJournal';
+import { requests } from './schemas';
+import { validate } from './validation';
+
+const router = express.Router();
+
+const FILTER_FIELDS = ['account', 'username', 'action', 'outcome', 'strategy', 'sessionId', 'targetUser'];
+
+// Query the action journal. Filters: account, username, action, outcome, strategy, sessionId,
+// targetUser, from/to (ISO dates, inclusive), plus limit (max 1000) and skip for paging.
+router.get('/', validate(requests.journal), async (req: Request, res: Response) => {
+  const query: Record<string, any> = {};
+  for (const field of FILTER_FIELDS) {
+    const value = req.query[field];
+    if (typeof value === 'string' && value !== '') query[field] = value;
+  }
+
+  const createdAt: Record<string, Date> = {};
+  for (const [param, operator] of [['from', '$gte'], ['to', '$lte']]) {
+    const value = req.query[param];
+    if (value !== undefined) createdAt[operator] = new Date(String(value));
+  }
+  if (Object.keys(createdAt).length > 0) query.createdAt = createdAt;
+
+  const limit = Number(req.query.limit);
+  const skip = Number(req.query.skip);
+
+  try {
+    const [total, entries] = await Promise.all([
+      ActionJournal.countDocuments(query),
+      ActionJournal.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean()
+    ]);
+    return res.json({ total, skip, limit, entries });
+  } catch (error) {
+    logger.error('Action journal query error:', error);
+    return res.status(500).json({ error: 'Failed to query action journal' });
+  }
+});
+
+export default router;
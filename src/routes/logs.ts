@@ -0,0 +1,62 @@
+import express, { Request, Response } from 'express';
+import fs from 'fs/promises';
+import path from 'path';
+import logger, { getAccountLogDir, SYSTEM_LOG_DIR } from '../config/logger';
+import { requests } from './schemas';
+import { validate } from './validation';
+
+const router = express.Router();
+
+// Only the end of a log file is read; daily files can grow to 20MB
+const TAIL_BYTES = 512 * 1024;
+
+const today = () => {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+const readTail = async (file: string): Promise<string[]> => {
+  const handle = await fs.open(file, 'r');
+  try {
+    const { size } = await handle.stat();
+    const start = Math.max(0, size - TAIL_BYTES);
+    const buffer = Buffer.alloc(size - start);
+    await handle.read(buffer, 0, buffer.length, start);
+    const lines = buffer.toString('utf-8').split('\n').filter(line => line.trim() !== '');
+    // The first line is usually cut in half when we started mid-file
+    return start > 0 ? lines.slice(1) : lines;
+  } finally {
+    await handle.close();
+  }
+};
+
+// Recent log entries, newest last. Query: account (omit for the system log), date (YYYY-MM-DD,
+// default today), errors=1 for the error log only, lines (max 1000, default 200)
+router.get('/', validate(requests.logs), async (req: Request, res: Response) => {
+  const account = typeof req.query.account === 'string' && req.query.account !== '' ? req.query.account : null;
+  const date = typeof req.query.date === 'string' ? req.query.date : today();
+  const errorsOnly = Boolean(req.query.errors);
+  const lines = Number(req.query.lines);
+
+  const file = account
+    ? path.join(getAccountLogDir(account), `${date}${errorsOnly ? '-error' : ''}.log`)
+    : path.join(SYSTEM_LOG_DIR, `${date}-${errorsOnly ? 'error' : 'combined'}.log`);
+
+  try {
+    const entries = (await readTail(file)).slice(-lines).map(line => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        return { message: line };
+      }
+    });
+    return res.json({ account, date, entries });
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return res.json({ account, date, entries: [] });
+    logger.error('Log read error:', error);
+    return res.status(500).json({ error: 'Failed to read logs' });
+  }
+});
+
+export default router;
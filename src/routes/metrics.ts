@@ -0,0 +1,25 @@
+import express, { Request, Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { PROMETHEUS_CONTENT_TYPE } from '../utils';
+import { metricsRegistry } from '../services/Metrics';
+
+const router = express.Router();
+
+// Optional bearer token for scrapers; without METRICS_TOKEN the endpoint is open
+const isAuthorized = (req: Request): boolean => {
+  const token = process.env.METRICS_TOKEN;
+  if (!token) return true;
+  const header = req.headers.authorization || '';
+  const provided = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+// Prometheus text exposition of the bot metrics
+router.get('/', (req: Request, res: Response) => {
+  if (!isAuthorized(req)) return res.status(401).json({ error: 'Invalid metrics token' });
+  res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+  return res.send(metricsRegistry.render());
+});
+
+export default router;
@@ -0,0 +1,585 @@
+import { OperatorRole } from '../models/OperatorUser';
+import { JsonSchema } from '../utils';
+import { componentSchemas, ref, requests } from './schemas';
+import { RequestSchemas } from './validation';
+
+export interface ApiResponse {
+  description: string;
+  schema?: JsonSchema;
+  contentType?: string;        // Default application/json
+}
+
+export interface ApiOperation {
+  operationId: string;         // Also the method name in the generated client
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete';
+  path: string;                // Relative to /api, OpenAPI style ({id})
+  tag: string;
+  summary: string;
+  role: OperatorRole | null;   // Lowest role allowed, null = no login
+  request?: RequestSchemas;
+  responses: Record<number, ApiResponse>;
+  outsideApi?: boolean;        // Served from the site root instead of /api (/metrics)
+}
+
+const object = (properties: Record<string, JsonSchema>, required: string[] = Object.keys(properties)): JsonSchema =>
+  ({ type: 'object', required, properties });
+const json = (schema: JsonSchema, description: string = 'OK'): ApiResponse => ({ description, schema });
+const message = (description: string = 'OK'): ApiResponse => json(ref('Message'), description);
+const error = (description: string): ApiResponse => json(ref('ErrorResponse'), description);
+const accountNotRunning = error('Account is not running');
+const accountNotConfigured = error('Account is not in accounts.json');
+const accountsFileUnusable = error('accounts.json is not valid JSON or not an array');
+const statusWithMessage = object({ message: { type: 'string' }, status: ref('AccountStatus') });
+const characterNotFound = error('Character not found');
+const audienceNotFound = error('Audience not found');
+const campaignNotFound = error('Campaign not found');
+const postNotFound = error('Post not found');
+const jobAccepted = json(ref('JobAccepted'), 'Job queued; poll GET /jobs/{jobId}');
+
+/**
+ * Every endpoint of the HTTP API. buildOpenApiDocument() turns the list into the published
+ * OpenAPI document, and `npm run generate:client` into the frontend's typed client.
+ */
+export const apiOperations: ApiOperation[] = [
+  // ---------------------- System and session ----------------------
+  {
+    operationId: 'getStatus', method: 'get', path: '/status', tag: 'System', summary: 'Database connection state', role: null,
+    responses: { 200: json(object({ dbConnected: { type: 'boolean' } })) }
+  },
+  {
+    operationId: 'getReadiness', method: 'get', path: '/health/ready', tag: 'System', role: null,
+    summary: 'Readiness verdict and dependency checks for container healthchecks (200 ready, 503 not ready)',
+    responses: { 200: json(ref('HealthReport'), 'Ready'), 503: json(ref('HealthReport'), 'Not ready') }
+  },
+  {
+    operationId: 'getHealth', method: 'get', path: '/health', tag: 'System', role: 'viewer',
+    summary: 'Full health report with account states and the Job Bot\'s last run',
+    responses: { 200: json(ref('HealthReport'), 'Ready'), 503: json(ref('HealthReport'), 'Not ready') }
+  },
+  {
+    operationId: 'getOpenApiDocument', method: 'get', path: '/openapi.json', tag: 'System', summary: 'This document', role: null,
+    responses: { 200: json({ type: 'object', additionalProperties: true }) }
+  },
+  {
+    operationId: 'getMetrics', method: 'get', path: '/metrics', tag: 'System', role: null, outsideApi: true,
+    summary: 'Prometheus metrics (Authorization: Bearer <METRICS_TOKEN> when that is set)',
+    responses: { 200: { description: 'Prometheus text format', schema: { type: 'string' }, contentType: 'text/plain' }, 401: error('Invalid metrics token') }
+  },
+  {
+    operationId: 'login', method: 'post', path: '/login', tag: 'Session', summary: 'Log in; sets the token cookie', role: null,
+    request: requests.login,
+    responses: { 200: json(object({ message: { type: 'string' }, username: { type: 'string' }, role: componentSchemas.OperatorUser.properties.role })), 401: error('Invalid username or password') }
+  },
+  {
+    operationId: 'logout', method: 'post', path: '/logout', tag: 'Session', summary: 'Clear the token cookie', role: null,
+    responses: { 200: message() }
+  },
+  {
+    operationId: 'getMe', method: 'get', path: '/me', tag: 'Session', summary: 'The logged-in user', role: 'viewer',
+    responses: { 200: json(object({ username: { type: 'string' }, role: componentSchemas.OperatorUser.properties.role })) }
+  },
+  {
+    operationId: 'changePassword', method: 'post', path: '/me/password', tag: 'Session', summary: 'Change your own password', role: 'viewer',
+    request: requests.changePassword,
+    responses: { 200: message(), 401: error('Current password is incorrect') }
+  },
+
+  // ---------------------- Accounts ----------------------
+  {
+    operationId: 'listAccounts', method: 'get', path: '/accounts', tag: 'Accounts', summary: 'Accounts with a running loop and their control state', role: 'viewer',
+    responses: { 200: json(object({ running: { type: 'array', items: { type: 'string' } }, accounts: { type: 'array', items: ref('AccountStatus') } })) }
+  },
+  {
+    operationId: 'reloadAccounts', method: 'post', path: '/accounts/reload', tag: 'Accounts', summary: 'Re-read accounts.json and start, stop or update loops', role: 'admin',
+    responses: {
+      200: json(object({
+        message: { type: 'string' },
+        started: { type: 'array', items: { type: 'string' } },
+        stopped: { type: 'array', items: { type: 'string' } },
+        updated: { type: 'array', items: { type: 'string' } }
+      }))
+    }
+  },
+  {
+    operationId: 'listAccountConfigs', method: 'get', path: '/accounts/config', tag: 'Accounts', summary: 'Every account in accounts.json (passwords omitted)', role: 'admin',
+    responses: { 200: json(object({ accounts: { type: 'array', items: ref('AccountConfig') } })), 409: accountsFileUnusable }
+  },
+  {
+    operationId: 'createAccountConfig', method: 'post', path: '/accounts/config', tag: 'Accounts', summary: 'Add an account to accounts.json (started at once when enabled)', role: 'admin',
+    request: requests.createAccountConfig,
+    responses: { 201: json(ref('AccountConfigChange')), 400: error('The account has configuration errors'), 409: error('The account already exists or accounts.json is unusable') }
+  },
+  {
+    operationId: 'getAccountConfig', method: 'get', path: '/accounts/{id}/config', tag: 'Accounts', summary: 'One account from accounts.json (password omitted)', role: 'admin',
+    request: requests.account,
+    responses: { 200: json(ref('AccountConfig')), 404: accountNotConfigured, 409: accountsFileUnusable }
+  },
+  {
+    operationId: 'updateAccountConfig', method: 'patch', path: '/accounts/{id}/config', tag: 'Accounts', summary: 'Edit an account\'s character, profile directory, enabled flag or settings', role: 'admin',
+    request: requests.updateAccountConfig,
+    responses: { 200: json(ref('AccountConfigChange')), 400: error('The account has configuration errors'), 404: accountNotConfigured, 409: accountsFileUnusable }
+  },
+  {
+    operationId: 'deleteAccountConfig', method: 'delete', path: '/accounts/{id}/config', tag: 'Accounts', summary: 'Remove a disabled account from accounts.json', role: 'admin',
+    request: requests.account,
+    responses: { 200: message(), 404: accountNotConfigured, 409: error('The account is enabled or accounts.json is unusable') }
+  },
+  {
+    operationId: 'enableAccount', method: 'post', path: '/accounts/{id}/enable', tag: 'Accounts', summary: 'Enable an account and start its loop', role: 'admin',
+    request: requests.account,
+    responses: { 200: json(ref('AccountConfigChange')), 400: error('The account has configuration errors'), 404: accountNotConfigured, 409: accountsFileUnusable }
+  },
+  {
+    operationId: 'disableAccount', method: 'post', path: '/accounts/{id}/disable', tag: 'Accounts', summary: 'Disable an account; its loop stops after the current cycle', role: 'admin',
+    request: requests.account,
+    responses: { 200: json(ref('AccountConfigChange')), 400: error('The account has configuration errors'), 404: accountNotConfigured, 409: accountsFileUnusable }
+  },
+  {
+    operationId: 'setAccountCredentials', method: 'put', path: '/accounts/{id}/credentials', tag: 'Accounts', summary: 'Change an account\'s Instagram login or proxy (used from its next session)', role: 'admin',
+    request: requests.accountCredentials,
+    responses: { 200: json(ref('AccountConfigChange')), 400: error('The account has configuration errors'), 404: accountNotConfigured, 409: accountsFileUnusable }
+  },
+  {
+    operationId: 'getAccount', method: 'get', path: '/accounts/{id}', tag: 'Accounts', summary: 'Control state of one account', role: 'viewer',
+    request: requests.account,
+    responses: { 200: json(ref('AccountStatus')), 404: accountNotRunning }
+  },
+  {
+    operationId: 'pauseAccount', method: 'post', path: '/accounts/{id}/pause', tag: 'Accounts', summary: 'Pause indefinitely, until a time, or for some minutes', role: 'operator',
+    request: requests.pauseAccount,
+    responses: { 200: json(statusWithMessage), 404: accountNotRunning }
+  },
+  {
+    operationId: 'resumeAccount', method: 'post', path: '/accounts/{id}/resume', tag: 'Accounts', summary: 'Resume a paused account', role: 'operator',
+    request: requests.account,
+    responses: { 200: json(statusWithMessage), 404: accountNotRunning }
+  },
+  {
+    operationId: 'runAccount', method: 'post', path: '/accounts/{id}/run', tag: 'Accounts', summary: 'Force an immediate cycle that skips the rest window', role: 'operator',
+    request: requests.runAccount,
+    responses: { 202: json(statusWithMessage, 'Cycle requested'), 404: accountNotRunning, 409: error('Account is paused or auto DMs are disabled') }
+  },
+  {
+    operationId: 'cancelAccountCycle', method: 'post', path: '/accounts/{id}/cancel', tag: 'Accounts', summary: 'Cancel the running cycle after its current action', role: 'operator',
+    request: requests.account,
+    responses: { 200: json(statusWithMessage), 404: accountNotRunning, 409: error('No cycle is running') }
+  },
+  {
+    operationId: 'getAccountLimits', method: 'get', path: '/accounts/{id}/limits', tag: 'Accounts', summary: 'Effective limits after warming, with current usage', role: 'viewer',
+    request: requests.account,
+    responses: { 200: json(ref('AccountLimits')), 404: accountNotRunning }
+  },
+  {
+    operationId: 'restartAccountWarming', method: 'post', path: '/accounts/{id}/warming/restart', tag: 'Accounts', summary: 'Restart the warming curve', role: 'admin',
+    request: requests.restartWarming,
+    responses: { 200: json(ref('AccountLimits'), 'The new limits report (plus a message)'), 404: accountNotRunning }
+  },
+  {
+    operationId: 'listDryRunActions', method: 'get', path: '/accounts/{id}/dry-run', tag: 'Accounts', summary: 'Actions a dry-run account would have performed, newest first', role: 'viewer',
+    request: requests.dryRunActions,
+    responses: { 200: json(object({ dryRun: { type: 'boolean' }, actions: { type: 'array', items: ref('JournalEntry') } })), 404: accountNotRunning }
+  },
+  {
+    operationId: 'listAccountFollows', method: 'get', path: '/accounts/{id}/follows', tag: 'Accounts', summary: 'Users the account followed, newest first, with follow-back stats', role: 'viewer',
+    request: requests.follows,
+    responses: {
+      200: json(object({
+        stats: object({ following: { type: 'integer' }, unfollowed: { type: 'integer' }, followedBack: { type: 'integer' } }),
+        total: { type: 'integer' },
+        skip: { type: 'integer' },
+        limit: { type: 'integer' },
+        follows: { type: 'array', items: ref('FollowedUser') }
+      })),
+      404: accountNotRunning
+    }
+  },
+  {
+    operationId: 'interactAccount', method: 'post', path: '/accounts/{id}/interact', tag: 'Account actions', summary: 'Run one interaction session as a job', role: 'operator',
+    request: requests.accountInteract,
+    responses: { 202: jobAccepted, 404: accountNotRunning, 409: error('Account is paused') }
+  },
+  {
+    operationId: 'sendAccountDm', method: 'post', path: '/accounts/{id}/dm', tag: 'Account actions', summary: 'Send a DM from the account', role: 'operator',
+    request: requests.accountDm,
+    responses: {
+      200: message('Sent'), 404: accountNotRunning, 409: error('Account is paused'),
+      429: json(object({ error: { type: 'string' }, limits: ref('AccountLimits') }), 'DM limit reached')
+    }
+  },
+  {
+    operationId: 'sendAccountDmFile', method: 'post', path: '/accounts/{id}/dm-file', tag: 'Account actions', summary: 'Send one DM to every username in a list, as a job', role: 'operator',
+    request: requests.accountDmFile,
+    responses: { 202: jobAccepted, 404: accountNotRunning, 409: error('Account is paused') }
+  },
+  {
+    operationId: 'checkAccountDms', method: 'post', path: '/accounts/{id}/check-dms', tag: 'Account actions', summary: 'Check the inbox and reply with the account\'s character', role: 'operator',
+    request: requests.account,
+    responses: { 200: message(), 404: accountNotRunning, 409: error('Account is paused') }
+  },
+  {
+    operationId: 'scrapeAccountFollowers', method: 'post', path: '/accounts/{id}/scrape-followers', tag: 'Account actions', summary: 'Scrape followers of another account into an audience, as a job', role: 'operator',
+    request: requests.accountScrapeFollowers,
+    responses: { 202: jobAccepted, 404: accountNotRunning, 409: error('Account is paused') }
+  },
+  {
+    operationId: 'exitAccountSession', method: 'post', path: '/accounts/{id}/exit', tag: 'Account actions', summary: 'Drop queued actions and end the browser session', role: 'operator',
+    request: requests.account,
+    responses: { 200: json(statusWithMessage), 404: accountNotRunning }
+  },
+
+  // ---------------------- Activity ----------------------
+  {
+    operationId: 'queryJournal', method: 'get', path: '/journal', tag: 'Activity', summary: 'Action journal, newest first', role: 'viewer',
+    request: requests.journal,
+    responses: {
+      200: json(object({ total: { type: 'integer' }, skip: { type: 'integer' }, limit: { type: 'integer' }, entries: { type: 'array', items: ref('JournalEntry') } }))
+    }
+  },
+  {
+    operationId: 'getLogs', method: 'get', path: '/logs', tag: 'Activity', summary: 'Recent log entries, newest last', role: 'viewer',
+    request: requests.logs,
+    responses: {
+      200: json(object({ account: { type: 'string', nullable: true }, date: { type: 'string' }, entries: { type: 'array', items: { type: 'object', additionalProperties: true } } }))
+    }
+  },
+  {
+    operationId: 'streamEvents', method: 'get', path: '/events', tag: 'Activity', summary: 'Live Server-Sent Events stream of BotEvent messages', role: 'viewer',
+    request: requests.events,
+    responses: { 200: { description: 'One unnamed SSE message per BotEvent', schema: ref('BotEvent'), contentType: 'text/event-stream' } }
+  },
+  {
+    operationId: 'getRecentEvents', method: 'get', path: '/events/recent', tag: 'Activity', summary: 'Buffered recent events', role: 'viewer',
+    request: requests.recentEvents,
+    responses: { 200: json(object({ events: { type: 'array', items: ref('BotEvent') } })) }
+  },
+
+  // ---------------------- Jobs ----------------------
+  {
+    operationId: 'listJobs', method: 'get', path: '/jobs', tag: 'Jobs', summary: 'Jobs newest first, without results', role: 'viewer',
+    request: requests.jobs,
+    responses: {
+      200: json(object({ total: { type: 'integer' }, skip: { type: 'integer' }, limit: { type: 'integer' }, jobs: { type: 'array', items: ref('Job') } }))
+    }
+  },
+  {
+    operationId: 'getJob', method: 'get', path: '/jobs/{jobId}', tag: 'Jobs', summary: 'Status, progress and result of one job', role: 'viewer',
+    request: requests.job,
+    responses: { 200: json(ref('Job')), 404: error('Job not found'), 409: error('No follower list to download') }
+  },
+  {
+    operationId: 'cancelJob', method: 'post', path: '/jobs/{jobId}/cancel', tag: 'Jobs', summary: 'Cancel a queued or running job', role: 'operator',
+    request: requests.cancelJob,
+    responses: { 202: json(object({ message: { type: 'string' }, job: ref('Job') })), 404: error('Job not found'), 409: error('Job has already finished') }
+  },
+
+  // ---------------------- Characters ----------------------
+  {
+    operationId: 'listCharacters', method: 'get', path: '/characters', tag: 'Characters', summary: 'Character files and the accounts using them', role: 'viewer',
+    responses: { 200: json(object({ characters: { type: 'array', items: ref('CharacterSummary') } })) }
+  },
+  {
+    operationId: 'getCharacter', method: 'get', path: '/characters/{file}', tag: 'Characters', summary: 'One character file', role: 'viewer',
+    request: requests.character,
+    responses: { 200: json(ref('Character')), 404: characterNotFound, 409: error('The file is not valid JSON') }
+  },
+  {
+    operationId: 'createCharacter', method: 'post', path: '/characters', tag: 'Characters', summary: 'Create a character file', role: 'admin',
+    request: requests.createCharacter,
+    responses: { 201: json(object({ message: { type: 'string' }, character: ref('CharacterSummary') })), 409: error('The file already exists') }
+  },
+  {
+    operationId: 'replaceCharacter', method: 'put', path: '/characters/{file}', tag: 'Characters', summary: 'Replace a character file (accounts pick it up at their next session)', role: 'admin',
+    request: requests.replaceCharacter,
+    responses: { 200: json(object({ message: { type: 'string' }, character: ref('CharacterSummary') })), 404: characterNotFound }
+  },
+  {
+    operationId: 'deleteCharacter', method: 'delete', path: '/characters/{file}', tag: 'Characters', summary: 'Delete a character no account uses', role: 'admin',
+    request: requests.character,
+    responses: { 200: message(), 404: characterNotFound, 409: error('Used by an account in accounts.json') }
+  },
+  {
+    operationId: 'previewCharacter', method: 'post', path: '/characters/{file}/preview', tag: 'Characters', role: 'viewer',
+    summary: 'Merged config and the comment and DM prompts for a sample caption and conversation (nothing is sent)',
+    request: requests.previewCharacter,
+    responses: { 200: json(ref('CharacterPreview')), 404: error('Character or account not found') }
+  },
+
+  // ---------------------- Audiences ----------------------
+  {
+    operationId: 'listAudiences', method: 'get', path: '/audiences', tag: 'Audiences', summary: 'Saved follower scrapes newest first, without followers', role: 'viewer',
+    request: requests.audiences,
+    responses: {
+      200: json(object({ total: { type: 'integer' }, skip: { type: 'integer' }, limit: { type: 'integer' }, audiences: { type: 'array', items: ref('AudienceSummary') } }))
+    }
+  },
+  {
+    operationId: 'getAudience', method: 'get', path: '/audiences/{audienceId}', tag: 'Audiences', summary: 'One audience with its followers', role: 'viewer',
+    request: requests.audience,
+    responses: { 200: json(ref('Audience')), 404: audienceNotFound }
+  },
+  {
+    operationId: 'exportAudience', method: 'get', path: '/audiences/{audienceId}/export', tag: 'Audiences', summary: 'Download an audience as CSV, JSON or a username list', role: 'viewer',
+    request: requests.exportAudience,
+    responses: { 200: { description: 'File attachment (text/csv, application/json or text/plain)', schema: { type: 'string' }, contentType: 'text/csv' }, 404: audienceNotFound }
+  },
+  {
+    operationId: 'diffAudience', method: 'get', path: '/audiences/{audienceId}/diff', tag: 'Audiences', summary: 'New and lost followers since an earlier scrape of the same account', role: 'viewer',
+    request: requests.diffAudience,
+    responses: { 200: json(ref('AudienceDiff')), 404: audienceNotFound, 409: error('No earlier scrape, or the audiences are from different accounts') }
+  },
+  {
+    operationId: 'renameAudience', method: 'patch', path: '/audiences/{audienceId}', tag: 'Audiences', summary: 'Rename an audience', role: 'operator',
+    request: requests.renameAudience,
+    responses: { 200: json(object({ message: { type: 'string' }, audience: ref('AudienceSummary') })), 404: audienceNotFound }
+  },
+  {
+    operationId: 'deleteAudience', method: 'delete', path: '/audiences/{audienceId}', tag: 'Audiences', summary: 'Delete an audience', role: 'operator',
+    request: requests.audience,
+    responses: { 200: message(), 404: audienceNotFound }
+  },
+
+  // ---------------------- Campaigns ----------------------
+  {
+    operationId: 'listCampaigns', method: 'get', path: '/campaigns', tag: 'Campaigns', summary: 'DM campaigns newest first, without recipients', role: 'viewer',
+    request: requests.campaigns,
+    responses: {
+      200: json(object({ total: { type: 'integer' }, skip: { type: 'integer' }, limit: { type: 'integer' }, campaigns: { type: 'array', items: ref('CampaignSummary') } }))
+    }
+  },
+  {
+    operationId: 'createCampaign', method: 'post', path: '/campaigns', tag: 'Campaigns', summary: 'Start a DM campaign to an audience or a username/CSV file', role: 'operator',
+    request: requests.createCampaign,
+    responses: {
+      201: json(object({ message: { type: 'string' }, campaign: ref('CampaignSummary') })),
+      400: error('No recipients, both or neither of audienceId and file, or unknown template variables'),
+      404: error('Account not running or audience not found')
+    }
+  },
+  {
+    operationId: 'listOptOuts', method: 'get', path: '/campaigns/opt-outs', tag: 'Campaigns', summary: 'Users who asked not to be messaged; campaigns skip them', role: 'viewer',
+    responses: { 200: json(object({ optOuts: { type: 'array', items: ref('OptOut') } })) }
+  },
+  {
+    operationId: 'addOptOut', method: 'post', path: '/campaigns/opt-outs', tag: 'Campaigns', summary: 'Opt a user out of campaigns', role: 'operator',
+    request: requests.optOut,
+    responses: { 200: json(object({ message: { type: 'string' }, optOut: ref('OptOut') })) }
+  },
+  {
+    operationId: 'removeOptOut', method: 'delete', path: '/campaigns/opt-outs/{username}', tag: 'Campaigns', summary: 'Remove an opt-out', role: 'operator',
+    request: requests.removeOptOut,
+    responses: { 200: message(), 404: error('User has not opted out') }
+  },
+  {
+    operationId: 'getCampaign', method: 'get', path: '/campaigns/{campaignId}', tag: 'Campaigns', summary: 'Campaign report: counts and recipients with their status', role: 'viewer',
+    request: requests.campaign,
+    responses: { 200: json(ref('Campaign')), 404: campaignNotFound }
+  },
+  {
+    operationId: 'pauseCampaign', method: 'post', path: '/campaigns/{campaignId}/pause', tag: 'Campaigns', summary: 'Pause a running campaign after the DM in progress', role: 'operator',
+    request: requests.campaignAction,
+    responses: { 200: json(object({ message: { type: 'string' }, campaign: ref('CampaignSummary') })), 404: campaignNotFound, 409: error('Campaign is not running') }
+  },
+  {
+    operationId: 'resumeCampaign', method: 'post', path: '/campaigns/{campaignId}/resume', tag: 'Campaigns', summary: 'Resume a paused campaign with its pending recipients', role: 'operator',
+    request: requests.campaignAction,
+    responses: { 200: json(object({ message: { type: 'string' }, campaign: ref('CampaignSummary') })), 404: campaignNotFound, 409: error('Campaign is not paused') }
+  },
+  {
+    operationId: 'cancelCampaign', method: 'post', path: '/campaigns/{campaignId}/cancel', tag: 'Campaigns', summary: 'Cancel a campaign; pending recipients are not messaged', role: 'operator',
+    request: requests.campaignAction,
+    responses: { 200: json(object({ message: { type: 'string' }, campaign: ref('CampaignSummary') })), 404: campaignNotFound, 409: error('Campaign already finished') }
+  },
+
+  // ---------------------- Posts ----------------------
+  {
+    operationId: 'listPosts', method: 'get', path: '/posts', tag: 'Posts', summary: 'Queued and published posts, latest publish time first', role: 'viewer',
+    request: requests.posts,
+    responses: {
+      200: json(object({ total: { type: 'integer' }, skip: { type: 'integer' }, limit: { type: 'integer' }, posts: { type: 'array', items: ref('ScheduledPost') } }))
+    }
+  },
+  {
+    operationId: 'createPost', method: 'post', path: '/posts', tag: 'Posts', summary: 'Queue a post; the caption is generated from the character when omitted', role: 'operator',
+    request: requests.createPost,
+    responses: {
+      201: json(object({ message: { type: 'string' }, post: ref('ScheduledPost') })),
+      400: error('Missing or unsupported media files, or unknown post type'),
+      404: accountNotRunning,
+      502: error('Caption generation failed')
+    }
+  },
+  {
+    operationId: 'getPost', method: 'get', path: '/posts/{postId}', tag: 'Posts', summary: 'A queued or published post with its caption and post URL', role: 'viewer',
+    request: requests.post,
+    responses: { 200: json(ref('ScheduledPost')), 404: postNotFound }
+  },
+  {
+    operationId: 'updatePost', method: 'patch', path: '/posts/{postId}', tag: 'Posts', summary: 'Edit the caption, notes, media or publish time of an unpublished post', role: 'operator',
+    request: requests.updatePost,
+    responses: { 200: json(object({ message: { type: 'string' }, post: ref('ScheduledPost') })), 400: error('Missing or unsupported media files'), 404: postNotFound, 409: error('Post is publishing, published or cancelled') }
+  },
+  {
+    operationId: 'regeneratePostCaption', method: 'post', path: '/posts/{postId}/caption', tag: 'Posts', summary: 'Write a new caption with Gemini', role: 'operator',
+    request: requests.regenerateCaption,
+    responses: {
+      200: json(object({ message: { type: 'string' }, post: ref('ScheduledPost') })),
+      400: error('Unknown post type'),
+      404: error('Post not found or account not running'),
+      409: error('Post is publishing, published or cancelled'),
+      502: error('Caption generation failed')
+    }
+  },
+  {
+    operationId: 'approvePost', method: 'post', path: '/posts/{postId}/approve', tag: 'Posts', summary: 'Approve a post waiting for approval so it publishes at its time', role: 'operator',
+    request: requests.postAction,
+    responses: { 200: json(object({ message: { type: 'string' }, post: ref('ScheduledPost') })), 404: postNotFound, 409: error('Post is not waiting for approval') }
+  },
+  {
+    operationId: 'cancelPost', method: 'post', path: '/posts/{postId}/cancel', tag: 'Posts', summary: 'Cancel an unpublished post', role: 'operator',
+    request: requests.postAction,
+    responses: { 200: json(object({ message: { type: 'string' }, post: ref('ScheduledPost') })), 404: postNotFound, 409: error('Post is publishing, published or cancelled') }
+  },
+
+  // ---------------------- Audit ----------------------
+  {
+    operationId: 'queryAudit', method: 'get', path: '/audit', tag: 'Audit', summary: 'State-changing API calls, newest first', role: 'admin',
+    request: requests.audit,
+    responses: {
+      200: json(object({ total: { type: 'integer' }, skip: { type: 'integer' }, limit: { type: 'integer' }, entries: { type: 'array', items: ref('AuditEntry') } }))
+    }
+  },
+
+  // ---------------------- Users ----------------------
+  {
+    operationId: 'listUsers', method: 'get', path: '/users', tag: 'Users', summary: 'Operator users', role: 'admin',
+    responses: { 200: json(object({ users: { type: 'array', items: ref('OperatorUser') } })) }
+  },
+  {
+    operationId: 'createUser', method: 'post', path: '/users', tag: 'Users', summary: 'Create an operator user', role: 'admin',
+    request: requests.createUser,
+    responses: { 201: json(object({ message: { type: 'string' }, user: ref('OperatorUser') })), 409: error('Username is taken') }
+  },
+  {
+    operationId: 'updateUser', method: 'patch', path: '/users/{username}', tag: 'Users', summary: 'Change a user\'s role, password or disabled flag', role: 'admin',
+    request: requests.updateUser,
+    responses: { 200: json(object({ message: { type: 'string' }, user: ref('OperatorUser') })), 404: error('User not found') }
+  },
+  {
+    operationId: 'deleteUser', method: 'delete', path: '/users/{username}', tag: 'Users', summary: 'Delete a user (not the last admin)', role: 'admin',
+    request: requests.deleteUser,
+    responses: { 200: message(), 404: error('User not found'), 409: error('Last admin') }
+  },
+  {
+    operationId: 'clearCookies', method: 'delete', path: '/clear-cookies', tag: 'Standalone client', summary: 'Delete the standalone client\'s Instagram cookies', role: 'admin',
+    responses: { 200: json(object({ success: { type: 'boolean' }, message: { type: 'string' } })) }
+  },
+
+  // ---------------------- Secrets ----------------------
+  {
+    operationId: 'listSecrets', method: 'get', path: '/secrets', tag: 'Secrets', summary: 'Which secrets are set, without their values', role: 'admin',
+    responses: { 200: json(object({ secrets: { type: 'array', items: ref('Secret') } })) }
+  },
+  {
+    operationId: 'setGeminiKeys', method: 'put', path: '/secrets/gemini-keys', tag: 'Secrets', summary: 'Replace the Gemini API keys (written to .env, used from the next call)', role: 'admin',
+    request: requests.setGeminiKeys,
+    responses: { 200: json(object({ message: { type: 'string' }, secret: ref('Secret') })) }
+  },
+  {
+    operationId: 'rotateJwtSecret', method: 'post', path: '/secrets/jwt/rotate', tag: 'Secrets', summary: 'Replace the JWT secret with a random one; every operator is logged out', role: 'admin',
+    responses: { 200: json(object({ message: { type: 'string' }, secret: ref('Secret') })) }
+  },
+
+  // ---------------------- Standalone client ----------------------
+  {
+    operationId: 'igLogin', method: 'post', path: '/ig-login', tag: 'Standalone client', summary: 'Log the standalone client into Instagram', role: 'operator',
+    request: requests.igLogin,
+    responses: { 200: message() }
+  },
+  {
+    operationId: 'standaloneInteract', method: 'post', path: '/interact', tag: 'Standalone client', summary: 'Interact with feed posts, as a job', role: 'operator',
+    responses: { 202: jobAccepted }
+  },
+  {
+    operationId: 'standaloneDm', method: 'post', path: '/dm', tag: 'Standalone client', summary: 'Send a DM', role: 'operator',
+    request: requests.standaloneDm,
+    responses: { 200: message() }
+  },
+  {
+    operationId: 'standaloneDmFile', method: 'post', path: '/dm-file', tag: 'Standalone client', summary: 'Send one DM to every username in a list, as a job', role: 'operator',
+    request: requests.standaloneDmFile,
+    responses: { 202: jobAccepted }
+  },
+  {
+    operationId: 'standaloneScrapeFollowers', method: 'post', path: '/scrape-followers', tag: 'Standalone client', summary: 'Scrape followers into an audience, as a job', role: 'operator',
+    request: requests.standaloneScrapeFollowers,
+    responses: { 202: jobAccepted }
+  },
+  {
+    operationId: 'standaloneExit', method: 'post', path: '/exit', tag: 'Standalone client', summary: 'Close the standalone client', role: 'operator',
+    responses: { 200: message() }
+  }
+];
+
+// Path and query parameters are described one by one in OpenAPI
+const toParameters = (location: 'path' | 'query', schema?: JsonSchema) =>
+  Object.entries(schema?.properties || {}).map(([name, property]) => {
+    const { description, ...rest } = property;
+    return {
+      name,
+      in: location,
+      required: location === 'path' || (schema?.required || []).includes(name),
+      ...(description ? { description } : {}),
+      schema: rest
+    };
+  });
+
+const toOperation = (operation: ApiOperation) => {
+  const { request } = operation;
+  const responses: Record<string, any> = {};
+  const addResponse = (status: number, response: ApiResponse) => {
+    responses[status] = {
+      description: response.description,
+      ...(response.schema ? { content: { [response.contentType || 'application/json']: { schema: response.schema } } } : {})
+    };
+  };
+  Object.entries(operation.responses).forEach(([status, response]) => addResponse(Number(status), response));
+  if (request) addResponse(400, json(ref('ValidationError'), 'Invalid request'));
+  if (operation.role) addResponse(401, error('Not logged in'));
+  if (operation.role && operation.role !== 'viewer') addResponse(403, error(`Requires the ${operation.role} role`));
+  addResponse(500, error('Server error'));
+
+  return {
+    operationId: operation.operationId,
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(operation.role ? { security: [{ cookieAuth: [] }], 'x-required-role': operation.role } : { security: [] }),
+    parameters: [...toParameters('path', request?.params), ...toParameters('query', request?.query)],
+    ...(request?.body ? { requestBody: { required: true, content: { 'application/json': { schema: request.body } } } } : {}),
+    responses
+  };
+};
+
+export const buildOpenApiDocument = () => {
+  const paths: Record<string, Record<string, any>> = {};
+  for (const operation of apiOperations) {
+    const item = paths[operation.path] || (paths[operation.path] = {});
+    if (operation.outsideApi) item.servers = [{ url: '/' }];
+    item[operation.method] = toOperation(operation);
+  }
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Instagram AI Agent API',
+      version: '1.0.0',
+      description: 'Dashboard API for the Instagram account loops, their jobs and the operator users. Log in with POST /login; the token cookie authenticates the other calls.'
+    },
+    servers: [{ url: '/api' }],
+    security: [{ cookieAuth: [] }],
+    tags: [...new Set(apiOperations.map(operation => operation.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      schemas: componentSchemas,
+      securitySchemes: { cookieAuth: { type: 'apiKey', in: 'cookie', name: 'token' } }
+    }
+  };
+};
@@ -0,0 +1,107 @@
+import express, { Request, Response } from 'express';
+import logger from '../config/logger';
+import { ScheduledPostStatus } from '../models/ScheduledPost';
+import { scheduledPosts } from '../services/ScheduledPosts';
+import { getRequestUser, requireRole } from './auth';
+import { requests } from './schemas';
+import { validate } from './validation';
+
+const router = express.Router();
+
+const operatorOnly = requireRole('operator');
+
+// Queued and published posts, latest publish time first. Filters: account, status, plus limit (max 200) and skip
+router.get('/', validate(requests.posts), async (req: Request, res: Response) => {
+  const { account, status } = req.query;
+  const limit = Number(req.query.limit);
+  const skip = Number(req.query.skip);
+  try {
+    const result = await scheduledPosts.list({
+      account: typeof account === 'string' && account !== '' ? account : undefined,
+      status: status as ScheduledPostStatus | undefined,
+      limit,
+      skip
+    });
+    return res.json({ ...result, skip, limit });
+  } catch (error) {
+    logger.error('Post list error:', error);
+    return res.status(500).json({ error: 'Failed to list posts' });
+  }
+});
+
+// Queue a post: { account, mediaPaths, notes?, caption?, postType?, scheduledAt?, requireApproval? }.
+// Without a caption, Gemini writes one from the character's captions style and the notes.
+router.post('/', operatorOnly, validate(requests.createPost), async (req: Request, res: Response) => {
+  try {
+    const result = await scheduledPosts.create({ ...req.body, createdBy: getRequestUser(req).username });
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.status(201).json({ message: result.status === 'pending_approval' ? 'Post queued for approval' : 'Post scheduled', post: result });
+  } catch (error) {
+    logger.error('Post create error:', error);
+    return res.status(500).json({ error: 'Failed to queue post' });
+  }
+});
+
+router.get('/:postId', validate(requests.post), async (req: Request, res: Response) => {
+  try {
+    const post = await scheduledPosts.get(req.params.postId);
+    if (!post) return res.status(404).json({ error: `Post ${req.params.postId} not found` });
+    return res.json(post);
+  } catch (error) {
+    logger.error('Post lookup error:', error);
+    return res.status(500).json({ error: 'Failed to load post' });
+  }
+});
+
+// Edit an unpublished post: { caption?, notes?, scheduledAt?, mediaPaths? }. A new caption or
+// media needs approval again when the post requires it; a failed post is queued again.
+router.patch('/:postId', operatorOnly, validate(requests.updatePost), async (req: Request, res: Response) => {
+  try {
+    const result = await scheduledPosts.update(req.params.postId, req.body);
+    if (!result) return res.status(404).json({ error: `Post ${req.params.postId} not found` });
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json({ message: 'Post updated', post: result });
+  } catch (error) {
+    logger.error('Post update error:', error);
+    return res.status(500).json({ error: 'Failed to update post' });
+  }
+});
+
+// Write a new caption with Gemini: { notes?, postType? }
+router.post('/:postId/caption', operatorOnly, validate(requests.regenerateCaption), async (req: Request, res: Response) => {
+  try {
+    const result = await scheduledPosts.regenerateCaption(req.params.postId, req.body);
+    if (!result) return res.status(404).json({ error: `Post ${req.params.postId} not found` });
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json({ message: 'Caption regenerated', post: result });
+  } catch (error) {
+    logger.error('Caption regeneration error:', error);
+    return res.status(500).json({ error: 'Failed to regenerate caption' });
+  }
+});
+
+router.post('/:postId/approve', operatorOnly, validate(requests.postAction), async (req: Request, res: Response) => {
+  try {
+    const result = await scheduledPosts.approve(req.params.postId, getRequestUser(req).username);
+    if (!result) return res.status(404).json({ error: `Post ${req.params.postId} not found` });
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json({ message: 'Post approved', post: result });
+  } catch (error) {
+    logger.error('Post approval error:', error);
+    return res.status(500).json({ error: 'Failed to approve post' });
+  }
+});
+
+router.post('/:postId/cancel', operatorOnly, validate(requests.postAction), async (req: Request, res: Response) => {
+  try {
+    const result = await scheduledPosts.cancel(req.params.postId);
+    if (!result) return res.status(404).json({ error: `Post ${req.params.postId} not found` });
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json({ message: 'Post cancelled', post: result });
+  } catch (error) {
+    logger.error('Post cancel error:', error);
+    return res.status(500).json({ error: 'Failed to cancel post' });
+  }
+});
+
+export default router;
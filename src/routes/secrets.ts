@@ -0,0 +1,42 @@
+import express, { Request, Response } from 'express';
+import logger from '../config/logger';
+import { secrets } from '../services/Secrets';
+import { requests } from './schemas';
+import { validate } from './validation';
+
+// Secrets kept in .env (mounted behind requireRole('admin')). Values are never returned.
+const router = express.Router();
+
+router.get('/', (_req: Request, res: Response) => {
+  return res.json({ secrets: secrets.list() });
+});
+
+// Replace the Gemini API keys: { keys: string[] }. They are used from the next Gemini call.
+router.put('/gemini-keys', validate(requests.setGeminiKeys), (req: Request, res: Response) => {
+  try {
+    const result = secrets.setGeminiKeys(req.body.keys);
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json({ message: 'Gemini API keys updated', secret: result });
+  } catch (error) {
+    logger.error('Gemini key update error:', error);
+    return res.status(500).json({ error: 'Failed to update Gemini API keys' });
+  }
+});
+
+// Replace the JWT secret with a random one; every operator (this one included) is logged out
+router.post('/jwt/rotate', (_req: Request, res: Response) => {
+  try {
+    const secret = secrets.rotateJwtSecret();
+    res.clearCookie('token', {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+    });
+    return res.json({ message: 'JWT secret rotated. Log in again.', secret });
+  } catch (error) {
+    logger.error('JWT secret rotation error:', error);
+    return res.status(500).json({ error: 'Failed to rotate the JWT secret' });
+  }
+});
+
+export default router;
@@ -0,0 +1,57 @@
+import express, { Request, Response } from 'express';
+import logger from '../config/logger';
+import { operatorUsers, OperatorUserUpdate } from '../services/OperatorUsers';
+import { getRequestUser } from './auth';
+import { requests } from './schemas';
+import { validate } from './validation';
+
+// Operator user management (mounted behind requireRole('admin'))
+const router = express.Router();
+
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    return res.json({ users: await operatorUsers.list() });
+  } catch (error) {
+    logger.error('List users error:', error);
+    return res.status(500).json({ error: 'Failed to list users' });
+  }
+});
+
+// Create a user: { username, password, role: 'viewer' | 'operator' | 'admin' }
+router.post('/', validate(requests.createUser), async (req: Request, res: Response) => {
+  const { username, password, role } = req.body;
+  try {
+    const result = await operatorUsers.create(username, password, role);
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    logger.info(`Operator user ${result.username} created by ${getRequestUser(req).username}.`);
+    return res.status(201).json({ message: 'User created', user: result });
+  } catch (error) {
+    logger.error('Create user error:', error);
+    return res.status(500).json({ error: 'Failed to create user' });
+  }
+});
+
+// Change a user's role, password or disabled flag: { role?, password?, disabled? }
+router.patch('/:username', validate(requests.updateUser), async (req: Request, res: Response) => {
+  try {
+    const result = await operatorUsers.update(req.params.username, req.body as OperatorUserUpdate);
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    return res.json({ message: 'User updated', user: result });
+  } catch (error) {
+    logger.error('Update user error:', error);
+    return res.status(500).json({ error: 'Failed to update user' });
+  }
+});
+
+router.delete('/:username', validate(requests.deleteUser), async (req: Request, res: Response) => {
+  try {
+    const problem = await operatorUsers.remove(req.params.username);
+    if (problem) return res.status(problem.status).json({ error: problem.error });
+    return res.json({ message: 'User deleted' });
+  } catch (error) {
+    logger.error('Delete user error:', error);
+    return res.status(500).json({ error: 'Failed to delete user' });
+  }
+});
+
+export default router;
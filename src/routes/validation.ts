@@ -0,0 +1,40 @@
+import { NextFunction, Request, Response } from 'express';
+import { JsonSchema, SchemaIssue, validateSchema } from '../utils';
+
+// Request schemas of one endpoint; the same objects describe it in the OpenAPI document
+export interface RequestSchemas {
+  params?: JsonSchema;
+  query?: JsonSchema;
+  body?: JsonSchema;
+}
+
+export interface ValidationIssue extends SchemaIssue {
+  location: 'params' | 'query' | 'body';
+}
+
+// Validates params, query and body against the endpoint's schemas. Invalid requests get
+// 400 { error, issues: [{ location, path, message }] }; valid ones continue with defaults filled
+// in and query/params numbers and booleans already converted.
+export const validate = (schemas: RequestSchemas) => (req: Request, res: Response, next: NextFunction) => {
+  const issues: ValidationIssue[] = [];
+  const values: Partial<Record<ValidationIssue['location'], unknown>> = {};
+  for (const location of ['params', 'query', 'body'] as const) {
+    const schema = schemas[location];
+    if (!schema) continue;
+    // A missing JSON body arrives as {} from express.json(), or undefined without a content type
+    const input = location === 'body' ? (req.body ?? {}) : req[location];
+    const result = validateSchema(schema, input, location !== 'body');
+    values[location] = result.value;
+    issues.push(...result.issues.map(issue => ({ location, ...issue })));
+  }
+
+  if (issues.length > 0) {
+    const describe = (issue: ValidationIssue) => `${issue.path ? `${issue.location}.${issue.path}` : issue.location} ${issue.message}`;
+    return res.status(400).json({ error: `Invalid request: ${issues.map(describe).join('; ')}`, issues });
+  }
+
+  if (values.params) req.params = values.params as Request['params'];
+  if (values.query) req.query = values.query as Request['query'];
+  if (values.body) req.body = values.body;
+  next();
+};
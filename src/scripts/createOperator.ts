@@ -0,0 +1,44 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import readlineSync from 'readline-sync';
+import { isOperatorRole, operatorUsers } from '../services/OperatorUsers';
+
+// Creates a dashboard user, or resets the password and role of an existing one.
+//   npm run create:operator -- <username> [viewer|operator|admin]
+// The password is read from OPERATOR_PASSWORD or asked for interactively.
+
+dotenv.config();
+
+const [username, role = 'admin'] = process.argv.slice(2);
+
+const run = async () => {
+    if (!username || !isOperatorRole(role)) {
+        console.error("Usage: npm run create:operator -- <username> [viewer|operator|admin]");
+        process.exit(1);
+    }
+    if (!process.env.MONGODB_URI) {
+        console.error("MONGODB_URI is not set.");
+        process.exit(1);
+    }
+    const password = process.env.OPERATOR_PASSWORD
+        || readlineSync.question(`Password for ${username}: `, { hideEchoBack: true });
+
+    await mongoose.connect(process.env.MONGODB_URI);
+    let result = await operatorUsers.create(username, password, role);
+    if ('error' in result && result.status === 409) {
+        result = await operatorUsers.update(username, { password, role, disabled: false });
+    }
+    await mongoose.disconnect();
+
+    if ('error' in result) {
+        console.error(result.error);
+        process.exit(1);
+    }
+    console.log(`Operator user ${result.username} is ready (role: ${result.role}).`);
+};
+
+run().catch(async error => {
+    console.error("Failed to create operator user:", error);
+    await mongoose.disconnect().catch(() => {});
+    process.exit(1);
+});
@@ -0,0 +1,171 @@
+import fs from 'fs';
+import path from 'path';
+import { buildOpenApiDocument } from '../routes/openapi';
+import { JsonSchema } from '../utils';
+
+// Writes a typed fetch client for the dashboard from the API's OpenAPI document.
+//   npm run generate:client -- [output file]   (default frontend/src/api/client.ts)
+// Re-run it after changing routes/schemas.ts or routes/openapi.ts.
+
+const output = path.resolve(process.argv[2] || 'frontend/src/api/client.ts');
+const document = buildOpenApiDocument();
+
+const pascal = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+const isIdentifier = (name: string) => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+const comment = (text: string | undefined, indent: string) => (text ? `${indent}/** ${text.replace(/\*\//g, '*\\/')} */\n` : '');
+
+const toType = (schema: JsonSchema | undefined, indent: string = ''): string => {
+    if (!schema) return 'unknown';
+    let type: string;
+    if (schema.$ref) {
+        type = schema.$ref.split('/').pop()!;
+    } else if (schema.enum) {
+        type = schema.enum.map(value => JSON.stringify(value)).join(' | ');
+    } else {
+        switch (schema.type) {
+            case 'string': type = 'string'; break;
+            case 'number':
+            case 'integer': type = 'number'; break;
+            case 'boolean': type = 'boolean'; break;
+            case 'array': type = `Array<${toType(schema.items, indent)}>`; break;
+            case 'object': type = toObjectType(schema, indent); break;
+            default: type = 'unknown';
+        }
+    }
+    return schema.nullable ? `${type} | null` : type;
+};
+
+const toObjectType = (schema: JsonSchema, indent: string): string => {
+    const properties = Object.entries(schema.properties || {});
+    const extra = schema.additionalProperties;
+    if (properties.length === 0) return extra === false ? 'Record<string, never>' : `Record<string, ${typeof extra === 'object' ? toType(extra, indent) : 'unknown'}>`;
+    const inner = `${indent}    `;
+    const lines = properties.map(([name, property]) =>
+        `${comment(property.description, inner)}${inner}${isIdentifier(name) ? name : JSON.stringify(name)}${(schema.required || []).includes(name) ? '' : '?'}: ${toType(property, inner)};`);
+    if (extra === true || typeof extra === 'object') lines.push(`${inner}[key: string]: unknown;`);
+    return `{\n${lines.join('\n')}\n${indent}}`;
+};
+
+// Query and path parameters are listed one by one in the document; the client takes them as objects
+const toParametersSchema = (parameters: any[], location: 'path' | 'query'): JsonSchema | undefined => {
+    const selected = parameters.filter(parameter => parameter.in === location);
+    if (selected.length === 0) return undefined;
+    return {
+        type: 'object',
+        required: selected.filter(parameter => parameter.required).map(parameter => parameter.name),
+        properties: Object.fromEntries(selected.map(parameter => [parameter.name, { ...parameter.schema, description: parameter.description }]))
+    };
+};
+
+const types: string[] = [];
+const methods: string[] = [];
+
+for (const [name, schema] of Object.entries(document.components.schemas)) {
+    types.push(`${comment((schema as JsonSchema).description, '')}export type ${name} = ${toType(schema as JsonSchema)};`);
+}
+
+for (const [route, item] of Object.entries(document.paths)) {
+    const base = (item.servers?.[0]?.url ?? document.servers[0].url).replace(/\/$/, '');
+    for (const [method, operation] of Object.entries(item)) {
+        if (method === 'servers') continue;
+        const name = operation.operationId as string;
+        const typeName = pascal(name);
+        const params = toParametersSchema(operation.parameters, 'path');
+        const query = toParametersSchema(operation.parameters, 'query');
+        const body: JsonSchema | undefined = operation.requestBody?.content['application/json'].schema;
+
+        const success = Object.entries(operation.responses as Record<string, any>).find(([status]) => status.startsWith('2'))![1];
+        const contentType = Object.keys(success.content || {})[0] || 'application/json';
+        const summary = `${operation.summary}${operation['x-required-role'] ? ` (${operation['x-required-role']})` : ''}`;
+
+        const args: string[] = [];
+        if (params) {
+            types.push(`export type ${typeName}Params = ${toType(params)};`);
+            args.push(`params: ${typeName}Params`);
+        }
+        if (query) {
+            types.push(`export type ${typeName}Query = ${toType(query)};`);
+            args.push(`query?: ${typeName}Query`);
+        }
+        if (body) {
+            types.push(`export type ${typeName}Body = ${toType(body)};`);
+            args.push(`${(body.required || []).length > 0 ? 'body' : 'body?'}: ${typeName}Body`);
+        }
+        const argsOptional = !params && !(body && (body.required || []).length > 0);
+        const signature = args.length > 0 ? `request${argsOptional ? '?' : ''}: { ${args.join('; ')} }` : '';
+        const pathExpression = '`' + base + route.replace(/\{(\w+)\}/g, (_match, param) => `\${encodeURIComponent(String(request.params.${param}))}`) + '`';
+        const options = [query ? 'query: request?.query' : '', body ? 'body: request?.body' : ''].filter(Boolean).join(', ');
+
+        if (contentType === 'text/event-stream') {
+            // EventSource does the streaming; the client only builds the URL
+            methods.push(`${comment(`${summary}. Open it with new EventSource(url, { withCredentials: true }).`, '        ')}        ${name}Url: (${signature}) => url(${pathExpression}${query ? ', request?.query' : ''}),`);
+            continue;
+        }
+        const responseType = contentType === 'application/json' ? `${typeName}Response` : 'string';
+        if (contentType === 'application/json') types.push(`export type ${typeName}Response = ${toType(success.content?.[contentType]?.schema)};`);
+        methods.push(`${comment(summary, '        ')}        ${name}: (${signature}) => send<${responseType}>('${method.toUpperCase()}', ${pathExpression}${options || contentType !== 'application/json' ? `, { ${[options, contentType !== 'application/json' ? 'text: true' : ''].filter(Boolean).join(', ')} }` : ''}),`);
+    }
+}
+
+const source = `// Generated by \`npm run generate:client\` from the API's OpenAPI document (GET /api/openapi.json).
+// Do not edit by hand; change src/routes/schemas.ts or src/routes/openapi.ts and re-run the script.
+/* eslint-disable */
+
+${types.join('\n\n')}
+
+/** A non-2xx answer. \`body\` is the parsed JSON error (ErrorResponse or ValidationError) when there is one. */
+export class ApiError extends Error {
+    constructor(public readonly status: number, public readonly body: unknown) {
+        super(typeof body === 'object' && body !== null && 'error' in body ? String((body as { error: unknown }).error) : \`HTTP \${status}\`);
+        this.name = 'ApiError';
+    }
+}
+
+export interface ApiClientOptions {
+    /** Origin of the API server; default same origin. */
+    baseUrl?: string;
+    fetch?: typeof fetch;
+}
+
+export const createApiClient = (options: ApiClientOptions = {}) => {
+    const baseUrl = (options.baseUrl || '').replace(/\\/$/, '');
+    const doFetch = options.fetch || ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+    const url = (path: string, query?: Record<string, unknown>) => {
+        const search = new URLSearchParams();
+        for (const [key, value] of Object.entries(query || {})) {
+            if (value !== undefined && value !== null) search.set(key, String(value));
+        }
+        const queryString = search.toString();
+        return \`\${baseUrl}\${path}\${queryString ? \`?\${queryString}\` : ''}\`;
+    };
+
+    const send = async <T>(method: string, path: string, request: { query?: Record<string, unknown>; body?: unknown; text?: boolean } = {}): Promise<T> => {
+        const response = await doFetch(url(path, request.query), {
+            method,
+            credentials: 'include',
+            headers: request.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+            body: request.body !== undefined ? JSON.stringify(request.body) : undefined
+        });
+        const text = await response.text();
+        let parsed: unknown = text;
+        if (!request.text && text) {
+            try {
+                parsed = JSON.parse(text);
+            } catch { }
+        }
+        if (!response.ok) throw new ApiError(response.status, parsed);
+        return parsed as T;
+    };
+
+    return {
+${methods.join('\n')}
+    };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+`;
+
+fs.mkdirSync(path.dirname(output), { recursive: true });
+fs.writeFileSync(output, source);
+console.log(`Wrote ${Object.keys(document.paths).length} paths to ${output}`);
@@ -0,0 +1,50 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { FileTrackerStore, TRACKER_FILES, TrackerCollection } from '../utils/trackerStore';
+import { TrackerState } from '../models/TrackerState';
+
+// Copies logs/activity_history.json and logs/schedule_history.json into MongoDB so the bot
+// can run with TRACKER_STORAGE=mongo. Entries already in MongoDB are kept unless --overwrite.
+//   npm run migrate:trackers [-- --overwrite]
+
+dotenv.config();
+
+const overwrite = process.argv.includes('--overwrite');
+
+const migrate = async () => {
+    if (!process.env.MONGODB_URI) {
+        console.error("MONGODB_URI is not set.");
+        process.exit(1);
+    }
+    await mongoose.connect(process.env.MONGODB_URI);
+
+    const fileStore = new FileTrackerStore();
+    for (const collection of Object.keys(TRACKER_FILES) as TrackerCollection[]) {
+        const entries = Object.entries(fileStore.getAll<any>(collection));
+        if (entries.length === 0) {
+            console.log(`${collection}: nothing to migrate (${TRACKER_FILES[collection]}).`);
+            continue;
+        }
+
+        const result = await TrackerState.bulkWrite(entries.map(([accountId, data]) => ({
+            updateOne: {
+                filter: { collectionName: collection, accountId },
+                update: overwrite
+                    ? { $set: { data, updatedAt: new Date() } }
+                    : { $setOnInsert: { data, updatedAt: new Date() } },
+                upsert: true
+            }
+        })));
+        const written = result.upsertedCount + result.modifiedCount;
+        console.log(`${collection}: ${written} of ${entries.length} entries written${overwrite ? '' : ' (existing entries kept)'}.`);
+    }
+
+    await mongoose.disconnect();
+    console.log("Done. Set TRACKER_STORAGE=mongo to use MongoDB for the trackers.");
+};
+
+migrate().catch(async error => {
+    console.error("Tracker migration failed:", error);
+    await mongoose.disconnect().catch(() => {});
+    process.exit(1);
+});
@@ -1,8 +1,12 @@
 import dotenv from "dotenv";
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { promisify } from 'util';
 import { Request } from 'express';
 dotenv.config();
 
+const scrypt = promisify(crypto.scrypt);
+
 export const IGusername: string = process.env.IGusername || "default_IGusername";
 export const IGpassword: string = process.env.IGpassword || "default_IGpassword";
 export const Xusername: string = process.env.Xusername || "default_Xusername";
@@ -16,18 +20,32 @@ export const TWITTER_API_CREDENTIALS = {
   bearerToken: process.env.TWITTER_BEARER_TOKEN || "default_TWITTER_BEARER_TOKEN",
 }
 
-export const geminiApiKeys = (process.env.GEMINI_API_KEYS || "").split(",").filter(key => key.trim() !== "");
+export const parseGeminiApiKeys = (value: string): string[] => value.split(",").map(key => key.trim()).filter(key => key !== "");
+
+// Updated in place by setGeminiApiKeys(), so modules holding the array see new keys at once
+export const geminiApiKeys = parseGeminiApiKeys(process.env.GEMINI_API_KEYS || "");
+
+export function setGeminiApiKeys(keys: string[]) {
+  geminiApiKeys.splice(0, geminiApiKeys.length, ...keys);
+  process.env.GEMINI_API_KEYS = keys.join(",");
+}
 
-const JWT_SECRET = process.env.JWT_SECRET || 'supersecretkey';
+let jwtSecret = process.env.JWT_SECRET || 'supersecretkey';
 const JWT_EXPIRES_IN = '2h';
 
+// Tokens signed with the previous secret stop verifying, which logs everyone out
+export function setJwtSecret(secret: string) {
+  jwtSecret = secret;
+  process.env.JWT_SECRET = secret;
+}
+
 export function signToken(payload: object) {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+  return jwt.sign(payload, jwtSecret, { expiresIn: JWT_EXPIRES_IN });
 }
 
 export function verifyToken(token: string) {
   try {
-    return jwt.verify(token, JWT_SECRET);
+    return jwt.verify(token, jwtSecret);
   } catch (err) {
     return null;
   }
@@ -44,4 +62,21 @@ export function getTokenFromRequest(req: Request): string | null {
     if (match) return match[1];
   }
   return null;
-}
\ No newline at end of file
+}
+
+// Operator passwords are stored as "scrypt:<salt>:<hash>" (hex), never in plain text
+const PASSWORD_KEY_LENGTH = 64;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, PASSWORD_KEY_LENGTH) as Buffer;
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const hash = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length) as Buffer;
+  return hash.length === expected.length && crypto.timingSafeEqual(hash, expected);
+}
@@ -0,0 +1,224 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../config/logger';
+import { ACCOUNTS_CONFIG_PATH, AccountSettings, loadAccountsConfig, validateAccountsConfig } from '../config/accountConfig';
+import { accountManager } from './AccountManager';
+import { strategyRegistry } from './StrategyRegistry';
+import { withFileLock } from '../utils';
+
+// Same directory the account loops check character files against
+const CHARACTERS_DIR = path.join(__dirname, '..', 'Agent', 'characters');
+export const ACCOUNT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export interface AccountConfigView {
+    id: string;
+    username: string;
+    hasPassword: boolean;       // The password itself is never returned
+    proxy: string | null;       // Proxy password masked
+    character: string | null;
+    userDataDir: string | null;
+    enabled: boolean;
+    settings: AccountSettings;
+    running: boolean;           // Has a running loop right now
+}
+
+export interface CreateAccountConfigInput {
+    id: string;
+    username: string;
+    password: string;
+    proxy?: string;
+    character?: string;
+    userDataDir?: string;
+    enabled?: boolean;          // Default false
+    settings?: AccountSettings;
+}
+
+export interface UpdateAccountConfigInput {
+    character?: string | null;  // null removes it (adrian-style)
+    userDataDir?: string | null;
+    enabled?: boolean;
+    settings?: AccountSettings; // Replaces the whole settings object
+}
+
+export interface AccountCredentialsInput {
+    username?: string;
+    password?: string;
+    proxy?: string | null;      // null or "" removes it
+}
+
+// Loops started, stopped and updated by the reload after a change
+export interface AccountsReload {
+    started: string[];
+    stopped: string[];
+    updated: string[];
+}
+
+export interface AccountConfigChange extends AccountsReload {
+    account: AccountConfigView;
+}
+
+type AccountConfigResult<T> = T | { error: string; status: number };
+
+const maskProxy = (proxy: string): string => {
+    try {
+        const url = new URL(proxy);
+        if (url.password) url.password = '***';
+        return url.toString();
+    } catch {
+        return '***';
+    }
+};
+
+const toView = (account: Record<string, any>): AccountConfigView => ({
+    id: account.id,
+    username: typeof account.username === 'string' ? account.username : '',
+    hasPassword: typeof account.password === 'string' && account.password.trim() !== '',
+    proxy: typeof account.proxy === 'string' && account.proxy.trim() !== '' ? maskProxy(account.proxy) : null,
+    character: account.character ?? null,
+    userDataDir: account.userDataDir ?? null,
+    enabled: account.enabled === true,
+    settings: account.settings || {},
+    running: accountManager.getAccountStatus(account.id) !== null
+});
+
+/**
+ * Admin edits of accounts.json: adding, editing, enabling and disabling accounts and changing
+ * their credentials. Each edit reads, validates (like a reload would) and replaces the file
+ * under the accounts.json lock, so edits from concurrent requests or another process don't
+ * overwrite each other, and the rename means the hot-reload watcher never sees a partial file.
+ * The change is then applied at once through accountManager.reload() (new settings take effect
+ * from the account's next cycle). Passwords are write-only: views only say whether one is set.
+ */
+export class AccountConfigs {
+    public list(): AccountConfigResult<AccountConfigView[]> {
+        const accounts = this.read();
+        if ('error' in accounts) return accounts;
+        return accounts.filter(account => typeof account?.id === 'string').map(toView);
+    }
+
+    public get(id: string): AccountConfigResult<AccountConfigView> | null {
+        const accounts = this.read();
+        if ('error' in accounts) return accounts;
+        const account = accounts.find(candidate => candidate?.id === id);
+        return account ? toView(account) : null;
+    }
+
+    public create(input: CreateAccountConfigInput): AccountConfigResult<AccountConfigChange> {
+        if (!ACCOUNT_ID_PATTERN.test(input.id)) return { error: 'Account ids use letters, digits, ".", "_" and "-"', status: 400 };
+        const account: Record<string, any> = {
+            id: input.id,
+            username: input.username,
+            password: input.password,
+            ...(input.proxy ? { proxy: input.proxy } : {}),
+            ...(input.character ? { character: input.character } : {}),
+            settings: input.settings || {},
+            userDataDir: input.userDataDir || `./profiles/${input.id}`,
+            enabled: input.enabled ?? false
+        };
+        const written = withFileLock(ACCOUNTS_CONFIG_PATH, () => {
+            const accounts = this.read();
+            if ('error' in accounts) return accounts;
+            if (accounts.some(candidate => candidate?.id === input.id)) return { error: `Account ${input.id} already exists`, status: 409 };
+            return this.write([...accounts, account], input.id, 'created');
+        });
+        if (written !== true) return written;
+        return { account: toView(account), ...accountManager.reload() };
+    }
+
+    public update(id: string, input: UpdateAccountConfigInput): AccountConfigResult<AccountConfigChange> | null {
+        return this.change(id, account => {
+            for (const key of ['character', 'userDataDir'] as const) {
+                if (input[key] === null) delete account[key];
+                else if (input[key] !== undefined) account[key] = input[key];
+            }
+            if (input.enabled !== undefined) account.enabled = input.enabled;
+            if (input.settings !== undefined) account.settings = input.settings;
+        }, 'updated');
+    }
+
+    public setEnabled(id: string, enabled: boolean): AccountConfigResult<AccountConfigChange> | null {
+        return this.change(id, account => {
+            account.enabled = enabled;
+        }, enabled ? 'enabled' : 'disabled');
+    }
+
+    /**
+     * Changes the Instagram login or the proxy. A running account logs in with them when its
+     * next session opens.
+     */
+    public setCredentials(id: string, input: AccountCredentialsInput): AccountConfigResult<AccountConfigChange> | null {
+        return this.change(id, account => {
+            if (input.username !== undefined) account.username = input.username;
+            if (input.password !== undefined) account.password = input.password;
+            if (input.proxy === null || input.proxy === '') delete account.proxy;
+            else if (input.proxy !== undefined) account.proxy = input.proxy;
+        }, 'credentials changed');
+    }
+
+    /**
+     * Removes a disabled account from accounts.json. Its browser profile and history are kept.
+     */
+    public remove(id: string): AccountConfigResult<true> | null {
+        const written = withFileLock(ACCOUNTS_CONFIG_PATH, () => {
+            const accounts = this.read();
+            if ('error' in accounts) return accounts;
+            const account = accounts.find(candidate => candidate?.id === id);
+            if (!account) return null;
+            if (account.enabled === true) return { error: `Account ${id} is enabled. Disable it first.`, status: 409 };
+            return this.write(accounts.filter(candidate => candidate !== account), id, 'deleted', false);
+        });
+        if (written !== true) return written;
+        accountManager.reload();
+        return true;
+    }
+
+    private change(id: string, edit: (account: Record<string, any>) => void, verb: string): AccountConfigResult<AccountConfigChange> | null {
+        let account: Record<string, any> = {};
+        const written = withFileLock(ACCOUNTS_CONFIG_PATH, () => {
+            const accounts = this.read();
+            if ('error' in accounts) return accounts;
+            const index = accounts.findIndex(candidate => candidate?.id === id);
+            if (index === -1) return null;
+            account = { ...accounts[index] };
+            edit(account);
+            return this.write(accounts.map((candidate, i) => (i === index ? account : candidate)), id, verb);
+        });
+        if (written !== true) return written;
+        return { account: toView(account), ...accountManager.reload() };
+    }
+
+    private read(): AccountConfigResult<any[]> {
+        let raw: unknown;
+        try {
+            raw = fs.existsSync(ACCOUNTS_CONFIG_PATH) ? loadAccountsConfig() : [];
+        } catch (error) {
+            return { error: `accounts.json can't be read: ${(error as Error).message}. Fix it on disk first.`, status: 409 };
+        }
+        if (!Array.isArray(raw)) return { error: 'accounts.json must contain a JSON array of accounts. Fix it on disk first.', status: 409 };
+        return raw;
+    }
+
+    /**
+     * Validates the new account list, refusing changes that leave errors in the edited account,
+     * then replaces accounts.json (temp file + rename). Called with the accounts.json lock held.
+     */
+    private write(accounts: any[], id: string, verb: string, validate: boolean = true): AccountConfigResult<true> {
+        if (validate) {
+            const index = accounts.findIndex(candidate => candidate?.id === id);
+            const validation = validateAccountsConfig(accounts, CHARACTERS_DIR, strategyRegistry.getValidators());
+            const errors = validation.issues.filter(issue => issue.severity === 'error'
+                && (issue.path === `accounts[${index}]` || issue.path.startsWith(`accounts[${index}].`)));
+            if (errors.length > 0) {
+                return { error: `Invalid account: ${errors.map(issue => `${issue.path.replace(`accounts[${index}]`, id)}: ${issue.message}`).join(' ')}`, status: 400 };
+            }
+        }
+
+        const tempFile = `${ACCOUNTS_CONFIG_PATH}.${process.pid}.tmp`;
+        fs.writeFileSync(tempFile, `${JSON.stringify(accounts, null, 4)}\n`);
+        fs.renameSync(tempFile, ACCOUNTS_CONFIG_PATH);
+        logger.info(`Account ${id} ${verb} in accounts.json.`);
+        return true;
+    }
+}
+
+export const accountConfigs = new AccountConfigs();
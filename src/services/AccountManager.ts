@@ -0,0 +1,955 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import logger, { createAccountLogger } from '../config/logger';
+import {
+    ACCOUNTS_CONFIG_PATH, AccountConfig, ConfigIssue, describeEffectiveSettings,
+    EffectiveAccountSettings, loadAccountsConfig, resolveAccountSettings, validateAccountsConfig
+} from '../config/accountConfig';
+import { ActivityTracker, EffectiveLimit, pLimit, ScheduleTracker, TrackedAction } from '../utils';
+import { IgClient } from '../client/IG-bot/IgClient';
+import { chooseCharacter } from '../Agent';
+import { EmailService } from './EmailService';
+import { strategyRegistry } from './StrategyRegistry';
+import { eventBus } from './EventBus';
+import { trackLimiter } from './Metrics';
+
+// How often an idle account loop re-checks its schedule
+const LOOP_INTERVAL_MS = 30000;
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms).unref());
+
+const CHARACTERS_DIR = path.join(__dirname, '..', 'Agent', 'characters');
+
+export type RunNowMode = 'full' | 'dms';
+
+// 'interaction' actions take a heavy interaction slot and a session slot, 'session' only a session slot
+export type AccountActionKind = 'interaction' | 'session';
+
+export interface AccountActionContext {
+    igClient: IgClient;
+    account: AccountConfig;
+    effective: EffectiveAccountSettings;
+    sessionId: string;               // Journal/event session id of this action
+    logger: any;
+}
+
+interface QueuedAction {
+    name: string;
+    kind: AccountActionKind;
+    run: (context: AccountActionContext) => Promise<any>;
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+    signal?: AbortSignal;
+}
+
+interface AccountLoop {
+    account: AccountConfig;
+    stopRequested: boolean;
+    running: Promise<void> | null;   // In-flight processAccount() call, if any
+    wake: (() => void) | null;       // Cuts the idle wait short (used on stop and run-now)
+    done: Promise<void>;
+    runNow: RunNowMode | null;       // Operator-forced cycle, consumed by the next processAccount()
+    cancelRequested: boolean;        // Operator cancelled the current cycle
+    actions: QueuedAction[];         // API actions waiting to run between cycles
+    currentAction: string | null;
+}
+
+export interface AccountStatus {
+    id: string;
+    username: string;
+    paused: boolean;
+    pausedSince: string | null;
+    pausedUntil: string | null;      // null while paused = until resumed
+    cycleRunning: boolean;           // A cycle is running or waiting for a limiter slot
+    sessionOpen: boolean;            // A browser session is open
+    runNowPending: RunNowMode | null;
+    currentAction: string | null;    // API action running or waiting for a limiter slot
+    queuedActions: string[];
+    autoDMsEnabled: boolean;
+    dryRun: boolean;
+    nextActiveTime: string | null;   // End of the current rest period
+    timezone: string | null;         // Account timezone, null = server time
+    inActiveHours: boolean;
+    nextWakeUp: string | null;       // Next time a full cycle can start (pause, rest and active hours combined)
+}
+
+export interface AccountLimitsReport {
+    id: string;
+    dryRun: boolean;                 // Dry runs count against their own history
+    warming: {
+        enabled: boolean;
+        startedAt: string | null;
+        day: number;
+        percent: number;
+    };
+    limits: EffectiveLimit[];
+}
+
+export const getTrackerId = (account: AccountConfig) =>
+    account.userDataDir ? path.basename(account.userDataDir) : account.username;
+
+/**
+ * Owns the per-account Instagram loops, their persistent browser sessions and the
+ * shared concurrency pools. Accounts can be added, removed or edited at runtime:
+ * reload() diffs the configured accounts against the running loops.
+ */
+export class AccountManager {
+    // Registry for active persistent sessions
+    public readonly activeSessions = new Map<string, IgClient>();
+
+    // Global session limiter to enforce MAX_CONCURRENT_SESSIONS across independent loops
+    public readonly maxConcurrent = parseInt(process.env.MAX_CONCURRENT_SESSIONS || '5', 10);
+    public readonly sessionLimit = pLimit(this.maxConcurrent);
+
+    // Concurrency limiter for heavy interaction tasks (likes, comments, etc.) to prevent blocking DM checks
+    public readonly maxConcurrentInteractions = process.env.MAX_CONCURRENT_INTERACTIONS
+        ? parseInt(process.env.MAX_CONCURRENT_INTERACTIONS, 10)
+        : Math.min(this.maxConcurrent, 5);
+    public readonly interactionLimit = pLimit(this.maxConcurrentInteractions);
+
+    private loops = new Map<string, AccountLoop>();
+    private stopping = new Map<string, Promise<void>>(); // Loops finishing their last cycle
+    private emailService?: EmailService;
+    private watching = false;
+    private reloadTimer: NodeJS.Timeout | null = null;
+    private shuttingDown = false;
+
+    constructor() {
+        trackLimiter('sessions', this.sessionLimit);
+        trackLimiter('interactions', this.interactionLimit);
+    }
+
+    /**
+     * Loads accounts.json, starts a loop for every enabled account and begins watching
+     * the file for changes.
+     */
+    public start(emailService?: EmailService) {
+        this.emailService = emailService;
+        this.reload();
+        this.watchConfig();
+    }
+
+    public getRunningAccountIds(): string[] {
+        return Array.from(this.loops.keys());
+    }
+
+    /**
+     * Re-reads accounts.json and reconciles it with the running loops:
+     * new or newly enabled accounts are started, removed or disabled ones are stopped,
+     * and changed settings are handed to the existing loop for its next cycle.
+     */
+    public reload(): { started: string[]; stopped: string[]; updated: string[] } {
+        const result = { started: [] as string[], stopped: [] as string[], updated: [] as string[] };
+        if (this.shuttingDown) {
+            logger.warn("Shutdown in progress. Ignoring accounts reload.");
+            return result;
+        }
+
+        let accounts: AccountConfig[];
+        let invalidIds: Set<string>;
+        try {
+            const validation = validateAccountsConfig(loadAccountsConfig(), CHARACTERS_DIR, strategyRegistry.getValidators());
+            this.logConfigIssues(validation.issues);
+            if (validation.issues.some(i => i.path === 'accounts' && i.severity === 'error')) {
+                logger.error("accounts.json is unusable. Keeping current accounts.");
+                return result;
+            }
+            accounts = validation.accounts;
+            invalidIds = validation.invalidIds;
+        } catch (err: any) {
+            logger.error(`Failed to load accounts config (${ACCOUNTS_CONFIG_PATH}): ${err.message || err}. Keeping current accounts.`);
+            return result;
+        }
+
+        const enabledAccounts = accounts.filter(a => {
+            if (a.enabled !== true) return false;
+            if (invalidIds.has(a.id)) {
+                logger.error(`Refusing to start account ${a.id}: accounts.json has fatal errors for it (see above).`);
+                return false;
+            }
+            return true;
+        });
+        const enabledIds = new Set(enabledAccounts.map(a => a.id));
+
+        for (const [id] of this.loops) {
+            if (!enabledIds.has(id)) {
+                this.stopAccountLoop(id);
+                result.stopped.push(id);
+            }
+        }
+
+        for (const account of enabledAccounts) {
+            const loop = this.loops.get(account.id);
+            if (!loop) {
+                this.startAccountLoop(account);
+                result.started.push(account.id);
+                this.logEffectiveSettings(account);
+            } else if (JSON.stringify(loop.account) !== JSON.stringify(account)) {
+                loop.account = account;
+                result.updated.push(account.id);
+                createAccountLogger(account.id).info("Account settings changed. New settings apply from the next cycle.");
+                this.logEffectiveSettings(account);
+            }
+        }
+
+        if (enabledAccounts.length === 0) {
+            logger.info("No enabled Instagram accounts found. Waiting for accounts.json changes.");
+        } else {
+            logger.info(`Enabled Instagram accounts: ${enabledAccounts.map(a => a.id).join(', ')}`);
+        }
+        if (result.started.length || result.stopped.length || result.updated.length) {
+            logger.info(`Accounts reloaded. Started: [${result.started.join(', ')}], Stopped: [${result.stopped.join(', ')}], Updated: [${result.updated.join(', ')}]`);
+        }
+        return result;
+    }
+
+    private logConfigIssues(issues: ConfigIssue[]) {
+        if (issues.length === 0) return;
+        const errors = issues.filter(i => i.severity === 'error').length;
+        logger.warn(`accounts.json: ${errors} error(s), ${issues.length - errors} warning(s).`);
+        for (const issue of issues) {
+            const line = `  ${issue.path}: ${issue.message}`;
+            if (issue.severity === 'error') logger.error(line);
+            else logger.warn(line);
+        }
+    }
+
+    private logEffectiveSettings(account: AccountConfig) {
+        const character = chooseCharacter(account.character);
+        const effective = resolveAccountSettings(account, character);
+        createAccountLogger(account.id).info(`Effective settings (character "${account.character || 'adrian-style'}" + account overrides): ${describeEffectiveSettings(effective)}`);
+    }
+
+    /**
+     * Polls accounts.json for changes. watchFile is used instead of fs.watch because editors
+     * often replace the file on save, which silently breaks fs.watch handles.
+     */
+    private watchConfig() {
+        if (this.watching) return;
+        this.watching = true;
+
+        fs.watchFile(ACCOUNTS_CONFIG_PATH, { interval: 2000 }, (curr, prev) => {
+            if (curr.mtimeMs === prev.mtimeMs) return;
+            // Debounce bursts of writes from editors
+            if (this.reloadTimer) clearTimeout(this.reloadTimer);
+            this.reloadTimer = setTimeout(() => {
+                this.reloadTimer = null;
+                logger.info(`${path.basename(ACCOUNTS_CONFIG_PATH)} changed on disk. Reloading accounts...`);
+                this.reload();
+            }, 1000);
+        });
+        logger.info(`Watching ${ACCOUNTS_CONFIG_PATH} for account changes.`);
+    }
+
+    public unwatchConfig() {
+        if (!this.watching) return;
+        fs.unwatchFile(ACCOUNTS_CONFIG_PATH);
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.watching = false;
+    }
+
+    private startAccountLoop(account: AccountConfig) {
+        const accountLogger = createAccountLogger(account.id);
+        accountLogger.info(`Starting independent loop for account: ${account.id} (${account.username})`);
+
+        const loop: AccountLoop = {
+            account, stopRequested: false, running: null, wake: null, done: Promise.resolve(),
+            runNow: null, cancelRequested: false, actions: [], currentAction: null
+        };
+        this.loops.set(account.id, loop);
+
+        // If the account was just disabled and re-enabled, let the old loop finish first
+        const previous = this.stopping.get(account.id);
+
+        loop.done = (async () => {
+            if (previous) await previous;
+            while (!loop.stopRequested) {
+                try {
+                    // API actions run between cycles so they never share the page with one
+                    loop.running = this.runQueuedActions(loop);
+                    await loop.running;
+                    if (!loop.stopRequested) {
+                        loop.running = this.processAccount(loop.account);
+                        await loop.running;
+                    }
+                } catch (err) {
+                    accountLogger.error(`Error in loop for account ${loop.account.id}: ${err}`);
+                } finally {
+                    loop.running = null;
+                }
+                if (loop.stopRequested) break;
+
+                // Check schedule again every 30 seconds
+                await new Promise<void>(resolve => {
+                    const timer = setTimeout(resolve, LOOP_INTERVAL_MS);
+                    loop.wake = () => {
+                        clearTimeout(timer);
+                        resolve();
+                    };
+                });
+                loop.wake = null;
+            }
+
+            for (const action of loop.actions.splice(0)) {
+                action.reject(new Error("Account loop stopped"));
+            }
+            await this.closeSession(account.id, "account loop stopped");
+            accountLogger.info(`Loop stopped for account: ${account.id}`);
+        })();
+    }
+
+    /**
+     * Stops an account loop. A cycle that is already running is allowed to finish
+     * (its session is closed at the end as usual); an idle loop exits immediately.
+     */
+    public stopAccountLoop(accountId: string): Promise<void> {
+        const loop = this.loops.get(accountId);
+        if (!loop) return Promise.resolve();
+
+        loop.stopRequested = true;
+        this.loops.delete(accountId);
+        const stopped = loop.done.finally(() => {
+            if (this.stopping.get(accountId) === stopped) this.stopping.delete(accountId);
+        });
+        this.stopping.set(accountId, stopped);
+        createAccountLogger(accountId).info(loop.running
+            ? "Stop requested. Waiting for the current cycle to finish..."
+            : "Stop requested.");
+        loop.wake?.();
+        return stopped;
+    }
+
+    public getAccountStatus(accountId: string): AccountStatus | null {
+        const loop = this.loops.get(accountId);
+        if (!loop) return null;
+        const { account } = loop;
+        const scheduleTracker = new ScheduleTracker(getTrackerId(account));
+        const pause = scheduleTracker.getPause();
+        const nextActiveTime = scheduleTracker.getNextActiveTime();
+        const effective = resolveAccountSettings(account, chooseCharacter(account.character));
+        const now = Date.now();
+        const earliestStart = Math.max(now, nextActiveTime, pause?.until || 0);
+        const nextWakeUp = pause && pause.until === null ? null : ScheduleTracker.getNextWakeUp(effective.schedule, earliestStart);
+        return {
+            id: account.id,
+            username: account.username,
+            paused: !!pause,
+            pausedSince: pause ? new Date(pause.since).toISOString() : null,
+            pausedUntil: pause?.until ? new Date(pause.until).toISOString() : null,
+            cycleRunning: !!loop.running,
+            sessionOpen: this.activeSessions.has(account.id),
+            runNowPending: loop.runNow,
+            currentAction: loop.currentAction,
+            queuedActions: loop.actions.map(a => a.name),
+            autoDMsEnabled: effective.behavior.enableAutoDMs,
+            dryRun: effective.dryRun,
+            nextActiveTime: nextActiveTime > now ? new Date(nextActiveTime).toISOString() : null,
+            timezone: effective.schedule.timezone || null,
+            inActiveHours: ScheduleTracker.isActiveTime(effective.schedule, now),
+            nextWakeUp: nextWakeUp ? new Date(nextWakeUp).toISOString() : null
+        };
+    }
+
+    public getAllAccountStatus(): AccountStatus[] {
+        return Array.from(this.loops.keys()).map(id => this.getAccountStatus(id)!);
+    }
+
+    /**
+     * Pauses an account until the given time (or until resumed when null). A cycle that
+     * is already running finishes normally; use cancelCycle() to cut it short.
+     */
+    public pauseAccount(accountId: string, until: number | null): AccountStatus | null {
+        const loop = this.loops.get(accountId);
+        if (!loop) return null;
+        new ScheduleTracker(getTrackerId(loop.account)).setPause(until);
+        loop.runNow = null;
+        createAccountLogger(accountId).info(`Paused by operator ${until ? `until ${new Date(until).toISOString()}` : 'until resumed'}.`);
+        eventBus.publish('account.paused', accountId, `Paused ${until ? `until ${new Date(until).toISOString()}` : 'until resumed'}`, {
+            until: until ? new Date(until).toISOString() : null
+        });
+        return this.getAccountStatus(accountId);
+    }
+
+    public resumeAccount(accountId: string): AccountStatus | null {
+        const loop = this.loops.get(accountId);
+        if (!loop) return null;
+        new ScheduleTracker(getTrackerId(loop.account)).clearPause();
+        createAccountLogger(accountId).info("Resumed by operator.");
+        eventBus.publish('account.resumed', accountId, 'Resumed');
+        loop.wake?.();
+        return this.getAccountStatus(accountId);
+    }
+
+    /**
+     * Forces a cycle on the next loop iteration, skipping the sleep and rest windows.
+     * Full cycles still wait for a heavy interaction slot, and the hourly limits still apply.
+     */
+    public runNow(accountId: string, mode: RunNowMode): AccountStatus | null {
+        const loop = this.loops.get(accountId);
+        if (!loop) return null;
+        loop.runNow = mode;
+        createAccountLogger(accountId).info(`Operator requested an immediate ${mode === 'dms' ? 'DM-only' : 'full'} cycle${loop.running ? ' (after the current cycle)' : ''}.`);
+        loop.wake?.();
+        return this.getAccountStatus(accountId);
+    }
+
+    /**
+     * Cancels the running cycle: a session stops after its current action, a cycle still
+     * waiting for a limiter slot is dropped. Returns false if nothing was running.
+     */
+    public cancelCycle(accountId: string): boolean {
+        const loop = this.loops.get(accountId);
+        if (!loop || !loop.running) return false;
+        loop.cancelRequested = true;
+        this.activeSessions.get(accountId)?.requestStop("cancelled by operator");
+        createAccountLogger(accountId).info("Current cycle cancelled by operator.");
+        return true;
+    }
+
+    /**
+     * Queues an operator action (e.g. from /api/accounts/:id/...) on the account's loop. It runs
+     * between cycles with the account's own session, character, proxy and limits, after taking
+     * the same limiter slots as a cycle. Resolves with the action's result; returns null when
+     * the account has no running loop. Aborting `signal` drops a queued action and asks a
+     * running one to stop after its current step (it then resolves with its partial result).
+     */
+    public runAccountAction<T>(accountId: string, name: string, kind: AccountActionKind,
+        run: (context: AccountActionContext) => Promise<T>, signal?: AbortSignal): Promise<T> | null {
+        const loop = this.loops.get(accountId);
+        if (!loop || this.shuttingDown) return null;
+        let onAbort: (() => void) | undefined;
+        const result = new Promise<T>((resolve, reject) => {
+            const action: QueuedAction = { name, kind, run, resolve, reject, signal };
+            onAbort = () => {
+                const index = loop.actions.indexOf(action);
+                if (index === -1) return; // Already running, handled in runAction()
+                loop.actions.splice(index, 1);
+                reject(new Error("Action was cancelled"));
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            loop.actions.push(action);
+            createAccountLogger(accountId).info(`Operator action "${name}" queued${loop.running ? ' (after the current cycle)' : ''}.`);
+            loop.wake?.();
+        });
+        // A settled action no longer needs its listener on the signal
+        return result.finally(() => {
+            if (onAbort) signal?.removeEventListener('abort', onAbort);
+        });
+    }
+
+    /**
+     * Drops the account's queued operator actions and ends its session: a running cycle or
+     * action is asked to stop (its session closes when it winds down), an idle session is
+     * closed at once.
+     */
+    public async exitSession(accountId: string): Promise<AccountStatus | null> {
+        const loop = this.loops.get(accountId);
+        if (!loop) return null;
+        for (const action of loop.actions.splice(0)) {
+            action.reject(new Error("Session ended by operator"));
+        }
+        if (loop.running) {
+            this.cancelCycle(accountId);
+        } else {
+            await this.closeSession(accountId, "ended by operator");
+        }
+        return this.getAccountStatus(accountId);
+    }
+
+    public getAccountConfig(accountId: string): AccountConfig | null {
+        return this.loops.get(accountId)?.account || null;
+    }
+
+    public getEffectiveSettings(accountId: string): EffectiveAccountSettings | null {
+        const loop = this.loops.get(accountId);
+        if (!loop) return null;
+        return resolveAccountSettings(loop.account, chooseCharacter(loop.account.character));
+    }
+
+    private async runQueuedActions(loop: AccountLoop) {
+        while (loop.actions.length > 0 && !loop.stopRequested && !this.shuttingDown) {
+            const action = loop.actions.shift()!;
+            loop.currentAction = action.name;
+            loop.cancelRequested = false;
+            try {
+                action.resolve(await this.runAction(loop, action));
+            } catch (error: any) {
+                action.reject(error instanceof Error ? error : new Error(String(error)));
+            } finally {
+                loop.currentAction = null;
+            }
+        }
+    }
+
+    private async runAction(loop: AccountLoop, action: QueuedAction) {
+        const { account } = loop;
+        const accountLogger = createAccountLogger(account.id);
+        if (new ScheduleTracker(getTrackerId(account)).getPause()) {
+            throw new Error("Account is paused");
+        }
+        const character = chooseCharacter(account.character);
+        const effective = resolveAccountSettings(account, character);
+
+        const runSession = async () => {
+            if (this.shuttingDown || loop.stopRequested) throw new Error("Account loop stopped");
+            if (loop.cancelRequested || action.signal?.aborted) throw new Error("Action was cancelled");
+
+            // Session actions (DMs, scraping) default to headless like DM-only cycles
+            const igClient = this.getSession(account, effective, character, action.kind === 'session', accountLogger);
+            const sessionId = randomUUID();
+            igClient.setJournalContext({ account: account.id, sessionId, strategy: 'api' });
+            accountLogger.info(`Running operator action "${action.name}" (session id: ${sessionId}).`);
+            eventBus.publish('session.started', account.id, `Operator action "${action.name}"`, { sessionId, kind: 'action', action: action.name });
+            const startedAt = Date.now();
+            let outcome = 'failed';
+            const onAbort = () => igClient.requestStop("cancelled by operator");
+            action.signal?.addEventListener('abort', onAbort, { once: true });
+            try {
+                await igClient.init();
+                const result = await action.run({ igClient, account, effective, sessionId, logger: accountLogger });
+                outcome = action.signal?.aborted ? 'cancelled' : 'finished';
+                return result;
+            } finally {
+                action.signal?.removeEventListener('abort', onAbort);
+                await this.closeSession(account.id, `operator action "${action.name}" finished`);
+                eventBus.publish('session.ended', account.id, `Operator action "${action.name}" ${outcome}`, {
+                    sessionId, kind: 'action', action: action.name, outcome, durationMs: Date.now() - startedAt
+                });
+            }
+        };
+
+        if (action.kind === 'session') return this.sessionLimit(runSession);
+        return this.interactionLimit(() => this.sessionLimit(runSession));
+    }
+
+    /**
+     * Returns the account's open session, or creates (but does not init) one with the account's
+     * proxy, languages, limits and character.
+     */
+    private getSession(account: AccountConfig, effective: EffectiveAccountSettings, character: any,
+        defaultHeadless: boolean, accountLogger: any): IgClient {
+        let igClient = this.activeSessions.get(account.id);
+
+        // If client exists but disconnected, clear it
+        if (igClient && !igClient.isConnected()) {
+            this.activeSessions.delete(account.id);
+            igClient = undefined;
+        }
+
+        if (igClient) {
+            accountLogger.info("Reusing active browser session.");
+            return igClient;
+        }
+
+        const headlessMode = effective.headless !== undefined
+            ? effective.headless
+            : (process.env.HEADLESS !== undefined
+                    ? process.env.HEADLESS === 'true'
+                    : defaultHeadless);
+
+        igClient = new IgClient({
+            username: account.username,
+            password: account.password,
+            userDataDir: account.userDataDir,
+            proxy: account.proxy,
+            languages: effective.languages,
+            defaultLanguage: effective.defaultLanguage,
+            headless: headlessMode,
+            dryRun: effective.dryRun,
+            quotas: effective.quotas,
+            warming: effective.warming
+        }, accountLogger, character, this.emailService);
+
+        this.activeSessions.set(account.id, igClient);
+        return igClient;
+    }
+
+    /**
+     * Effective hourly/daily/weekly limits of each action after warming, with current usage.
+     */
+    public getEffectiveLimits(accountId: string): AccountLimitsReport | null {
+        const loop = this.loops.get(accountId);
+        if (!loop) return null;
+        const effective = resolveAccountSettings(loop.account, chooseCharacter(loop.account.character));
+        const tracker = this.createActivityTracker(loop.account, effective);
+        const perHour: Record<TrackedAction, number> = {
+            likes: effective.limits.likesPerHour,
+            comments: effective.limits.commentsPerHour,
+            dms: effective.limits.dmsPerHour,
+            dmRequests: effective.limits.dmRequestsPerHour,
+            follows: effective.limits.followsPerHour,
+            unfollows: effective.limits.unfollowsPerHour,
+            storyViews: effective.limits.storyViewsPerHour,
+            storyReactions: effective.limits.storyReactionsPerHour,
+            storyReplies: effective.limits.storyRepliesPerHour,
+            posts: effective.limits.postsPerHour
+        };
+        const startedAt = tracker.getWarmingStart();
+        return {
+            id: accountId,
+            dryRun: effective.dryRun,
+            warming: {
+                enabled: !!effective.warming,
+                startedAt: startedAt ? new Date(startedAt).toISOString() : null,
+                day: Math.floor(tracker.getWarmingDay()),
+                percent: Math.round(tracker.getWarmingPercent())
+            },
+            limits: (Object.keys(perHour) as TrackedAction[]).map(action => tracker.getEffectiveLimit(action, perHour[action]))
+        };
+    }
+
+    /**
+     * Restarts the account's warming curve (e.g. after an action block), optionally part-way
+     * through at the given day.
+     */
+    public restartWarming(accountId: string, day: number = 0): AccountLimitsReport | null {
+        const loop = this.loops.get(accountId);
+        if (!loop) return null;
+        const effective = resolveAccountSettings(loop.account, chooseCharacter(loop.account.character));
+        this.createActivityTracker(loop.account, effective).restartWarming(day);
+        createAccountLogger(accountId).info(`Warming restarted by operator at day ${day}.`);
+        return this.getEffectiveLimits(accountId);
+    }
+
+    private createActivityTracker(account: AccountConfig, effective: EffectiveAccountSettings): ActivityTracker {
+        // Dry runs keep their own activity history (see IgClient)
+        const trackerId = getTrackerId(account);
+        return new ActivityTracker(effective.dryRun ? `${trackerId}.dry-run` : trackerId, {
+            quotas: effective.quotas,
+            warming: effective.warming
+        });
+    }
+
+    /**
+     * Stops every account loop for process shutdown. No new cycles start; running sessions
+     * are asked to stop after their current like/comment/DM and get until the deadline to
+     * wind down (their finally blocks write the schedule tracker). Sessions still running
+     * after the deadline have their browsers closed, which aborts the pending page calls.
+     */
+    public async shutdown(deadlineMs: number): Promise<void> {
+        this.shuttingDown = true;
+        this.unwatchConfig();
+
+        const ids = Array.from(this.loops.keys());
+        const stopped = ids.map(id => this.stopAccountLoop(id));
+        stopped.push(...this.stopping.values());
+        for (const client of this.activeSessions.values()) {
+            client.requestStop("shutdown");
+        }
+
+        const allStopped = Promise.all(stopped).then(() => true);
+        const inTime = await Promise.race([
+            allStopped,
+            new Promise<boolean>(resolve => setTimeout(() => resolve(false), deadlineMs).unref())
+        ]);
+
+        if (!inTime) {
+            const remaining = Array.from(this.activeSessions.keys());
+            logger.warn(`Shutdown deadline reached. Closing ${remaining.length} session(s) still running: [${remaining.join(', ')}]`);
+            await Promise.all(remaining.map(id => this.closeSession(id, "shutdown deadline reached")));
+            // Give the interrupted cycles a moment to run their finally blocks
+            await Promise.race([allStopped, delay(5000)]);
+        }
+
+        // Anything left (e.g. a session created while we were closing the others)
+        await Promise.all(Array.from(this.activeSessions.keys()).map(id => this.closeSession(id, "shutdown")));
+        logger.info(`All account loops stopped (${ids.length} account(s)).`);
+    }
+
+    private async closeSession(accountId: string, reason: string) {
+        const client = this.activeSessions.get(accountId);
+        if (!client) return;
+        this.activeSessions.delete(accountId);
+        await client.close();
+        createAccountLogger(accountId).info(`Closed persistent session (${reason}).`);
+    }
+
+    private async processAccount(account: AccountConfig) {
+        // Stagger start slightly (0-5s) to avoid CPU spikes if multiple launch at once
+        const stagger = Math.floor(Math.random() * 5000);
+        await new Promise(r => setTimeout(r, stagger));
+        if (this.shuttingDown) return;
+
+        // Consume operator controls for this cycle
+        const loop = this.loops.get(account.id);
+        const forcedMode = loop?.runNow ?? null;
+        if (loop) {
+            loop.runNow = null;
+            loop.cancelRequested = false;
+        }
+
+        const accountLogger = createAccountLogger(account.id);
+        accountLogger.info(`>>> Starting session for account: ${account.id} (${account.username}) <<<`);
+
+        try {
+            // Load specific character for this account
+            const character = chooseCharacter(account.character);
+            accountLogger.info(`Loaded character: ${character?.aiPersona?.name || "Default/Unknown"}`);
+
+            // --- SETTINGS MERGE ---
+            // Hard defaults < character defaults < account overrides (accounts.json)
+            const effective = resolveAccountSettings(account, character);
+            const { behavior, limits } = effective;
+            const scheduleSettings = effective.schedule;
+            const dmIntervalMs = scheduleSettings.dmCheckIntervalMinutes * 60 * 1000;
+
+            // --- PRE-RUN AVAILABILITY CHECK ---
+            const trackerId = getTrackerId(account);
+
+            // Check human-like schedule cycles
+            const scheduleTracker = new ScheduleTracker(trackerId);
+
+            const pause = scheduleTracker.getPause();
+            if (pause) {
+                accountLogger.info(`Account is paused by operator ${pause.until ? `until ${new Date(pause.until).toISOString()}` : 'until resumed'}. Skipping check.`);
+
+                const existingClient = this.activeSessions.get(account.id);
+                if (existingClient) {
+                    await existingClient.close();
+                    this.activeSessions.delete(account.id);
+                    accountLogger.info("Closed persistent session while paused.");
+                }
+                return;
+            }
+
+            if (forcedMode) {
+                accountLogger.info(`Running operator-requested ${forcedMode === 'dms' ? 'DM-only' : 'full'} cycle (skipping sleep and rest windows).`);
+            } else if (!ScheduleTracker.isActiveTime(scheduleSettings)) {
+                // Outside the account's active hours, evaluated in the account's own timezone
+                const wakeUp = ScheduleTracker.getNextWakeUp(scheduleSettings);
+                accountLogger.info(`Account is outside its active hours (${ScheduleTracker.describeActiveHours(scheduleSettings)}). ` +
+                    (wakeUp ? `Next wake-up: ${ScheduleTracker.formatLocalTime(wakeUp, scheduleSettings.timezone)}.` : 'No active window in the next week.'));
+
+                // Critical: Ensure session is closed during sleep to save memory
+                const existingClient = this.activeSessions.get(account.id);
+                if (existingClient) {
+                    await existingClient.close();
+                    this.activeSessions.delete(account.id);
+                    accountLogger.info("Closed persistent session for sleep cycle.");
+                }
+                return;
+            }
+
+            let isDMOnlyRun = forcedMode === 'dms';
+            const nextActiveTime = forcedMode ? 0 : scheduleTracker.getNextActiveTime();
+            if (Date.now() < nextActiveTime) {
+                if (behavior.enableAutoDMs === true) {
+                    const lastDMCheck = scheduleTracker.getLastDMCheckTime();
+                    if (Date.now() - lastDMCheck >= dmIntervalMs) {
+                        isDMOnlyRun = true;
+                        accountLogger.info(`Account is resting, but executing a quick, headless DM-only check (last checked ${Math.round((Date.now() - lastDMCheck) / 60000)}m ago).`);
+                    }
+                }
+
+                if (!isDMOnlyRun) {
+                    // Find remaining wait
+                    const remainingMinutes = Math.ceil((nextActiveTime - Date.now()) / 60000);
+                    accountLogger.info(`Account is resting. Waiting ~${remainingMinutes} minutes before next active cycle.`);
+
+                    // Critical: Ensure session is closed during rest to save memory
+                    const existingClient = this.activeSessions.get(account.id);
+                    if (existingClient) {
+                        await existingClient.close();
+                        this.activeSessions.delete(account.id);
+                        accountLogger.info("Closed persistent session for rest cycle.");
+                    }
+                    return;
+                }
+            }
+
+            // If active cycle is due, check if the heavy interaction slot is available
+            // (A forced full cycle waits in the queue for the slot instead)
+            if (!isDMOnlyRun && !forcedMode && Date.now() >= nextActiveTime) {
+                if (this.interactionLimit.activeCount >= this.interactionLimit.concurrency) {
+                    accountLogger.debug(`Active cycle is due, but the heavy interaction slot is busy (${this.interactionLimit.activeCount}/${this.interactionLimit.concurrency} active).`);
+                    if (behavior.enableAutoDMs === true) {
+                        const lastDMCheck = scheduleTracker.getLastDMCheckTime();
+                        if (Date.now() - lastDMCheck >= dmIntervalMs) {
+                            isDMOnlyRun = true;
+                            accountLogger.info(`Executing a quick, headless DM-only check instead of full interaction cycle.`);
+                        }
+                    }
+
+                    if (!isDMOnlyRun) {
+                        accountLogger.debug(`Postponing active cycle. Retrying in next loop iteration.`);
+                        return;
+                    }
+                }
+            }
+
+
+            const activityTracker = this.createActivityTracker(account, effective);
+
+            const msToNextLike = (behavior.enableLikes !== false) ? activityTracker.getTimeUntilAvailable('likes', limits.likesPerHour) : 0;
+            const msToNextComment = (behavior.enableComments !== false) ? activityTracker.getTimeUntilAvailable('comments', limits.commentsPerHour) : 0;
+            const msToNextDM = (behavior.enableAutoDMs === true) ? activityTracker.getTimeUntilAvailable('dms', limits.dmsPerHour ?? 50) : 0; // Increased default to 50
+
+            let isBlocked = true;
+            let maxWaitTime = 0;
+
+            if (isDMOnlyRun) {
+                isBlocked = (behavior.enableAutoDMs === true && msToNextDM > 0);
+            } else {
+                // Check if at least ONE enabled action is available
+                if (behavior.enableLikes !== false && msToNextLike === 0) isBlocked = false;
+                if (behavior.enableComments !== false && msToNextComment === 0) isBlocked = false;
+                if (behavior.enableAutoDMs === true && msToNextDM === 0) isBlocked = false;
+            }
+
+            if (isBlocked) {
+                if (isDMOnlyRun) {
+                    const dmWait = Math.ceil(msToNextDM / 60000);
+                    accountLogger.warn(`DM-only check skipped: Auto DM is on rate limit cooldown. Waiting ~${dmWait}m.`);
+                } else {
+                    const waits = [];
+                    if (behavior.enableLikes !== false) waits.push(msToNextLike);
+                    if (behavior.enableComments !== false) waits.push(msToNextComment);
+                    if (behavior.enableAutoDMs === true) waits.push(msToNextDM);
+
+                    maxWaitTime = waits.length > 0 ? Math.min(...waits) : 0;
+
+                    const waitMinutes = Math.ceil(maxWaitTime / 60000);
+                    const dmWait = Math.ceil(msToNextDM / 60000);
+                    const likeWait = Math.ceil(msToNextLike / 60000);
+
+                    accountLogger.warn(`All enabled actions are on cooldown. Waiting ~${waitMinutes}m. (Likes: ${likeWait}m, DMs: ${dmWait}m)`);
+                }
+
+                // Critical: If blocked, ensure we close the session to save RAM
+                const existingClient = this.activeSessions.get(account.id);
+                if (existingClient) {
+                    await existingClient.close();
+                    this.activeSessions.delete(account.id);
+                    accountLogger.info("Closed persistent session due to rate limits.");
+                }
+                return;
+            }
+
+            // --- REUSE OR CREATE CLIENT AND RUN INTERACTION ---
+            const runSession = async () => {
+                // A queued cycle may get its slot only after shutdown started
+                if (this.shuttingDown) {
+                    accountLogger.info("Shutdown in progress. Skipping queued session.");
+                    return;
+                }
+                if (loop?.cancelRequested) {
+                    accountLogger.info("Cycle was cancelled while waiting for a session slot.");
+                    return;
+                }
+
+                const igClient = this.getSession(account, effective, character, isDMOnlyRun, accountLogger);
+
+                // Every journal entry of this cycle carries the same session id
+                const sessionId = randomUUID();
+                igClient.setJournalContext({ account: account.id, sessionId, strategy: isDMOnlyRun ? 'dm-only' : 'dm' });
+                accountLogger.info(`Session id: ${sessionId}`);
+                eventBus.publish('session.started', account.id, isDMOnlyRun ? 'DM-only session' : 'Interaction session', {
+                    sessionId, kind: isDMOnlyRun ? 'dm-only' : 'full', forced: !!forcedMode
+                });
+                const startedAt = Date.now();
+
+                try {
+                    await igClient.init(); // Idempotent now
+
+                    accountLogger.info(`Interacting with behavior: Like=${behavior.enableLikes}, Comment=${behavior.enableComments}`);
+                    accountLogger.info(`Safety Limits applied: MaxLikes=${limits.likesPerHour}, MaxComments=${limits.commentsPerHour}`);
+
+                    // Check for Auto DMs if enabled in settings
+                    if (behavior.enableAutoDMs) {
+                        accountLogger.info("Checking for DMs (enabled in settings)...");
+                        await igClient.checkAndRespondToDMs({ dmsPerHour: limits.dmsPerHour, dmRequestsPerHour: limits.dmRequestsPerHour });
+                    }
+
+                    // Weighted strategy pick, then settings.fallbackOrder if it completes 0 actions
+                    let actionsCompleted = 0;
+                    if (!isDMOnlyRun) {
+                        actionsCompleted = await strategyRegistry.runWithFallback(
+                            effective.strategies,
+                            effective.fallbackOrder,
+                            { igClient, accountId: account.id, behavior, limits, follows: effective.follows, logger: accountLogger },
+                            name => igClient.setJournalContext({ strategy: name })
+                        );
+
+                        // Unfollow users who haven't followed back (settings.follows)
+                        if (effective.follows.autoUnfollow && !igClient.isStopRequested()) {
+                            igClient.setJournalContext({ strategy: 'unfollow' });
+                            actionsCompleted += await igClient.unfollowNonFollowers({
+                                unfollowAfterDays: effective.follows.unfollowAfterDays,
+                                allowlist: effective.follows.allowlist,
+                                unfollowsPerHour: limits.unfollowsPerHour
+                            });
+                        }
+                    }
+
+                    // Store actionsCompleted on the client instance so the finally block can access it
+                    igClient.actionsCompletedThisSession = actionsCompleted;
+                } finally {
+                    // ALWAYS CLOSE after session finishes to save RAM
+                    const existingClient = this.activeSessions.get(account.id);
+                    let actionsCompleted = 0;
+                    let dmsProcessed = false;
+                    if (existingClient) {
+                        actionsCompleted = existingClient.actionsCompletedThisSession;
+                        dmsProcessed = existingClient.dmsProcessedThisSession;
+                        accountLogger.info(`Closing session for ${account.id} before rest period.`);
+                        await existingClient.close();
+                        this.activeSessions.delete(account.id);
+                    }
+
+                    // Update the Rest/DM Cycles
+                    if (isDMOnlyRun) {
+                        const nextCheckMinutes = dmsProcessed ? 1 : scheduleSettings.dmCheckIntervalMinutes;
+                        scheduleTracker.setLastDMCheckTime(Date.now() + (nextCheckMinutes * 60000) - dmIntervalMs);
+                        accountLogger.info(`DM-only check completed. Next DM check available in ~${nextCheckMinutes} minutes.`);
+                        eventBus.publish('rest.scheduled', account.id, `Next DM check in ~${nextCheckMinutes} minutes`, {
+                            kind: 'dm-check', until: new Date(Date.now() + nextCheckMinutes * 60000).toISOString()
+                        });
+                    } else {
+                        // Update the Rest Cycle
+                        let restDelayMs;
+                        if (actionsCompleted === 0) {
+                            accountLogger.warn("Performed 0 interactions in this session. Scheduling a short retry delay of 5 minutes instead of a full rest cycle.");
+                            restDelayMs = 5 * 60 * 1000;
+                        } else {
+                            restDelayMs = ScheduleTracker.getRandomDelayMs(scheduleSettings.minRestMinutes, scheduleSettings.maxRestMinutes);
+                        }
+                        scheduleTracker.setNextActiveTime(Date.now() + restDelayMs);
+                        accountLogger.info(`Account rests. Next active cycle set in ~${Math.round(restDelayMs / 60000)} minutes.`);
+                        const wakeUp = ScheduleTracker.getNextWakeUp(scheduleSettings, Date.now() + restDelayMs);
+                        if (wakeUp && wakeUp > Date.now() + restDelayMs) {
+                            accountLogger.info(`Rest ends outside active hours. Next wake-up: ${ScheduleTracker.formatLocalTime(wakeUp, scheduleSettings.timezone)}.`);
+                        }
+                        eventBus.publish('rest.scheduled', account.id, `Resting ~${Math.round(restDelayMs / 60000)} minutes`, {
+                            kind: 'rest', until: new Date(Date.now() + restDelayMs).toISOString(),
+                            nextWakeUp: wakeUp ? new Date(wakeUp).toISOString() : null
+                        });
+                    }
+
+                    accountLogger.info(`<<< Session finished for account: ${account.id} >>>`);
+                    eventBus.publish('session.ended', account.id, `Session finished (${actionsCompleted} actions)`, {
+                        sessionId, kind: isDMOnlyRun ? 'dm-only' : 'full', actionsCompleted, durationMs: Date.now() - startedAt
+                    });
+                }
+            };
+
+            if (isDMOnlyRun) {
+                await this.sessionLimit(runSession);
+            } else {
+                await this.interactionLimit(async () => {
+                    await this.sessionLimit(runSession);
+                });
+            }
+
+
+        } catch (error: any) {
+            accountLogger.error(`Error processing account ${account.id}: ${error}`);
+            if (this.emailService) {
+                // Use the shared emailService (which is the GLOBAL alert service if configured)
+                this.emailService.sendErrorAlert(account.username, error.message || String(error), "Account Processing Crash").catch(() => { });
+            }
+        }
+    }
+}
+
+export const accountManager = new AccountManager();
@@ -0,0 +1,282 @@
+import { randomUUID } from 'crypto';
+import logger from '../config/logger';
+import { AccountConfig, EffectiveAccountSettings } from '../config/accountConfig';
+import { IgClient } from '../client/IG-bot/IgClient';
+import { closeIgClient, getIgClient } from '../client/Instagram';
+import { ApiJob, ApiJobProgress, ApiJobStatus, ApiJobType, IApiJob } from '../models/ApiJob';
+import { AccountActionKind, accountManager } from './AccountManager';
+import { BotEvent, eventBus } from './EventBus';
+import { isShuttingDown } from './index';
+
+// Progress is kept in memory and written to MongoDB at most this often
+const PROGRESS_SAVE_INTERVAL_MS = 5000;
+
+export interface ApiJobView {
+    id: string;
+    type: ApiJobType;
+    account: string | null;
+    status: ApiJobStatus;
+    params: Record<string, any>;
+    progress: ApiJobProgress;
+    result?: any;
+    error?: string;
+    createdBy: string;
+    createdAt: string;
+    startedAt: string | null;
+    finishedAt: string | null;
+}
+
+export interface ApiJobContext {
+    jobId: string;
+    igClient: IgClient;
+    logger: any;
+    account?: AccountConfig;                 // Unset for the standalone client
+    effective?: EffectiveAccountSettings;
+    /** Reports progress; `total` stays as it was when omitted. */
+    progress(done: number, total?: number | null): void;
+}
+
+export interface ApiJobSpec<T> {
+    id?: string;                             // Given when the caller stores the id before the job can start
+    type: ApiJobType;
+    account: string | null;                  // null = the standalone client from /ig-login
+    kind: AccountActionKind;
+    params: Record<string, any>;             // Stored with the job, keep it small
+    unit: string;
+    createdBy: string;
+    run(context: ApiJobContext): Promise<T>;
+}
+
+export interface ApiJobQuery {
+    account?: string;
+    status?: ApiJobStatus;
+    type?: ApiJobType;
+    limit?: number;
+    skip?: number;
+}
+
+interface ActiveJob {
+    view: ApiJobView;
+    controller: AbortController;
+    lastSaved: number;
+}
+
+const toView = (job: IApiJob): ApiJobView => ({
+    id: job.jobId,
+    type: job.type,
+    account: job.account,
+    status: job.status,
+    params: job.params,
+    progress: job.progress,
+    result: job.result,
+    error: job.error,
+    createdBy: job.createdBy,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt ? job.startedAt.toISOString() : null,
+    finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null
+});
+
+/**
+ * Long-running API operations (interaction sessions, DMs from a file, follower scraping) run
+ * as jobs: submit() returns at once and the job runs in the background through the account
+ * loop and the shared limiter pools. Jobs are stored in MongoDB with their progress and result;
+ * queued and running ones also live in memory, where they can be cancelled.
+ */
+export class ApiJobQueue {
+    private active = new Map<string, ActiveJob>();
+    // The standalone client has a single page, so its jobs run one at a time
+    private standaloneChain: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Queues a job and returns it right away. Returns null when the account has no running loop.
+     */
+    public async submit<T>(spec: ApiJobSpec<T>): Promise<ApiJobView | null> {
+        if (spec.account !== null && !accountManager.getAccountStatus(spec.account)) return null;
+
+        const view: ApiJobView = {
+            id: spec.id || randomUUID(),
+            type: spec.type,
+            account: spec.account,
+            status: 'queued',
+            params: spec.params,
+            progress: { done: 0, total: null, unit: spec.unit },
+            createdBy: spec.createdBy,
+            createdAt: new Date().toISOString(),
+            startedAt: null,
+            finishedAt: null
+        };
+        const job: ActiveJob = { view, controller: new AbortController(), lastSaved: 0 };
+
+        await ApiJob.create({
+            jobId: view.id, type: view.type, account: view.account, status: view.status, params: view.params,
+            progress: view.progress, createdBy: view.createdBy, createdAt: new Date(view.createdAt)
+        }).catch(error => logger.warn(`Failed to store job ${view.id}: ${error.message || error}`));
+
+        const execute = async (context: Omit<ApiJobContext, 'jobId' | 'progress'>, sessionId: string) => {
+            view.status = 'running';
+            view.startedAt = new Date().toISOString();
+            this.save(job, true);
+            const stopTracking = spec.type === 'interact' ? this.trackInteractionProgress(job, sessionId) : null;
+            try {
+                return await spec.run({
+                    ...context,
+                    jobId: view.id,
+                    progress: (done, total) => {
+                        view.progress = { ...view.progress, done, total: total === undefined ? view.progress.total : total };
+                        this.save(job);
+                    }
+                });
+            } finally {
+                stopTracking?.();
+            }
+        };
+
+        const running = spec.account !== null
+            ? accountManager.runAccountAction(spec.account, `job ${spec.type}`, spec.kind,
+                ({ igClient, account, effective, sessionId, logger: accountLogger }) =>
+                    execute({ igClient, account, effective, logger: accountLogger }, sessionId),
+                job.controller.signal)
+            : this.runStandalone(spec.kind, job, execute);
+        if (!running) {
+            await this.finish(job, 'failed', undefined, 'Account is not running');
+            return view;
+        }
+
+        this.active.set(view.id, job);
+        logger.info(`Job ${view.id} (${view.type}${view.account ? ` for ${view.account}` : ''}) queued by ${view.createdBy}.`);
+        running
+            .then(result => this.finish(job, job.controller.signal.aborted ? 'cancelled' : 'completed', result))
+            .catch(error => this.finish(job,
+                job.controller.signal.aborted ? 'cancelled' : (isShuttingDown() ? 'interrupted' : 'failed'),
+                undefined, error.message || String(error)));
+        return view;
+    }
+
+    public async get(id: string): Promise<ApiJobView | null> {
+        const active = this.active.get(id);
+        if (active) return active.view;
+        const job = await ApiJob.findOne({ jobId: id });
+        return job ? toView(job) : null;
+    }
+
+    public async list(query: ApiJobQuery = {}): Promise<{ total: number; jobs: ApiJobView[] }> {
+        const filter: Record<string, any> = {};
+        if (query.account) filter.account = query.account;
+        if (query.status) filter.status = query.status;
+        if (query.type) filter.type = query.type;
+        const [total, jobs] = await Promise.all([
+            ApiJob.countDocuments(filter),
+            // Results can be large (follower lists), fetch them through get()
+            ApiJob.find(filter, { result: 0 }).sort({ createdAt: -1 }).skip(query.skip || 0).limit(query.limit || 50)
+        ]);
+        // Queued and running jobs report their live progress
+        return { total, jobs: jobs.map(job => this.active.get(job.jobId)?.view || toView(job)) };
+    }
+
+    /**
+     * Cancels a queued or running job. A running job stops after its current step and keeps
+     * its partial result. Returns null for unknown jobs and false for jobs that already ended.
+     */
+    public async cancel(id: string): Promise<ApiJobView | false | null> {
+        const active = this.active.get(id);
+        if (!active) return (await this.get(id)) ? false : null;
+        if (!active.controller.signal.aborted) {
+            logger.info(`Job ${id} cancellation requested.`);
+            active.controller.abort();
+        }
+        return active.view;
+    }
+
+    /**
+     * Jobs that were queued or running when the process stopped can't be resumed.
+     */
+    public async markInterrupted() {
+        const result = await ApiJob.updateMany(
+            { status: { $in: ['queued', 'running'] } },
+            { $set: { status: 'interrupted', finishedAt: new Date(), error: 'Process restarted' } }
+        );
+        if (result.modifiedCount > 0) {
+            logger.warn(`${result.modifiedCount} job(s) were interrupted by the last shutdown.`);
+        }
+    }
+
+    private runStandalone<T>(kind: AccountActionKind, job: ActiveJob,
+        execute: (context: Omit<ApiJobContext, 'jobId' | 'progress'>, sessionId: string) => Promise<T>): Promise<T> {
+        const { signal } = job.controller;
+        const run = async () => {
+            if (signal.aborted) throw new Error("Job was cancelled");
+            const igClient = await getIgClient();
+            // The standalone client has no account loop; tag its journal entries with the job id
+            igClient.setJournalContext({ sessionId: job.view.id, strategy: 'api' });
+            const onAbort = () => igClient.requestStop("job cancelled");
+            signal.addEventListener('abort', onAbort, { once: true });
+            try {
+                return await execute({ igClient, logger }, job.view.id);
+            } finally {
+                signal.removeEventListener('abort', onAbort);
+                // A stopped client stays stopped, so start the next job with a fresh one
+                if (signal.aborted) await closeIgClient();
+            }
+        };
+        const limited = () => kind === 'session'
+            ? accountManager.sessionLimit(run)
+            : accountManager.interactionLimit(() => accountManager.sessionLimit(run));
+
+        const result = this.standaloneChain.then(limited, limited);
+        this.standaloneChain = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Interaction sessions don't report progress themselves; count their actions from the event
+     * stream instead (the strategy's target becomes the total).
+     */
+    private trackInteractionProgress(job: ActiveJob, sessionId: string): () => void {
+        const { view } = job;
+        return eventBus.subscribe((event: BotEvent) => {
+            if (event.type === 'strategy.chosen' && event.account === view.account) {
+                view.progress = { ...view.progress, total: view.progress.done + (event.data?.target || 0) };
+            } else if (event.type === 'action' && event.data?.sessionId === sessionId &&
+                (event.data.outcome === 'success' || event.data.outcome === 'dry_run')) {
+                view.progress = { ...view.progress, done: view.progress.done + 1 };
+            } else {
+                return;
+            }
+            this.save(job);
+        }, { types: ['strategy', 'action'] });
+    }
+
+    private async finish(job: ActiveJob, status: ApiJobStatus, result?: any, error?: string) {
+        const { view } = job;
+        view.status = status;
+        view.finishedAt = new Date().toISOString();
+        if (result !== undefined) view.result = result;
+        if (error) view.error = error;
+        this.active.delete(view.id);
+        const message = `Job ${view.id} (${view.type}) ${status}${error ? `: ${error}` : ''}.`;
+        if (status === 'failed') logger.error(message);
+        else logger.info(message);
+        await this.save(job, true);
+    }
+
+    private save(job: ActiveJob, force: boolean = false): Promise<void> {
+        const now = Date.now();
+        if (!force && now - job.lastSaved < PROGRESS_SAVE_INTERVAL_MS) return Promise.resolve();
+        job.lastSaved = now;
+        const { view } = job;
+        return ApiJob.updateOne({ jobId: view.id }, {
+            $set: {
+                status: view.status,
+                progress: view.progress,
+                result: view.result,
+                error: view.error,
+                startedAt: view.startedAt ? new Date(view.startedAt) : undefined,
+                finishedAt: view.finishedAt ? new Date(view.finishedAt) : undefined
+            }
+        }).then(() => undefined).catch(error => {
+            logger.warn(`Failed to save job ${view.id}: ${error.message || error}`);
+        });
+    }
+}
+
+export const apiJobQueue = new ApiJobQueue();
@@ -0,0 +1,169 @@
+import { Audience, AudienceMember, IAudience } from '../models/Audience';
+import { IgClient, ScrapedFollowers } from '../client/IG-bot/IgClient';
+
+export type AudienceExportFormat = 'csv' | 'json' | 'txt';
+
+export interface AudienceSummary {
+    id: string;
+    name: string;
+    sourceAccount: string;
+    scrapedBy: string | null;
+    maxFollowers: number;
+    complete: boolean;
+    count: number;
+    jobId: string | null;
+    createdBy: string;
+    createdAt: string;
+}
+
+export interface AudienceView extends AudienceSummary {
+    followers: AudienceMember[];
+}
+
+export interface AudienceDiff {
+    from: AudienceSummary;
+    to: AudienceSummary;
+    added: AudienceMember[];        // In `to` but not in `from` (new followers)
+    lost: AudienceMember[];         // In `from` but not in `to` (unfollowed, or beyond a partial scrape)
+    unchanged: number;
+}
+
+export interface AudienceQuery {
+    sourceAccount?: string;
+    limit?: number;
+    skip?: number;
+}
+
+export interface SaveAudienceOptions {
+    name?: string;
+    sourceAccount: string;
+    scrapedBy: string | null;
+    maxFollowers: number;
+    jobId?: string;
+    createdBy: string;
+}
+
+const CSV_COLUMNS: (keyof AudienceMember)[] = ['username', 'fullName', 'verified', 'isPrivate'];
+
+const csvCell = (value: unknown) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toSummary = (audience: IAudience): AudienceSummary => ({
+    id: String(audience._id),
+    name: audience.name,
+    sourceAccount: audience.sourceAccount,
+    scrapedBy: audience.scrapedBy,
+    maxFollowers: audience.maxFollowers,
+    complete: audience.complete,
+    count: audience.count,
+    jobId: audience.jobId ?? null,
+    createdBy: audience.createdBy,
+    createdAt: audience.createdAt.toISOString()
+});
+
+const toMember = (member: AudienceMember): AudienceMember => ({
+    username: member.username,
+    fullName: member.fullName ?? null,
+    verified: !!member.verified,
+    isPrivate: member.isPrivate ?? null
+});
+
+/**
+ * Scraped follower lists saved as named audiences, with export and diffs between two scrapes
+ * of the same account. Lookups return null for unknown ids; diff() returns an error message
+ * when the two audiences can't be compared.
+ */
+export class Audiences {
+    /**
+     * Scrapes the followers of `options.sourceAccount` and saves them, also when the scrape was
+     * stopped early (the audience is then marked incomplete).
+     */
+    public async scrape(igClient: IgClient, options: SaveAudienceOptions, onProgress?: (scraped: number, max: number) => void): Promise<AudienceSummary> {
+        const scraped = await igClient.scrapeFollowers(options.sourceAccount, options.maxFollowers, onProgress);
+        return this.save(scraped, options);
+    }
+
+    public async save(scraped: ScrapedFollowers, options: SaveAudienceOptions): Promise<AudienceSummary> {
+        const createdAt = new Date();
+        const sourceAccount = options.sourceAccount.toLowerCase();
+        const audience = await Audience.create({
+            name: options.name || `${sourceAccount} followers ${createdAt.toISOString().slice(0, 10)}`,
+            sourceAccount,
+            scrapedBy: options.scrapedBy,
+            maxFollowers: options.maxFollowers,
+            complete: scraped.complete,
+            count: scraped.followers.length,
+            followers: scraped.followers,
+            jobId: options.jobId,
+            createdBy: options.createdBy,
+            createdAt
+        });
+        return toSummary(audience);
+    }
+
+    public async list(query: AudienceQuery = {}): Promise<{ total: number; audiences: AudienceSummary[] }> {
+        const filter: Record<string, any> = {};
+        if (query.sourceAccount) filter.sourceAccount = query.sourceAccount.toLowerCase();
+        const [total, audiences] = await Promise.all([
+            Audience.countDocuments(filter),
+            Audience.find(filter, { followers: 0 }).sort({ createdAt: -1 }).skip(query.skip || 0).limit(query.limit || 50)
+        ]);
+        return { total, audiences: audiences.map(toSummary) };
+    }
+
+    public async get(id: string): Promise<AudienceView | null> {
+        const audience = await Audience.findById(id).catch(() => null);
+        return audience ? { ...toSummary(audience), followers: audience.followers.map(toMember) } : null;
+    }
+
+    public async rename(id: string, name: string): Promise<AudienceSummary | null> {
+        const audience = await Audience.findByIdAndUpdate(id, { name }, { new: true, projection: { followers: 0 } }).catch(() => null);
+        return audience ? toSummary(audience) : null;
+    }
+
+    public async remove(id: string): Promise<boolean> {
+        const result = await Audience.deleteOne({ _id: id }).catch(() => null);
+        return !!result && result.deletedCount > 0;
+    }
+
+    /**
+     * The audience as a file body: CSV with a header row, JSON with the audience's details, or
+     * plain usernames one per line.
+     */
+    public serialize(audience: AudienceView, format: AudienceExportFormat): string {
+        if (format === 'json') return JSON.stringify(audience, null, 2);
+        if (format === 'txt') return audience.followers.map(follower => follower.username).join('\n');
+        const rows = audience.followers.map(follower => CSV_COLUMNS.map(column => csvCell(follower[column])).join(','));
+        return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+    }
+
+    /**
+     * New and lost followers between two scrapes of the same account. Without `fromId` the
+     * audience is compared with the previous scrape of its source account.
+     */
+    public async diff(toId: string, fromId?: string): Promise<AudienceDiff | { error: string; status: number } | null> {
+        const to = await Audience.findById(toId).catch(() => null);
+        if (!to) return null;
+        const from = fromId
+            ? await Audience.findById(fromId).catch(() => null)
+            : await Audience.findOne({ sourceAccount: to.sourceAccount, createdAt: { $lt: to.createdAt } }).sort({ createdAt: -1 });
+        if (!from) {
+            return fromId
+                ? { error: `Audience ${fromId} not found`, status: 404 }
+                : { error: `No earlier scrape of ${to.sourceAccount} to compare with`, status: 409 };
+        }
+        if (from.sourceAccount !== to.sourceAccount) {
+            return { error: `Audiences are from different accounts (${from.sourceAccount} and ${to.sourceAccount})`, status: 409 };
+        }
+
+        const before = new Set(from.followers.map(follower => follower.username));
+        const after = new Set(to.followers.map(follower => follower.username));
+        const added = to.followers.filter(follower => !before.has(follower.username)).map(toMember);
+        const lost = from.followers.filter(follower => !after.has(follower.username)).map(toMember);
+        return { from: toSummary(from), to: toSummary(to), added, lost, unchanged: to.followers.length - added.length };
+    }
+}
+
+export const audiences = new Audiences();
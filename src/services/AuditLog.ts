@@ -0,0 +1,122 @@
+import logger from '../config/logger';
+import { AuditEntry, AuditOutcome, IAuditEntry } from '../models/AuditEntry';
+
+// Parameter names whose values never reach the audit log (matched case-insensitively, anywhere in the name).
+// Proxy URLs are included since they carry the proxy's password, and "keys" is the Gemini key list.
+const SECRET_KEYS = /password|passwd|secret|token|cookie|authorization|api[-_]?key|credential|proxy|^keys$/i;
+// Longer strings (e.g. dm-file username lists) are cut to this length
+const MAX_STRING_LENGTH = 500;
+const MAX_DEPTH = 5;
+
+export interface AuditRecord {
+    operator: string | null;
+    role: string | null;
+    action: string;
+    method: string;
+    path: string;
+    account: string | null;
+    params: Record<string, any>;
+    status: number;
+    error?: string;
+    jobId?: string;
+    ip?: string;
+    durationMs: number;
+}
+
+export interface AuditEntryView extends Omit<AuditRecord, 'error' | 'jobId' | 'ip'> {
+    id: string;
+    outcome: AuditOutcome;
+    error?: string;
+    jobId?: string;
+    ip?: string;
+    createdAt: string;
+}
+
+export interface AuditQuery {
+    operator?: string;
+    account?: string;
+    action?: string;
+    method?: string;
+    outcome?: AuditOutcome;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+    skip?: number;
+}
+
+/**
+ * Copy of `value` with secret fields replaced by "[redacted]" and long strings shortened.
+ */
+export const redactSecrets = (value: any, depth: number = 0): any => {
+    if (typeof value === 'string') {
+        return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} characters)` : value;
+    }
+    if (value === null || typeof value !== 'object') return value;
+    if (depth >= MAX_DEPTH) return '[nested]';
+    if (Array.isArray(value)) return value.map(item => redactSecrets(item, depth + 1));
+    const copy: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+        copy[key] = SECRET_KEYS.test(key) ? '[redacted]' : redactSecrets(item, depth + 1);
+    }
+    return copy;
+};
+
+const toView = (entry: IAuditEntry): AuditEntryView => ({
+    id: String(entry._id),
+    operator: entry.operator,
+    role: entry.role,
+    action: entry.action,
+    method: entry.method,
+    path: entry.path,
+    account: entry.account,
+    params: entry.params,
+    status: entry.status,
+    outcome: entry.outcome,
+    error: entry.error,
+    jobId: entry.jobId,
+    ip: entry.ip,
+    durationMs: entry.durationMs,
+    createdAt: entry.createdAt.toISOString()
+});
+
+/**
+ * Append-only trail of state-changing API calls: who called what, for which account, with
+ * which parameters (secrets redacted) and how it ended. Entries are written after the answer
+ * is sent; a failed write is logged and never affects the call itself.
+ */
+export class AuditLog {
+    public async record(record: AuditRecord): Promise<void> {
+        try {
+            await AuditEntry.create({
+                ...record,
+                params: redactSecrets(record.params),
+                outcome: record.status < 400 ? 'success' : 'failure',
+                createdAt: new Date()
+            });
+        } catch (error) {
+            logger.error(`Failed to write audit entry for ${record.action} by ${record.operator ?? 'unknown'}:`, error);
+        }
+    }
+
+    public async query(query: AuditQuery = {}): Promise<{ total: number; entries: AuditEntryView[] }> {
+        const filter: Record<string, any> = {};
+        if (query.operator) filter.operator = query.operator.toLowerCase();
+        if (query.account) filter.account = query.account;
+        if (query.action) filter.action = query.action;
+        if (query.method) filter.method = query.method.toUpperCase();
+        if (query.outcome) filter.outcome = query.outcome;
+        if (query.from || query.to) {
+            filter.createdAt = {
+                ...(query.from ? { $gte: query.from } : {}),
+                ...(query.to ? { $lte: query.to } : {})
+            };
+        }
+        const [total, entries] = await Promise.all([
+            AuditEntry.countDocuments(filter),
+            AuditEntry.find(filter).sort({ createdAt: -1 }).skip(query.skip || 0).limit(query.limit || 100)
+        ]);
+        return { total, entries: entries.map(toView) };
+    }
+}
+
+export const auditLog = new AuditLog();
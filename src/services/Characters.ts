@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../config/logger';
+import { AccountConfig, EffectiveAccountSettings, loadAccountsConfig, resolveAccountSettings, validateAccountsConfig } from '../config/accountConfig';
+import { chooseCharacter } from '../Agent';
+import { buildCommentPrompt, buildDMReplyPrompt, DMHistoryMessage } from '../Agent/prompts';
+
+// Where chooseCharacter() loads character files from (build/Agent/characters when compiled)
+const CHARACTERS_DIR = path.join(__dirname, '..', 'Agent', 'characters');
+// The source copy; `npm start` copies it over the build, so edits are written to both
+const SOURCE_CHARACTERS_DIR = path.join(__dirname, '..', '..', 'src', 'Agent', 'characters');
+
+// The built-in base style (src/config/adrian-style.ts): previewable, not editable
+export const BASE_CHARACTER = 'adrian-style';
+export const CHARACTER_FILE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*\.json$/;
+
+const SAMPLE_CAPTION = 'Sunday hike with the best views 🌄 Who else spent the weekend outside?';
+const SAMPLE_CONVERSATION: DMHistoryMessage[] = [{ text: 'Hey! Loved your last post, where was that?', isMine: false }];
+
+export interface CharacterSummary {
+    file: string;
+    name: string | null;
+    usedBy: string[];           // Account ids in accounts.json
+    updatedAt: string;
+}
+
+export interface CharacterPreviewInput {
+    account?: string;           // Use this account's settings (languages, limits) from accounts.json
+    caption?: string;
+    conversation?: { from: 'me' | 'them'; text: string }[];
+    partnerUsername?: string;
+    facts?: string[];
+}
+
+export interface CharacterPreview {
+    file: string;
+    account: string | null;
+    config: any;                // chooseCharacter() result: adrian-style with the character merged in
+    effective: EffectiveAccountSettings | null;
+    prompts: { comment: string; dm: string };
+}
+
+type CharacterResult<T> = T | { error: string; status: number };
+
+const directories = () => [...new Set([CHARACTERS_DIR, SOURCE_CHARACTERS_DIR].map(dir => path.resolve(dir)))]
+    .filter(dir => dir === path.resolve(CHARACTERS_DIR) || fs.existsSync(dir));
+
+const readAccounts = (): AccountConfig[] => {
+    try {
+        return validateAccountsConfig(loadAccountsConfig()).accounts;
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Character files in src/Agent/characters. Request bodies are schema-validated by the routes;
+ * this class checks file names and keeps the build and source copies in step. Accounts pick
+ * up a changed character at their next session, since chooseCharacter() reads it from disk.
+ */
+export class Characters {
+    public list(): CharacterSummary[] {
+        const accounts = readAccounts();
+        return fs.readdirSync(CHARACTERS_DIR)
+            .filter(file => CHARACTER_FILE_PATTERN.test(file))
+            .sort()
+            .map(file => {
+                let name: string | null = null;
+                try {
+                    name = JSON.parse(fs.readFileSync(path.join(CHARACTERS_DIR, file), 'utf-8')).name ?? null;
+                } catch {
+                    logger.warn(`Character file ${file} is not valid JSON.`);
+                }
+                return {
+                    file,
+                    name,
+                    usedBy: accounts.filter(account => account.character === file).map(account => account.id),
+                    updatedAt: fs.statSync(path.join(CHARACTERS_DIR, file)).mtime.toISOString()
+                };
+            });
+    }
+
+    public get(file: string): CharacterResult<{ file: string; character: any }> | null {
+        if (!CHARACTER_FILE_PATTERN.test(file)) return { error: 'Character files are named like "name.json"', status: 400 };
+        const filePath = path.join(CHARACTERS_DIR, file);
+        if (!fs.existsSync(filePath)) return null;
+        try {
+            return { file, character: JSON.parse(fs.readFileSync(filePath, 'utf-8')) };
+        } catch (error) {
+            return { error: `Character file ${file} is not valid JSON: ${(error as Error).message}`, status: 409 };
+        }
+    }
+
+    /**
+     * Writes a character. `mode` create refuses to overwrite, replace refuses to create.
+     */
+    public save(file: string, character: any, mode: 'create' | 'replace'): CharacterResult<CharacterSummary> {
+        if (!CHARACTER_FILE_PATTERN.test(file)) return { error: 'Character files are named like "name.json"', status: 400 };
+        const exists = fs.existsSync(path.join(CHARACTERS_DIR, file));
+        if (mode === 'create' && exists) return { error: `Character ${file} already exists`, status: 409 };
+        if (mode === 'replace' && !exists) return { error: `Character ${file} not found`, status: 404 };
+
+        const content = `${JSON.stringify(character, null, 2)}\n`;
+        for (const dir of directories()) {
+            fs.writeFileSync(path.join(dir, file), content);
+        }
+        return this.list().find(summary => summary.file === file)!;
+    }
+
+    public remove(file: string): CharacterResult<true> | null {
+        if (!CHARACTER_FILE_PATTERN.test(file)) return { error: 'Character files are named like "name.json"', status: 400 };
+        if (!fs.existsSync(path.join(CHARACTERS_DIR, file))) return null;
+        const usedBy = readAccounts().filter(account => account.character === file).map(account => account.id);
+        if (usedBy.length > 0) return { error: `Character ${file} is used by ${usedBy.join(', ')}`, status: 409 };
+        for (const dir of directories()) {
+            fs.rmSync(path.join(dir, file), { force: true });
+        }
+        return true;
+    }
+
+    /**
+     * The merged config an account would run with, and the comment and DM prompts it would
+     * send to Gemini for a sample caption and conversation. Nothing is sent anywhere.
+     */
+    public preview(file: string, input: CharacterPreviewInput = {}): CharacterResult<CharacterPreview> | null {
+        if (file !== BASE_CHARACTER) {
+            const stored = this.get(file);
+            if (!stored) return null;
+            if ('error' in stored) return stored;
+        }
+
+        let account: AccountConfig | undefined;
+        if (input.account) {
+            account = readAccounts().find(candidate => candidate.id === input.account);
+            if (!account) return { error: `Account ${input.account} is not in accounts.json`, status: 404 };
+        }
+
+        const config = chooseCharacter(file);
+        const effective = account ? resolveAccountSettings(account, config) : null;
+        const conversation = input.conversation && input.conversation.length > 0
+            ? input.conversation.map(message => ({ text: message.text, isMine: message.from === 'me' }))
+            : SAMPLE_CONVERSATION;
+        return {
+            file,
+            account: account?.id ?? null,
+            config,
+            effective,
+            prompts: {
+                comment: buildCommentPrompt({
+                    character: config,
+                    caption: input.caption || SAMPLE_CAPTION,
+                    languages: effective?.languages || ['English'],
+                    defaultLanguage: effective?.defaultLanguage || 'English'
+                }),
+                dm: buildDMReplyPrompt({
+                    character: config,
+                    partnerUsername: input.partnerUsername || 'User',
+                    history: conversation,
+                    facts: input.facts || [],
+                    // Same fallbacks as IgClient
+                    languages: effective?.languages || ['English'],
+                    defaultLanguage: effective?.defaultLanguage || 'English'
+                })
+            }
+        };
+    }
+}
+
+export const characters = new Characters();
@@ -0,0 +1,480 @@
+import { randomUUID } from 'crypto';
+import logger from '../config/logger';
+import { chooseCharacter, runAgent } from '../Agent';
+import { buildCampaignMessagePrompt } from '../Agent/prompts';
+import { getCampaignMessageSchema } from '../Agent/schema';
+import { Contact } from '../models/Contact';
+import { DmCampaign, DmCampaignRecipient, DmCampaignStatus, DmRecipientStatus, IDmCampaign } from '../models/DmCampaign';
+import { accountManager } from './AccountManager';
+import { ApiJobContext, apiJobQueue } from './ApiJobQueue';
+import { audiences } from './Audiences';
+
+// How often running campaigns are checked for a batch to start
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+// Next attempt when the sending account has no running loop
+const ACCOUNT_RETRY_MS = 15 * 60 * 1000;
+// Shortest wait after a batch stopped at the DM limits
+const MIN_LIMIT_WAIT_MS = 5 * 60 * 1000;
+// Pause between two DMs of a batch (as for DMs from a file)
+const DM_DELAY_MS = 30000;
+const MAX_RECIPIENTS = 10000;
+
+const TEMPLATE_VARIABLE = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const BUILTIN_VARIABLES = ['username', 'fullName', 'firstName'];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface DmCampaignCounts {
+    total: number;
+    pending: number;
+    sent: number;
+    failed: number;
+    skipped: number;
+    dryRun: number;              // Pending recipients a dry run already covered
+}
+
+export interface DmCampaignSummary {
+    id: string;
+    name: string;
+    account: string;
+    status: DmCampaignStatus;
+    template: string;
+    personalize: boolean;
+    mediaPath: string | null;
+    audienceId: string | null;
+    counts: DmCampaignCounts;
+    currentJobId: string | null;
+    nextRunAt: string | null;
+    lastError: string | null;
+    createdBy: string;
+    createdAt: string;
+    finishedAt: string | null;
+}
+
+export interface DmCampaignView extends DmCampaignSummary {
+    recipients: DmCampaignRecipient[];
+}
+
+export interface CreateDmCampaignInput {
+    name: string;
+    account: string;
+    template: string;
+    personalize?: boolean;
+    mediaPath?: string;
+    audienceId?: string;         // Either a stored audience...
+    file?: string;               // ...or usernames one per line, or CSV with a "username" header column
+    createdBy: string;
+}
+
+export interface DmCampaignQuery {
+    account?: string;
+    status?: DmCampaignStatus;
+    limit?: number;
+    skip?: number;
+}
+
+export interface OptOutView {
+    username: string;
+    optedOutAt: string;
+    reason: string | null;
+}
+
+type CampaignResult<T> = T | { error: string; status: number };
+type NewRecipient = Pick<DmCampaignRecipient, 'username' | 'fullName' | 'variables'>;
+
+// Minimal CSV line split: commas, double-quoted fields with "" escapes
+const splitCsvLine = (line: string): string[] => {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+};
+
+const normalizeUsername = (value: string) => value.trim().replace(/^@/, '');
+
+/**
+ * Recipients from plain usernames (one per line) or CSV whose header has a "username" column;
+ * the other CSV columns become template variables ("fullName" also fills the built-in one).
+ */
+export const parseRecipientFile = (file: string): NewRecipient[] => {
+    const lines = file.split(/\r?\n/).filter(line => line.trim());
+    if (lines.length === 0) return [];
+    const header = splitCsvLine(lines[0]);
+    const usernameColumn = header.findIndex(column => column.toLowerCase() === 'username');
+    if (usernameColumn === -1) {
+        return lines.map(line => ({ username: normalizeUsername(line), fullName: null, variables: {} }));
+    }
+    return lines.slice(1).map(line => {
+        const cells = splitCsvLine(line);
+        const variables: Record<string, string> = {};
+        header.forEach((column, index) => {
+            if (index !== usernameColumn && column) variables[column] = cells[index] ?? '';
+        });
+        return { username: normalizeUsername(cells[usernameColumn] || ''), fullName: variables.fullName || null, variables };
+    });
+};
+
+export const renderTemplate = (template: string, recipient: NewRecipient): string => {
+    const fullName = recipient.fullName || recipient.username;
+    const values: Record<string, string> = {
+        ...recipient.variables,
+        username: recipient.username,
+        fullName,
+        firstName: fullName.split(/\s+/)[0]
+    };
+    return template.replace(TEMPLATE_VARIABLE, (_match, name: string) => values[name] ?? '');
+};
+
+const countRecipients = (recipients: DmCampaignRecipient[]): DmCampaignCounts => {
+    const counts: DmCampaignCounts = { total: recipients.length, pending: 0, sent: 0, failed: 0, skipped: 0, dryRun: 0 };
+    for (const recipient of recipients) {
+        counts[recipient.status]++;
+        if (recipient.status === 'pending' && recipient.dryRunAt) counts.dryRun++;
+    }
+    return counts;
+};
+
+const toSummary = (campaign: IDmCampaign): DmCampaignSummary => ({
+    id: String(campaign._id),
+    name: campaign.name,
+    account: campaign.account,
+    status: campaign.status,
+    template: campaign.template,
+    personalize: campaign.personalize,
+    mediaPath: campaign.mediaPath ?? null,
+    audienceId: campaign.audienceId ?? null,
+    counts: countRecipients(campaign.recipients),
+    currentJobId: campaign.currentJobId ?? null,
+    nextRunAt: campaign.nextRunAt ? campaign.nextRunAt.toISOString() : null,
+    lastError: campaign.lastError ?? null,
+    createdBy: campaign.createdBy,
+    createdAt: campaign.createdAt.toISOString(),
+    finishedAt: campaign.finishedAt ? campaign.finishedAt.toISOString() : null
+});
+
+/**
+ * Outbound DM campaigns. A campaign sends a templated (optionally AI-personalized) DM to each
+ * recipient of an audience from one account. It runs in batches: each batch is a
+ * `dm-campaign` job on the account loop that sends until the account's DM limits are reached,
+ * and the scheduler starts the next batch once the limits allow it. Every recipient's status
+ * is stored as it changes, so a campaign resumes where it stopped after a pause or a restart.
+ * Methods that change campaigns return an error message instead of throwing when the request
+ * itself is invalid.
+ */
+export class DmCampaigns {
+    private timer: NodeJS.Timeout | null = null;
+    private ticking = false;
+
+    public start() {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.tick(), SCHEDULER_INTERVAL_MS);
+        this.timer.unref();
+        this.tick();
+    }
+
+    public stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    public async create(input: CreateDmCampaignInput): Promise<CampaignResult<DmCampaignSummary>> {
+        if (!accountManager.getAccountStatus(input.account)) return { error: `Account ${input.account} is not running`, status: 404 };
+        if ((input.audienceId === undefined) === (input.file === undefined)) {
+            return { error: 'Provide either audienceId or file', status: 400 };
+        }
+
+        let recipients: NewRecipient[];
+        if (input.audienceId !== undefined) {
+            const audience = await audiences.get(input.audienceId);
+            if (!audience) return { error: `Audience ${input.audienceId} not found`, status: 404 };
+            recipients = audience.followers.map(follower => ({ username: follower.username, fullName: follower.fullName, variables: {} }));
+        } else {
+            recipients = parseRecipientFile(input.file!);
+        }
+
+        const seen = new Set<string>();
+        recipients = recipients.filter(recipient => {
+            const key = recipient.username.toLowerCase();
+            if (!recipient.username || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+        if (recipients.length === 0) return { error: 'The campaign has no recipients', status: 400 };
+        if (recipients.length > MAX_RECIPIENTS) return { error: `A campaign can have at most ${MAX_RECIPIENTS} recipients`, status: 400 };
+
+        const variables = [...new Set(Array.from(input.template.matchAll(TEMPLATE_VARIABLE), match => match[1]))];
+        const unknown = variables.filter(name => !BUILTIN_VARIABLES.includes(name) && recipients.some(recipient => !(name in recipient.variables)));
+        if (unknown.length > 0) {
+            return { error: `Unknown template variables: ${unknown.join(', ')} (use ${BUILTIN_VARIABLES.join(', ')} or CSV columns)`, status: 400 };
+        }
+
+        const campaign = await DmCampaign.create({
+            name: input.name,
+            account: input.account,
+            status: 'running',
+            template: input.template,
+            personalize: input.personalize === true,
+            mediaPath: input.mediaPath,
+            audienceId: input.audienceId,
+            recipients: recipients.map(recipient => ({ ...recipient, status: 'pending' })),
+            nextRunAt: new Date(),
+            createdBy: input.createdBy
+        });
+        logger.info(`DM campaign "${campaign.name}" (${campaign._id}) created by ${input.createdBy} for ${input.account} with ${recipients.length} recipients.`);
+        this.tick();
+        return toSummary(campaign);
+    }
+
+    public async list(query: DmCampaignQuery = {}): Promise<{ total: number; campaigns: DmCampaignSummary[] }> {
+        const filter: Record<string, any> = {};
+        if (query.account) filter.account = query.account;
+        if (query.status) filter.status = query.status;
+        const [total, campaigns] = await Promise.all([
+            DmCampaign.countDocuments(filter),
+            DmCampaign.find(filter).sort({ createdAt: -1 }).skip(query.skip || 0).limit(query.limit || 50)
+        ]);
+        return { total, campaigns: campaigns.map(toSummary) };
+    }
+
+    /**
+     * The campaign report: counts plus every recipient with its status, optionally only those
+     * with `recipientStatus`.
+     */
+    public async get(id: string, recipientStatus?: DmRecipientStatus): Promise<DmCampaignView | null> {
+        const campaign = await DmCampaign.findById(id).catch(() => null);
+        if (!campaign) return null;
+        const recipients = recipientStatus ? campaign.recipients.filter(recipient => recipient.status === recipientStatus) : campaign.recipients;
+        return { ...toSummary(campaign), recipients };
+    }
+
+    /**
+     * Stops sending after the DM in progress; pending recipients stay pending until resumed.
+     */
+    public async pause(id: string): Promise<CampaignResult<DmCampaignSummary> | null> {
+        return this.changeStatus(id, ['running'], 'paused');
+    }
+
+    public async resume(id: string): Promise<CampaignResult<DmCampaignSummary> | null> {
+        return this.changeStatus(id, ['paused'], 'running');
+    }
+
+    public async cancel(id: string): Promise<CampaignResult<DmCampaignSummary> | null> {
+        return this.changeStatus(id, ['running', 'paused'], 'cancelled');
+    }
+
+    public async listOptOuts(): Promise<OptOutView[]> {
+        const contacts = await Contact.find({ optedOutAt: { $exists: true } }).sort({ optedOutAt: -1 });
+        return contacts.map(contact => ({ username: contact.username, optedOutAt: contact.optedOutAt!.toISOString(), reason: contact.optOutReason ?? null }));
+    }
+
+    public async optOut(username: string, reason: string): Promise<OptOutView> {
+        const contact = await Contact.findOneAndUpdate(
+            { username: normalizeUsername(username) },
+            { $set: { optedOutAt: new Date(), optOutReason: reason } },
+            { upsert: true, new: true }
+        );
+        return { username: contact.username, optedOutAt: contact.optedOutAt!.toISOString(), reason: contact.optOutReason ?? null };
+    }
+
+    /**
+     * Removes an opt-out. Returns false when the user had not opted out.
+     */
+    public async removeOptOut(username: string): Promise<boolean> {
+        const result = await Contact.updateOne(
+            { username: normalizeUsername(username), optedOutAt: { $exists: true } },
+            { $unset: { optedOutAt: 1, optOutReason: 1 } }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    private async changeStatus(id: string, from: DmCampaignStatus[], to: DmCampaignStatus): Promise<CampaignResult<DmCampaignSummary> | null> {
+        const campaign = await DmCampaign.findById(id).catch(() => null);
+        if (!campaign) return null;
+        if (!from.includes(campaign.status)) return { error: `Campaign is ${campaign.status}`, status: 409 };
+
+        campaign.status = to;
+        if (to === 'running') {
+            campaign.nextRunAt = new Date();
+            campaign.lastError = undefined;
+        }
+        if (to === 'cancelled') campaign.finishedAt = new Date();
+        await campaign.save();
+        // A batch in progress stops after its current DM
+        if (to !== 'running' && campaign.currentJobId) {
+            await apiJobQueue.cancel(campaign.currentJobId).catch(() => null);
+        }
+        logger.info(`DM campaign "${campaign.name}" (${id}) is now ${to}.`);
+        if (to === 'running') this.tick();
+        return toSummary(campaign);
+    }
+
+    /**
+     * Starts a batch for every running campaign that has none and whose next run is due.
+     */
+    private async tick() {
+        if (this.ticking) return;
+        this.ticking = true;
+        try {
+            const campaigns = await DmCampaign.find({ status: 'running' }, { recipients: 0 });
+            for (const campaign of campaigns) {
+                if (campaign.currentJobId) {
+                    const job = await apiJobQueue.get(campaign.currentJobId);
+                    if (job && (job.status === 'queued' || job.status === 'running')) continue;
+                    // The batch ended without clearing its job id (cancelled while queued, or a restart)
+                    await DmCampaign.updateOne({ _id: campaign._id, currentJobId: campaign.currentJobId }, { $unset: { currentJobId: 1 } });
+                }
+                if (campaign.nextRunAt && campaign.nextRunAt.getTime() > Date.now()) continue;
+                await this.startBatch(campaign);
+            }
+        } catch (error) {
+            logger.error('DM campaign scheduler error:', error);
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    private async startBatch(campaign: IDmCampaign) {
+        const id = String(campaign._id);
+        // A short batch can end before submit() returns, so its id is stored first for runBatch to clear
+        const jobId = randomUUID();
+        const stored = await DmCampaign.updateOne({ _id: campaign._id, status: 'running' }, { $set: { currentJobId: jobId }, $unset: { lastError: 1 } });
+        if (stored.modifiedCount === 0) return;
+        const job = await apiJobQueue.submit({
+            id: jobId,
+            type: 'dm-campaign',
+            account: campaign.account,
+            kind: 'session',
+            params: { campaignId: id, name: campaign.name },
+            unit: 'messages',
+            createdBy: campaign.createdBy,
+            run: context => this.runBatch(id, context)
+        });
+        if (!job) {
+            await DmCampaign.updateOne({ _id: campaign._id, currentJobId: jobId }, {
+                $set: { nextRunAt: new Date(Date.now() + ACCOUNT_RETRY_MS), lastError: `Account ${campaign.account} is not running` },
+                $unset: { currentJobId: 1 }
+            });
+        }
+    }
+
+    private async runBatch(id: string, { jobId, igClient, account, effective, logger: accountLogger, progress }: ApiJobContext) {
+        const result = { sent: 0, failed: 0, skipped: 0, remaining: 0, limitReached: false, dryRun: !!effective!.dryRun };
+        const campaign = await DmCampaign.findById(id);
+        if (!campaign || campaign.status !== 'running') return result;
+
+        const update = (username: string, fields: Partial<DmCampaignRecipient>, unset: (keyof DmCampaignRecipient)[] = []) => {
+            const set = Object.fromEntries(Object.entries(fields).map(([key, value]) => [`recipients.$.${key}`, value]));
+            const remove = Object.fromEntries(unset.map(key => [`recipients.$.${key}`, 1]));
+            return DmCampaign.updateOne({ _id: campaign._id, 'recipients.username': username }, { $set: set, ...(unset.length > 0 ? { $unset: remove } : {}) });
+        };
+
+        // A recipient still pending with an attempt time was being sent when the process stopped
+        for (const recipient of campaign.recipients.filter(r => r.status === 'pending' && r.attemptedAt)) {
+            recipient.status = 'failed';
+            await update(recipient.username, { status: 'failed', reason: 'Interrupted while sending; not retried to avoid a duplicate DM' });
+        }
+
+        // A dry run leaves recipients pending, so a real run of the campaign still sends to them
+        const dryRun = !!effective!.dryRun;
+        const isDue = (recipient: DmCampaignRecipient) => recipient.status === 'pending' && !(dryRun && recipient.dryRunAt);
+        const pending = campaign.recipients.filter(isDue);
+        const character = campaign.personalize ? chooseCharacter(account!.character) : null;
+        const limits = { dmsPerHour: effective!.limits.dmsPerHour };
+        progress(0, pending.length);
+        accountLogger.info(`DM campaign "${campaign.name}": batch started with ${pending.length} pending recipient(s).`);
+
+        let done = 0;
+        for (const recipient of pending) {
+            if (igClient.isStopRequested()) break;
+
+            const contact = await Contact.findOne({ username: recipient.username });
+            if (contact?.optedOutAt) {
+                await update(recipient.username, { status: 'skipped', reason: 'Opted out' });
+                result.skipped++;
+                progress(++done);
+                continue;
+            }
+
+            let message = renderTemplate(campaign.template, recipient);
+            if (character && contact && contact.facts.length > 0) {
+                const personalized = await runAgent(getCampaignMessageSchema(), buildCampaignMessagePrompt({
+                    character,
+                    username: recipient.username,
+                    message,
+                    facts: contact.facts,
+                    languages: effective!.languages || ['English'],
+                    defaultLanguage: effective!.defaultLanguage || 'English'
+                })).catch(() => null);
+                // runAgent answers with an error string when Gemini is unavailable; send the template then
+                const text = Array.isArray(personalized) ? personalized[0]?.message : null;
+                if (typeof text === 'string' && text.trim()) message = text.trim();
+            }
+
+            await update(recipient.username, { attemptedAt: new Date() });
+            let sent: boolean;
+            try {
+                sent = await igClient.sendDirectMessageWithMedia(recipient.username, message, campaign.mediaPath, limits);
+            } catch (error) {
+                await update(recipient.username, { status: 'failed', message, reason: (error as Error).message || String(error) });
+                result.failed++;
+                progress(++done);
+                continue;
+            }
+            if (!sent) {
+                // Skipped by the DM limits before anything was sent; the recipient stays pending
+                await update(recipient.username, {}, ['attemptedAt']);
+                result.limitReached = true;
+                break;
+            }
+            if (dryRun) {
+                await update(recipient.username, { message, dryRunAt: new Date() }, ['attemptedAt']);
+            } else {
+                await update(recipient.username, { status: 'sent', message, sentAt: new Date() }, ['dryRunAt']);
+            }
+            result.sent++;
+            progress(++done);
+            if (done < pending.length && !igClient.isStopRequested()) await delay(DM_DELAY_MS);
+        }
+
+        const latest = await DmCampaign.findById(id, { recipients: 1 });
+        result.remaining = latest ? latest.recipients.filter(isDue).length : 0;
+        const finished: Record<string, any> = { $unset: { currentJobId: 1 } };
+        if (result.remaining === 0 && dryRun) {
+            finished.$set = { status: 'paused', lastError: 'Dry run finished; resume the campaign with dry run off to send the messages' };
+        } else if (result.remaining === 0) {
+            finished.$set = { status: 'completed', finishedAt: new Date() };
+        } else if (result.limitReached) {
+            const dms = accountManager.getEffectiveLimits(campaign.account)?.limits.find(limit => limit.action === 'dms');
+            finished.$set = { nextRunAt: new Date(Date.now() + Math.max(dms?.availableInMs || 0, MIN_LIMIT_WAIT_MS)) };
+        }
+        // Only a campaign that is still running completes or gets rescheduled; a pause or cancel wins
+        await DmCampaign.updateOne({ _id: campaign._id, status: 'running' }, finished);
+        await DmCampaign.updateOne({ _id: campaign._id, currentJobId: jobId }, { $unset: { currentJobId: 1 } });
+        accountLogger.info(`DM campaign "${campaign.name}": batch ended (${result.sent} sent, ${result.failed} failed, ${result.skipped} skipped, ${result.remaining} pending${result.limitReached ? ', DM limit reached' : ''}).`);
+        if (result.remaining === 0) logger.info(`DM campaign "${campaign.name}" (${id}) ${dryRun ? 'dry run finished' : 'completed'}.`);
+        return result;
+    }
+}
+
+export const dmCampaigns = new DmCampaigns();
@@ -0,0 +1,93 @@
+import { EventEmitter } from 'events';
+
+export type BotEventType =
+    | 'session.started'
+    | 'session.ended'
+    | 'strategy.chosen'
+    | 'action'                  // Like, comment, DM, ... (one per action journal entry)
+    | 'challenge.detected'
+    | 'challenge.solved'
+    | 'action.blocked'
+    | 'rest.scheduled'
+    | 'account.paused'
+    | 'account.resumed'
+    | 'jobbot.progress';
+
+export interface BotEvent {
+    id: number;
+    type: BotEventType;
+    account: string | null;     // Account id, null for events outside the Instagram accounts (Job Bot)
+    timestamp: string;
+    message: string;
+    data?: Record<string, any>;
+}
+
+export interface BotEventFilter {
+    accounts?: string[];        // Only these accounts (events without an account are left out)
+    types?: string[];           // Exact types or prefixes: 'session' matches 'session.started' and 'session.ended'
+}
+
+// Recent events kept for clients that reconnect (Last-Event-ID) or open the feed late
+const HISTORY_SIZE = 500;
+
+export const matchesEventFilter = (event: BotEvent, filter: BotEventFilter = {}): boolean => {
+    if (filter.accounts && filter.accounts.length > 0) {
+        if (!event.account || !filter.accounts.includes(event.account)) return false;
+    }
+    if (filter.types && filter.types.length > 0) {
+        if (!filter.types.some(type => event.type === type || event.type.startsWith(`${type}.`))) return false;
+    }
+    return true;
+};
+
+/**
+ * In-process feed of structured bot events (sessions, strategies, actions, challenges, blocks,
+ * rest scheduling, Job Bot progress) for the live activity stream. Publishing never throws
+ * and never waits on subscribers.
+ */
+export class EventBus {
+    private emitter = new EventEmitter();
+    private history: BotEvent[] = [];
+    private nextId = 1;
+
+    constructor() {
+        // One listener per connected dashboard
+        this.emitter.setMaxListeners(0);
+    }
+
+    public publish(type: BotEventType, account: string | null, message: string, data?: Record<string, any>): BotEvent {
+        const event: BotEvent = { id: this.nextId++, type, account, timestamp: new Date().toISOString(), message, data };
+        this.history.push(event);
+        if (this.history.length > HISTORY_SIZE) this.history.shift();
+        try {
+            this.emitter.emit('event', event);
+        } catch {
+            // A broken subscriber must not interrupt the bot
+        }
+        return event;
+    }
+
+    /**
+     * Calls `listener` for every new event that matches the filter. Returns the unsubscribe function.
+     */
+    public subscribe(listener: (event: BotEvent) => void, filter: BotEventFilter = {}): () => void {
+        const handler = (event: BotEvent) => {
+            if (matchesEventFilter(event, filter)) listener(event);
+        };
+        this.emitter.on('event', handler);
+        return () => {
+            this.emitter.off('event', handler);
+        };
+    }
+
+    /**
+     * Buffered events newer than `afterId` that match the filter, oldest first.
+     */
+    public getRecent(filter: BotEventFilter = {}, afterId: number = 0, limit: number = HISTORY_SIZE): BotEvent[] {
+        return this.history
+            .filter(event => event.id > afterId && matchesEventFilter(event, filter))
+            .slice(-limit);
+    }
+}
+
+export const eventBus = new EventBus();
@@ -0,0 +1,259 @@
+import fs from 'fs';
+import mongoose from 'mongoose';
+import * as puppeteer from 'puppeteer';
+import { getBrowserExecutablePath, getGeminiKeyStatus } from '../utils';
+import { accountManager, AccountStatus } from './AccountManager';
+import { BotEvent, eventBus } from './EventBus';
+import { isShuttingDown } from './index';
+
+// getBrowserExecutablePath() probes the disk and logs; healthchecks poll, so reuse its answer for a while
+const BROWSER_CHECK_TTL_MS = 10 * 60 * 1000;
+const DB_PING_TIMEOUT_MS = 2000;
+
+export type HealthCheckStatus = 'ok' | 'degraded' | 'fail';
+
+export type AccountState =
+    | 'paused'
+    | 'on-challenge'        // Waiting for a CAPTCHA or security check to be solved by hand
+    | 'action-blocked'      // The last session hit "Try Again Later"; cleared when the next one starts
+    | 'dm-only'
+    | 'running'
+    | 'resting'
+    | 'sleeping'            // Outside the account's active hours
+    | 'idle';               // Waiting for the next loop iteration
+
+export interface AccountHealth {
+    id: string;
+    username: string;
+    state: AccountState;
+    until: string | null;            // When resting, sleeping or paused ends, if known
+    session: string | null;          // Kind of the session in progress: full, dm-only or action
+    currentAction: string | null;
+    challengeSince: string | null;
+    lastActionBlock: string | null;
+}
+
+export interface JobBotRun {
+    startedAt: string;
+    finishedAt: string | null;
+    result: 'running' | 'completed' | 'stopped' | 'failed';
+    jobsFound: number;
+    matches: number;
+    error?: string;
+}
+
+export interface JobBotHealth {
+    lastRun: JobBotRun | null;
+    lastSkipped: { at: string; reason: string } | null;   // Disabled or missing email settings
+}
+
+export interface HealthReport {
+    status: HealthCheckStatus;
+    ready: boolean;
+    checkedAt: string;
+    uptimeSeconds: number;
+    shuttingDown: boolean;
+    checks: {
+        database: { status: HealthCheckStatus; connected: boolean; latencyMs: number | null; error?: string };
+        gemini: { status: HealthCheckStatus; configured: number; available: number; coolingDown: { key: string; until: string }[] };
+        browser: { status: HealthCheckStatus; executablePath: string | null; source: 'system' | 'bundled' | null };
+    };
+    accounts: AccountHealth[];
+    jobBot: JobBotHealth;
+}
+
+interface AccountLiveState {
+    session: string | null;
+    challengeSince: number | null;
+    blockedAt: number | null;
+    blockedInSession: boolean;
+}
+
+const iso = (time: number | null) => (time ? new Date(time).toISOString() : null);
+
+const worst = (...statuses: HealthCheckStatus[]): HealthCheckStatus =>
+    statuses.includes('fail') ? 'fail' : (statuses.includes('degraded') ? 'degraded' : 'ok');
+
+/**
+ * Health and readiness of the process: MongoDB, Gemini keys and the browser as checks, plus
+ * the state of every account loop and the Job Bot's last run. Challenges, action blocks and
+ * Job Bot progress come from the event stream. Failing checks make the process not ready;
+ * challenges, blocks, cooling keys and a failed Job Bot run only degrade it.
+ */
+export class HealthMonitor {
+    private accounts = new Map<string, AccountLiveState>();
+    private jobBot: JobBotHealth = { lastRun: null, lastSkipped: null };
+    private browserCheck: { checkedAt: number; result: HealthReport['checks']['browser'] } | null = null;
+
+    constructor() {
+        eventBus.subscribe(event => this.onEvent(event),
+            { types: ['session', 'challenge', 'action.blocked', 'jobbot'] });
+    }
+
+    public async getReport(): Promise<HealthReport> {
+        const [database, browser] = await Promise.all([this.checkDatabase(), this.checkBrowser()]);
+        const gemini = this.checkGemini();
+        const accounts = accountManager.getAllAccountStatus().map(status => this.getAccountHealth(status));
+        const shuttingDown = isShuttingDown();
+
+        const accountsStatus: HealthCheckStatus = accounts.some(a => a.state === 'on-challenge' || a.state === 'action-blocked')
+            ? 'degraded' : 'ok';
+        const jobBotStatus: HealthCheckStatus = this.jobBot.lastRun?.result === 'failed' ? 'degraded' : 'ok';
+        const status = shuttingDown ? 'fail' : worst(database.status, gemini.status, browser.status, accountsStatus, jobBotStatus);
+
+        return {
+            status,
+            ready: status !== 'fail',
+            checkedAt: new Date().toISOString(),
+            uptimeSeconds: Math.round(process.uptime()),
+            shuttingDown,
+            checks: { database, gemini, browser },
+            accounts,
+            jobBot: this.jobBot
+        };
+    }
+
+    /**
+     * The Job Bot loop ran but did nothing (disabled, or no email settings).
+     */
+    public recordJobBotSkipped(reason: string) {
+        this.jobBot.lastSkipped = { at: new Date().toISOString(), reason };
+    }
+
+    public recordJobBotFailure(error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        const { lastRun } = this.jobBot;
+        if (lastRun && lastRun.result === 'running') {
+            lastRun.result = 'failed';
+            lastRun.finishedAt = new Date().toISOString();
+            lastRun.error = message;
+        } else {
+            // Failed before a search cycle started (e.g. the browser didn't launch)
+            const now = new Date().toISOString();
+            this.jobBot.lastRun = { startedAt: now, finishedAt: now, result: 'failed', jobsFound: 0, matches: 0, error: message };
+        }
+    }
+
+    private getAccountHealth(status: AccountStatus): AccountHealth {
+        const live = this.accounts.get(status.id);
+        const health = (state: AccountState, until: string | null = null): AccountHealth => ({
+            id: status.id,
+            username: status.username,
+            state,
+            until,
+            session: live?.session || null,
+            currentAction: status.currentAction,
+            challengeSince: iso(live?.challengeSince || null),
+            lastActionBlock: iso(live?.blockedAt || null)
+        });
+
+        if (status.paused) return health('paused', status.pausedUntil);
+        if (live?.challengeSince) return health('on-challenge');
+        if (live?.blockedInSession) return health('action-blocked', status.nextActiveTime);
+        if (live?.session === 'dm-only') return health('dm-only');
+        if (status.cycleRunning || status.currentAction || live?.session) return health('running');
+        if (status.nextActiveTime) return health('resting', status.nextActiveTime);
+        if (!status.inActiveHours) return health('sleeping', status.nextWakeUp);
+        return health('idle');
+    }
+
+    private async checkDatabase(): Promise<HealthReport['checks']['database']> {
+        const connected = mongoose.connection.readyState === 1;
+        if (!connected || !mongoose.connection.db) return { status: 'fail', connected: false, latencyMs: null };
+        const start = Date.now();
+        try {
+            await Promise.race([
+                mongoose.connection.db.admin().ping(),
+                new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Ping timed out')), DB_PING_TIMEOUT_MS).unref())
+            ]);
+            return { status: 'ok', connected: true, latencyMs: Date.now() - start };
+        } catch (error: any) {
+            return { status: 'fail', connected: true, latencyMs: null, error: error.message || String(error) };
+        }
+    }
+
+    private checkGemini(): HealthReport['checks']['gemini'] {
+        const keys = getGeminiKeyStatus();
+        const status: HealthCheckStatus = keys.available === 0 ? 'fail' : (keys.coolingDown.length > 0 ? 'degraded' : 'ok');
+        return { status, ...keys };
+    }
+
+    private async checkBrowser(): Promise<HealthReport['checks']['browser']> {
+        if (this.browserCheck && Date.now() - this.browserCheck.checkedAt < BROWSER_CHECK_TTL_MS) {
+            return this.browserCheck.result;
+        }
+        let result: HealthReport['checks']['browser'];
+        const systemPath = await getBrowserExecutablePath();
+        if (systemPath) {
+            result = { status: 'ok', executablePath: systemPath, source: 'system' };
+        } else {
+            // Without a system browser Puppeteer falls back to the Chrome it downloaded
+            let bundledPath: string | null = null;
+            try {
+                bundledPath = puppeteer.executablePath();
+            } catch { }
+            result = bundledPath && fs.existsSync(bundledPath)
+                ? { status: 'ok', executablePath: bundledPath, source: 'bundled' }
+                : { status: 'fail', executablePath: null, source: null };
+        }
+        this.browserCheck = { checkedAt: Date.now(), result };
+        return result;
+    }
+
+    private onEvent(event: BotEvent) {
+        if (event.type === 'jobbot.progress') {
+            this.onJobBotProgress(event);
+            return;
+        }
+        if (!event.account) return;
+        let live = this.accounts.get(event.account);
+        if (!live) {
+            live = { session: null, challengeSince: null, blockedAt: null, blockedInSession: false };
+            this.accounts.set(event.account, live);
+        }
+        const time = new Date(event.timestamp).getTime();
+        switch (event.type) {
+            case 'session.started':
+                live.session = event.data?.kind || 'full';
+                live.blockedInSession = false;
+                break;
+            case 'session.ended':
+                live.session = null;
+                live.challengeSince = null;
+                break;
+            case 'challenge.detected':
+                live.challengeSince = live.challengeSince || time;
+                break;
+            case 'challenge.solved':
+                live.challengeSince = null;
+                break;
+            case 'action.blocked':
+                live.blockedAt = time;
+                live.blockedInSession = true;
+                break;
+        }
+    }
+
+    private onJobBotProgress(event: BotEvent) {
+        const { lastRun } = this.jobBot;
+        switch (event.data?.stage) {
+            case 'cycle.started':
+                this.jobBot.lastRun = { startedAt: event.timestamp, finishedAt: null, result: 'running', jobsFound: 0, matches: 0 };
+                break;
+            case 'jobs.found':
+                if (lastRun?.result === 'running') lastRun.jobsFound += event.data.jobs || 0;
+                break;
+            case 'job.matched':
+                if (lastRun?.result === 'running') lastRun.matches++;
+                break;
+            case 'cycle.completed':
+                if (lastRun?.result === 'running') {
+                    lastRun.result = event.data.stopped ? 'stopped' : 'completed';
+                    lastRun.finishedAt = event.timestamp;
+                }
+                break;
+        }
+    }
+}
+
+export const healthMonitor = new HealthMonitor();
@@ -1,17 +1,18 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import logger from "../config/logger";
+import { geminiApiKeys } from "../secret";
+import { timeGeminiCall } from "./Metrics";
+import { markGeminiKeyRateLimited } from "../utils";
 import dotenv from "dotenv";
 
 dotenv.config();
 
 export class JobAnalyzer {
-    private apiKeys: string[];
+    // The shared key list, so keys replaced through /api/secrets apply without a restart
+    private apiKeys: string[] = geminiApiKeys;
     private currentKeyIndex: number = 0;
 
     constructor() {
-        const keys = process.env.GEMINI_API_KEYS || "";
-        this.apiKeys = keys.split(',').map(k => k.trim()).filter(k => k.length > 0);
-
         if (this.apiKeys.length === 0) {
             logger.warn("No GEMINI_API_KEYS found in .env. AI analysis will be disabled.");
         }
@@ -19,12 +20,15 @@ export class JobAnalyzer {
 
     private getNextKey(): string {
         if (this.apiKeys.length === 0) return "";
+        // The list may have shrunk since the last call
+        this.currentKeyIndex %= this.apiKeys.length;
         const key = this.apiKeys[this.currentKeyIndex];
         this.currentKeyIndex = (this.currentKeyIndex + 1) % this.apiKeys.length;
         return key;
     }
 
     async analyzeJob(jobTitle: string, company: string, description: string = "", targetTitle: string, targetPensum?: string): Promise<{ score: number, summary: string, isRelevant: boolean }> {
+        const keyIndex = this.currentKeyIndex;
         const apiKey = this.getNextKey();
         if (!apiKey) {
             return { score: 100, summary: "AI Analysis Disabled", isRelevant: true };
@@ -52,7 +56,7 @@ export class JobAnalyzer {
             - "isRelevant" (boolean, true if score > 60)
             `;
 
-            const result = await model.generateContent(prompt);
+            const result = await timeGeminiCall("JobAnalyzer", () => model.generateContent(prompt));
             const response = result.response;
             const text = response.text();
 
@@ -63,6 +67,7 @@ export class JobAnalyzer {
 
         } catch (error) {
             logger.error(`AI Analysis failed: ${error}`);
+            if (String(error).includes("429")) markGeminiKeyRateLimited(keyIndex);
             // Fallback to accepting it so we don't miss jobs on error
             return { score: 50, summary: "AI Error - Manual Review Needed", isRelevant: true };
         }
@@ -0,0 +1,113 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from '../utils/metrics';
+import { BotEvent, eventBus } from './EventBus';
+
+/**
+ * The bot's Prometheus metrics, served at /metrics. Instagram actions, challenges, blocks and
+ * session durations are counted from the event stream; the rest is recorded where it happens.
+ */
+export const metricsRegistry = new MetricsRegistry();
+
+export const instagramActions = metricsRegistry.register(new Counter(
+    'riona_instagram_actions_total',
+    'Instagram actions by account, action (like, comment, comment_like, dm, accept_dm_request, follow, unfollow, story_view, story_reaction, story_reply, post) and outcome.',
+    ['account', 'action', 'outcome']
+));
+
+export const instagramChallenges = metricsRegistry.register(new Counter(
+    'riona_instagram_challenges_total', 'Security challenges and CAPTCHAs that needed manual solving.', ['account']
+));
+
+export const instagramActionBlocks = metricsRegistry.register(new Counter(
+    'riona_instagram_action_blocks_total', 'Instagram "Try Again Later" action blocks.', ['account']
+));
+
+export const instagramLoginFailures = metricsRegistry.register(new Counter(
+    'riona_instagram_login_failures_total', 'Sessions that failed to log in (or restore a login).', ['account']
+));
+
+export const browserLaunchFailures = metricsRegistry.register(new Counter(
+    'riona_browser_launch_failures_total', 'Browsers that failed to launch, by bot (instagram, jobbot).', ['bot']
+));
+
+export const instagramSessionDuration = metricsRegistry.register(new Histogram(
+    'riona_instagram_session_duration_seconds',
+    'Duration of Instagram sessions by account and kind (full, dm-only, action).',
+    ['account', 'kind'],
+    [30, 60, 120, 300, 600, 900, 1800, 3600, 7200]
+));
+
+export const geminiRequestDuration = metricsRegistry.register(new Histogram(
+    'riona_gemini_request_duration_seconds',
+    'Gemini API call latency by caller (runAgent, JobAnalyzer, summarize) and outcome.',
+    ['caller', 'outcome'],
+    [0.25, 0.5, 1, 2, 4, 8, 16, 32, 64]
+));
+
+export const geminiKeyRotations = metricsRegistry.register(new Counter(
+    'riona_gemini_key_rotations_total', 'Switches to the next Gemini API key after a 429, by caller.', ['caller']
+));
+
+export const geminiFailures = metricsRegistry.register(new Counter(
+    'riona_gemini_failures_total', 'Failed Gemini API calls (including 429s) by caller.', ['caller']
+));
+
+export const jobBotJobs = metricsRegistry.register(new Counter(
+    'riona_jobbot_jobs_total', 'Job Bot jobs by platform and stage (scraped, analyzed, matched).', ['platform', 'stage']
+));
+
+type LimiterPool = { activeCount: number; pendingCount: number; concurrency: number };
+const limiters = new Map<string, LimiterPool>();
+
+metricsRegistry.register(new Gauge('riona_limiter_active', 'Tasks holding a slot of a concurrency pool.', ['pool'], gauge => {
+    for (const [pool, limit] of limiters) gauge.set({ pool }, limit.activeCount);
+}));
+metricsRegistry.register(new Gauge('riona_limiter_pending', 'Tasks waiting for a slot of a concurrency pool.', ['pool'], gauge => {
+    for (const [pool, limit] of limiters) gauge.set({ pool }, limit.pendingCount);
+}));
+metricsRegistry.register(new Gauge('riona_limiter_concurrency', 'Slots of a concurrency pool.', ['pool'], gauge => {
+    for (const [pool, limit] of limiters) gauge.set({ pool }, limit.concurrency);
+}));
+
+/**
+ * Reports a pLimit() pool in the limiter gauges.
+ */
+export const trackLimiter = (pool: string, limit: LimiterPool) => {
+    limiters.set(pool, limit);
+};
+
+/**
+ * Runs one Gemini call and records its latency and failure. 429 rotations are counted by the caller.
+ */
+export const timeGeminiCall = async <T>(caller: string, call: () => Promise<T>): Promise<T> => {
+    const stop = geminiRequestDuration.startTimer({ caller, outcome: 'success' });
+    const start = Date.now();
+    try {
+        const result = await call();
+        stop();
+        return result;
+    } catch (error) {
+        geminiRequestDuration.observe({ caller, outcome: 'error' }, (Date.now() - start) / 1000);
+        geminiFailures.inc({ caller });
+        throw error;
+    }
+};
+
+eventBus.subscribe((event: BotEvent) => {
+    const account = event.account || 'unknown';
+    switch (event.type) {
+        case 'action':
+            instagramActions.inc({ account, action: event.data?.action, outcome: event.data?.outcome });
+            break;
+        case 'challenge.detected':
+            instagramChallenges.inc({ account });
+            break;
+        case 'action.blocked':
+            instagramActionBlocks.inc({ account });
+            break;
+        case 'session.ended':
+            if (typeof event.data?.durationMs === 'number') {
+                instagramSessionDuration.observe({ account, kind: event.data.kind }, event.data.durationMs / 1000);
+            }
+            break;
+    }
+}, { types: ['action', 'challenge.detected', 'action.blocked', 'session.ended'] });
@@ -0,0 +1,144 @@
+import logger from '../config/logger';
+import { hashPassword, verifyPassword } from '../secret';
+import { IOperatorUser, OPERATOR_ROLES, OperatorRole, OperatorUser } from '../models/OperatorUser';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export interface OperatorUserView {
+    id: string;
+    username: string;
+    role: OperatorRole;
+    disabled: boolean;
+    lastLoginAt: string | null;
+    createdAt: string;
+}
+
+export interface OperatorUserUpdate {
+    role?: OperatorRole;
+    password?: string;
+    disabled?: boolean;
+}
+
+export const isOperatorRole = (value: unknown): value is OperatorRole =>
+    typeof value === 'string' && (OPERATOR_ROLES as string[]).includes(value);
+
+/**
+ * True when `role` includes the permissions of `required` (admin > operator > viewer).
+ */
+export const hasRole = (role: OperatorRole, required: OperatorRole) =>
+    OPERATOR_ROLES.indexOf(role) >= OPERATOR_ROLES.indexOf(required);
+
+export const toOperatorUserView = (user: IOperatorUser): OperatorUserView => ({
+    id: String(user._id),
+    username: user.username,
+    role: user.role,
+    disabled: user.disabled,
+    lastLoginAt: user.lastLoginAt ? user.lastLoginAt.toISOString() : null,
+    createdAt: user.createdAt.toISOString()
+});
+
+/**
+ * Dashboard operator accounts. Methods that change users return an error message instead
+ * of throwing when the request itself is invalid, so routes can answer 400/404/409.
+ */
+export class OperatorUsers {
+    public async authenticate(username: string, password: string): Promise<IOperatorUser | null> {
+        const user = await OperatorUser.findOne({ username: username.toLowerCase().trim() });
+        if (!user || user.disabled) return null;
+        if (!await verifyPassword(password, user.passwordHash)) return null;
+        user.lastLoginAt = new Date();
+        await user.save();
+        return user;
+    }
+
+    public async findActive(id: string): Promise<IOperatorUser | null> {
+        const user = await OperatorUser.findById(id).catch(() => null);
+        return user && !user.disabled ? user : null;
+    }
+
+    public async list(): Promise<OperatorUserView[]> {
+        const users = await OperatorUser.find({}).sort({ username: 1 });
+        return users.map(toOperatorUserView);
+    }
+
+    public async create(username: string, password: string, role: OperatorRole): Promise<OperatorUserView | { error: string; status: number }> {
+        const name = username.toLowerCase().trim();
+        if (!/^[a-z0-9._-]{3,32}$/.test(name)) {
+            return { error: 'username must be 3-32 characters: letters, digits, ".", "_" or "-"', status: 400 };
+        }
+        const passwordProblem = this.checkPassword(password);
+        if (passwordProblem) return { error: passwordProblem, status: 400 };
+        if (await OperatorUser.exists({ username: name })) {
+            return { error: `User ${name} already exists`, status: 409 };
+        }
+
+        const user = await OperatorUser.create({ username: name, passwordHash: await hashPassword(password), role });
+        logger.info(`Operator user ${name} created with role ${role}.`);
+        return toOperatorUserView(user);
+    }
+
+    public async update(username: string, changes: OperatorUserUpdate): Promise<OperatorUserView | { error: string; status: number }> {
+        const user = await OperatorUser.findOne({ username: username.toLowerCase().trim() });
+        if (!user) return { error: `User ${username} not found`, status: 404 };
+
+        if (changes.password !== undefined) {
+            const passwordProblem = this.checkPassword(changes.password);
+            if (passwordProblem) return { error: passwordProblem, status: 400 };
+            user.passwordHash = await hashPassword(changes.password);
+        }
+        const losesAdmin = user.role === 'admin' && !user.disabled &&
+            ((changes.role !== undefined && changes.role !== 'admin') || changes.disabled === true);
+        if (losesAdmin && await this.isLastAdmin(user)) {
+            return { error: 'Cannot demote or disable the last active admin', status: 409 };
+        }
+        if (changes.role !== undefined) user.role = changes.role;
+        if (changes.disabled !== undefined) user.disabled = changes.disabled;
+
+        await user.save();
+        logger.info(`Operator user ${user.username} updated (${Object.keys(changes).join(', ')}).`);
+        return toOperatorUserView(user);
+    }
+
+    public async remove(username: string): Promise<{ error: string; status: number } | null> {
+        const user = await OperatorUser.findOne({ username: username.toLowerCase().trim() });
+        if (!user) return { error: `User ${username} not found`, status: 404 };
+        if (user.role === 'admin' && !user.disabled && await this.isLastAdmin(user)) {
+            return { error: 'Cannot delete the last active admin', status: 409 };
+        }
+        await user.deleteOne();
+        logger.info(`Operator user ${user.username} deleted.`);
+        return null;
+    }
+
+    /**
+     * Creates the first admin from OPERATOR_ADMIN_USERNAME / OPERATOR_ADMIN_PASSWORD when
+     * there are no operator users yet. Does nothing once any user exists.
+     */
+    public async ensureInitialAdmin() {
+        if (await OperatorUser.estimatedDocumentCount() > 0) return;
+        const username = process.env.OPERATOR_ADMIN_USERNAME;
+        const password = process.env.OPERATOR_ADMIN_PASSWORD;
+        if (!username || !password) {
+            logger.warn("No operator users exist. Set OPERATOR_ADMIN_USERNAME and OPERATOR_ADMIN_PASSWORD or run `npm run create:operator` to create an admin.");
+            return;
+        }
+        const result = await this.create(username, password, 'admin');
+        if ('error' in result) {
+            logger.error(`Could not create the initial admin: ${result.error}`);
+        }
+    }
+
+    private checkPassword(password: unknown): string | null {
+        if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+            return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+        }
+        return null;
+    }
+
+    private async isLastAdmin(user: IOperatorUser): Promise<boolean> {
+        const otherAdmins = await OperatorUser.countDocuments({ role: 'admin', disabled: false, _id: { $ne: user._id } });
+        return otherAdmins === 0;
+    }
+}
+
+export const operatorUsers = new OperatorUsers();
@@ -0,0 +1,453 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import logger from '../config/logger';
+import { chooseCharacter, runAgent } from '../Agent';
+import { buildPostCaptionPrompt } from '../Agent/prompts';
+import { getPostCaptionSchema } from '../Agent/schema';
+import { EffectiveAccountSettings } from '../config/accountConfig';
+import { IScheduledPost, ScheduledPost, ScheduledPostStatus } from '../models/ScheduledPost';
+import { accountManager } from './AccountManager';
+import { ApiJobContext, apiJobQueue } from './ApiJobQueue';
+
+// How often due posts are checked
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+// Next attempt when the account has no running loop
+const ACCOUNT_RETRY_MS = 15 * 60 * 1000;
+// Shortest wait after the post limit was reached
+const MIN_LIMIT_WAIT_MS = 5 * 60 * 1000;
+// Instagram carousels hold up to 10 items
+const MAX_MEDIA = 10;
+const MEDIA_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.mp4', '.mov'];
+// Statuses in which a post can still be edited, approved or cancelled
+const EDITABLE: ScheduledPostStatus[] = ['pending_approval', 'scheduled', 'failed'];
+
+export interface ScheduledPostView {
+    id: string;
+    account: string;
+    status: ScheduledPostStatus;
+    mediaPaths: string[];
+    notes: string | null;
+    postType: string | null;
+    caption: string;
+    captionSource: 'generated' | 'manual';
+    scheduledAt: string;
+    nextAttemptAt: string | null;
+    requireApproval: boolean;
+    approvedBy: string | null;
+    approvedAt: string | null;
+    currentJobId: string | null;
+    postUrl: string | null;
+    publishedAt: string | null;
+    dryRun: boolean;
+    lastError: string | null;
+    createdBy: string;
+    createdAt: string;
+}
+
+export interface CreateScheduledPostInput {
+    account: string;
+    mediaPaths: string[];
+    notes?: string;
+    caption?: string;            // Used as is; generated from the character when omitted
+    postType?: string;           // captions.postTypes key; picked by frequency when omitted
+    scheduledAt?: string;        // Default now
+    requireApproval?: boolean;   // Default settings.posts.requireApproval
+    createdBy: string;
+}
+
+export interface UpdateScheduledPostInput {
+    mediaPaths?: string[];
+    notes?: string;
+    caption?: string;
+    scheduledAt?: string;
+}
+
+export interface ScheduledPostQuery {
+    account?: string;
+    status?: ScheduledPostStatus;
+    limit?: number;
+    skip?: number;
+}
+
+type PostResult<T> = T | { error: string; status: number };
+
+const EMOJI = () => new RegExp('\\p{Extended_Pictographic}(\\uFE0F)?', 'gu');
+
+/**
+ * Picks a captions.postTypes key at random, weighted by each type's frequency.
+ */
+export const pickPostType = (captions: any): string | null => {
+    const types = Object.entries<any>(captions?.postTypes || {}).filter(([, type]) => typeof type?.frequency === 'number' && type.frequency > 0);
+    const total = types.reduce((sum, [, type]) => sum + type.frequency, 0);
+    let roll = Math.random() * total;
+    for (const [name, type] of types) {
+        roll -= type.frequency;
+        if (roll < 0) return name;
+    }
+    return types.length > 0 ? types[types.length - 1][0] : null;
+};
+
+/**
+ * Final caption from the model's text and hashtags, holding them to the character's rules:
+ * no avoided emojis and at most `emojis.max`, hashtags deduplicated and within `hashtags.count`
+ * (topped up from the categories, location first when `localFirst`), placed at the end.
+ */
+export const formatCaption = (text: string, hashtags: string[], captions: any): string => {
+    const avoid = new Set<string>((captions?.emojis?.avoid || []).map((emoji: string) => emoji.replace(/\uFE0F/g, '')));
+    const maxEmojis = typeof captions?.emojis?.max === 'number' ? captions.emojis.max : Infinity;
+    let emojis = 0;
+    const body = text
+        .replace(/(^|\s)#[^\s#]+/g, '')
+        .replace(EMOJI(), emoji => avoid.has(emoji.replace(/\uFE0F/g, '')) || ++emojis > maxEmojis ? '' : emoji)
+        .replace(/[ \t]{2,}/g, ' ')
+        .trim();
+
+    const count = captions?.hashtags?.count || {};
+    const categories: Record<string, string[]> = captions?.hashtags?.categories || {};
+    const fillers = Object.entries(categories)
+        .sort(([a], [b]) => captions?.hashtags?.localFirst ? Number(b === 'location') - Number(a === 'location') : 0)
+        .flatMap(([, tags]) => tags);
+    const tags: string[] = [];
+    const seen = new Set<string>();
+    const add = (tag: string) => {
+        const normalized = `#${tag.trim().replace(/^#+/, '').replace(/\s+/g, '')}`;
+        if (normalized === '#' || seen.has(normalized.toLowerCase())) return;
+        seen.add(normalized.toLowerCase());
+        tags.push(normalized);
+    };
+    // Hashtags the model put in the text anyway move to the end
+    [...hashtags, ...(text.match(/#[^\s#]+/g) || [])].forEach(add);
+    for (const tag of fillers) {
+        if (tags.length >= (count.min || 0)) break;
+        add(tag);
+    }
+    const selected = tags.slice(0, count.max || tags.length);
+    return selected.length > 0 ? `${body}\n\n${selected.join(' ')}` : body;
+};
+
+const toView = (post: IScheduledPost): ScheduledPostView => ({
+    id: String(post._id),
+    account: post.account,
+    status: post.status,
+    mediaPaths: post.mediaPaths,
+    notes: post.notes ?? null,
+    postType: post.postType ?? null,
+    caption: post.caption,
+    captionSource: post.captionSource,
+    scheduledAt: post.scheduledAt.toISOString(),
+    nextAttemptAt: post.nextAttemptAt ? post.nextAttemptAt.toISOString() : null,
+    requireApproval: post.requireApproval,
+    approvedBy: post.approvedBy ?? null,
+    approvedAt: post.approvedAt ? post.approvedAt.toISOString() : null,
+    currentJobId: post.currentJobId ?? null,
+    postUrl: post.postUrl ?? null,
+    publishedAt: post.publishedAt ? post.publishedAt.toISOString() : null,
+    dryRun: !!post.dryRun,
+    lastError: post.lastError ?? null,
+    createdBy: post.createdBy,
+    createdAt: post.createdAt.toISOString()
+});
+
+const checkMedia = (mediaPaths: string[]): string | null => {
+    if (mediaPaths.length === 0) return 'A post needs at least one media file';
+    if (mediaPaths.length > MAX_MEDIA) return `A post can have at most ${MAX_MEDIA} media files`;
+    for (const file of mediaPaths) {
+        if (!MEDIA_EXTENSIONS.includes(path.extname(file).toLowerCase())) {
+            return `Unsupported media file ${file} (use ${MEDIA_EXTENSIONS.join(', ')})`;
+        }
+        if (!fs.existsSync(path.resolve(file))) return `Media file ${file} not found on the server`;
+    }
+    return null;
+};
+
+/**
+ * Publishing queue. Each queued post has media files on the server, a caption (written by the
+ * operator, or generated by Gemini from the character's `captions` style and the post notes)
+ * and a publish time. Posts that need approval wait in `pending_approval` until an operator
+ * approves them. When a post is due, the scheduler runs a `publish-post` job on the account
+ * loop, within the account's post limits, and stores the URL of the published post. Methods
+ * that change posts return an error message instead of throwing when the request is invalid.
+ */
+export class ScheduledPosts {
+    private timer: NodeJS.Timeout | null = null;
+    private ticking = false;
+
+    public start() {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.tick(), SCHEDULER_INTERVAL_MS);
+        this.timer.unref();
+        this.tick();
+    }
+
+    public stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    public async create(input: CreateScheduledPostInput): Promise<PostResult<ScheduledPostView>> {
+        const account = accountManager.getAccountConfig(input.account);
+        const effective = accountManager.getEffectiveSettings(input.account);
+        if (!account || !effective) return { error: `Account ${input.account} is not running`, status: 404 };
+        const mediaProblem = checkMedia(input.mediaPaths);
+        if (mediaProblem) return { error: mediaProblem, status: 400 };
+
+        const character = chooseCharacter(account.character);
+        const postTypes = Object.keys(character?.captions?.postTypes || {});
+        if (input.postType !== undefined && !postTypes.includes(input.postType)) {
+            return { error: `Unknown post type "${input.postType}" (available: ${postTypes.join(', ') || 'none'})`, status: 400 };
+        }
+
+        let caption = input.caption?.trim();
+        let postType = input.postType;
+        if (!caption) {
+            postType = postType ?? pickPostType(character?.captions) ?? undefined;
+            const generated = await this.generateCaption(character, effective, input.notes || '', postType ?? null);
+            if (!generated) return { error: 'Caption generation failed; try again or provide a caption', status: 502 };
+            caption = generated;
+        }
+
+        const requireApproval = input.requireApproval ?? effective.posts.requireApproval;
+        const post = await ScheduledPost.create({
+            account: input.account,
+            status: requireApproval ? 'pending_approval' : 'scheduled',
+            mediaPaths: input.mediaPaths,
+            notes: input.notes,
+            postType,
+            caption,
+            captionSource: input.caption?.trim() ? 'manual' : 'generated',
+            scheduledAt: input.scheduledAt ? new Date(input.scheduledAt) : new Date(),
+            requireApproval,
+            createdBy: input.createdBy
+        });
+        logger.info(`Post ${post._id} for ${input.account} queued by ${input.createdBy} for ${post.scheduledAt.toISOString()}${requireApproval ? ' (needs approval)' : ''}.`);
+        this.tick();
+        return toView(post);
+    }
+
+    public async list(query: ScheduledPostQuery = {}): Promise<{ total: number; posts: ScheduledPostView[] }> {
+        const filter: Record<string, any> = {};
+        if (query.account) filter.account = query.account;
+        if (query.status) filter.status = query.status;
+        const [total, posts] = await Promise.all([
+            ScheduledPost.countDocuments(filter),
+            ScheduledPost.find(filter).sort({ scheduledAt: -1 }).skip(query.skip || 0).limit(query.limit || 50)
+        ]);
+        return { total, posts: posts.map(toView) };
+    }
+
+    public async get(id: string): Promise<ScheduledPostView | null> {
+        const post = await ScheduledPost.findById(id).catch(() => null);
+        return post ? toView(post) : null;
+    }
+
+    /**
+     * Edits a post that hasn't been published. A changed caption or media of a post that needs
+     * approval needs approval again; a failed post is queued again.
+     */
+    public async update(id: string, input: UpdateScheduledPostInput): Promise<PostResult<ScheduledPostView> | null> {
+        const post = await ScheduledPost.findById(id).catch(() => null);
+        if (!post) return null;
+        if (!EDITABLE.includes(post.status)) return { error: `Post is ${post.status}`, status: 409 };
+        if (input.mediaPaths !== undefined) {
+            const mediaProblem = checkMedia(input.mediaPaths);
+            if (mediaProblem) return { error: mediaProblem, status: 400 };
+            post.mediaPaths = input.mediaPaths;
+        }
+        if (input.caption !== undefined) {
+            post.caption = input.caption.trim();
+            post.captionSource = 'manual';
+        }
+        if (input.notes !== undefined) post.notes = input.notes;
+        if (input.scheduledAt !== undefined) post.scheduledAt = new Date(input.scheduledAt);
+        return this.saveChanges(post, input.caption !== undefined || input.mediaPaths !== undefined);
+    }
+
+    /**
+     * Writes a new caption with Gemini, from the (optionally replaced) notes and post type.
+     */
+    public async regenerateCaption(id: string, input: { notes?: string; postType?: string }): Promise<PostResult<ScheduledPostView> | null> {
+        const post = await ScheduledPost.findById(id).catch(() => null);
+        if (!post) return null;
+        if (!EDITABLE.includes(post.status)) return { error: `Post is ${post.status}`, status: 409 };
+        const account = accountManager.getAccountConfig(post.account);
+        const effective = accountManager.getEffectiveSettings(post.account);
+        if (!account || !effective) return { error: `Account ${post.account} is not running`, status: 404 };
+
+        const character = chooseCharacter(account.character);
+        const postTypes = Object.keys(character?.captions?.postTypes || {});
+        if (input.postType !== undefined && !postTypes.includes(input.postType)) {
+            return { error: `Unknown post type "${input.postType}" (available: ${postTypes.join(', ') || 'none'})`, status: 400 };
+        }
+        const notes = input.notes ?? post.notes ?? '';
+        const postType = input.postType ?? post.postType ?? pickPostType(character?.captions) ?? undefined;
+        const caption = await this.generateCaption(character, effective, notes, postType ?? null);
+        if (!caption) return { error: 'Caption generation failed; try again or edit the caption', status: 502 };
+
+        post.notes = notes || undefined;
+        post.postType = postType;
+        post.caption = caption;
+        post.captionSource = 'generated';
+        return this.saveChanges(post, true);
+    }
+
+    public async approve(id: string, operator: string): Promise<PostResult<ScheduledPostView> | null> {
+        const post = await ScheduledPost.findById(id).catch(() => null);
+        if (!post) return null;
+        if (post.status !== 'pending_approval') return { error: `Post is ${post.status}`, status: 409 };
+        post.status = 'scheduled';
+        post.approvedBy = operator;
+        post.approvedAt = new Date();
+        await post.save();
+        logger.info(`Post ${id} for ${post.account} approved by ${operator}.`);
+        this.tick();
+        return toView(post);
+    }
+
+    public async cancel(id: string): Promise<PostResult<ScheduledPostView> | null> {
+        const post = await ScheduledPost.findById(id).catch(() => null);
+        if (!post) return null;
+        if (!EDITABLE.includes(post.status)) return { error: `Post is ${post.status}`, status: 409 };
+        post.status = 'cancelled';
+        await post.save();
+        // A publish job that hasn't started yet is dropped
+        if (post.currentJobId) await apiJobQueue.cancel(post.currentJobId).catch(() => null);
+        logger.info(`Post ${id} for ${post.account} cancelled.`);
+        return toView(post);
+    }
+
+    private async saveChanges(post: IScheduledPost, needsApprovalAgain: boolean): Promise<ScheduledPostView> {
+        if (post.requireApproval && (needsApprovalAgain || !post.approvedAt)) {
+            post.status = 'pending_approval';
+            post.approvedBy = undefined;
+            post.approvedAt = undefined;
+        } else if (post.status === 'failed') {
+            post.status = 'scheduled';
+        }
+        post.lastError = undefined;
+        post.nextAttemptAt = undefined;
+        await post.save();
+        this.tick();
+        return toView(post);
+    }
+
+    private async generateCaption(character: any, effective: EffectiveAccountSettings, notes: string, postType: string | null): Promise<string | null> {
+        const result = await runAgent(getPostCaptionSchema(), buildPostCaptionPrompt({
+            character,
+            postType,
+            notes,
+            languages: effective.languages || ['English'],
+            defaultLanguage: effective.defaultLanguage || 'English'
+        })).catch(() => null);
+        // runAgent answers with an error string when Gemini is unavailable
+        const generated = Array.isArray(result) ? result[0] : null;
+        if (!generated || typeof generated.caption !== 'string' || !generated.caption.trim()) return null;
+        const hashtags = Array.isArray(generated.hashtags) ? generated.hashtags.filter((tag: unknown) => typeof tag === 'string') : [];
+        return formatCaption(generated.caption, hashtags, character?.captions);
+    }
+
+    /**
+     * Starts a publish job for every due post, and fails posts whose publish job ended
+     * without a result (a restart mid-publish).
+     */
+    private async tick() {
+        if (this.ticking) return;
+        this.ticking = true;
+        try {
+            const now = new Date();
+            const active = await ScheduledPost.find({
+                $or: [
+                    { status: 'publishing' },
+                    { status: 'scheduled', scheduledAt: { $lte: now }, $or: [{ nextAttemptAt: { $exists: false } }, { nextAttemptAt: { $lte: now } }] }
+                ]
+            });
+            for (const post of active) {
+                if (post.currentJobId) {
+                    const job = await apiJobQueue.get(post.currentJobId);
+                    if (job && (job.status === 'queued' || job.status === 'running')) continue;
+                    await ScheduledPost.updateOne({ _id: post._id, currentJobId: post.currentJobId }, { $unset: { currentJobId: 1 } });
+                }
+                if (post.status === 'publishing') {
+                    // Instagram may have published it already, so it is not retried automatically
+                    await ScheduledPost.updateOne({ _id: post._id, status: 'publishing' }, {
+                        $set: { status: 'failed', lastError: 'Interrupted while publishing; check the profile before retrying' }
+                    });
+                    continue;
+                }
+                await this.startPublish(post);
+            }
+        } catch (error) {
+            logger.error('Post scheduler error:', error);
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    private async startPublish(post: IScheduledPost) {
+        const id = String(post._id);
+        // The job can start before submit() returns, so its id is stored first for the claim in runPublish
+        const jobId = randomUUID();
+        const stored = await ScheduledPost.updateOne({ _id: post._id, status: 'scheduled' }, { $set: { currentJobId: jobId }, $unset: { lastError: 1 } });
+        if (stored.modifiedCount === 0) return;
+        const job = await apiJobQueue.submit({
+            id: jobId,
+            type: 'publish-post',
+            account: post.account,
+            kind: 'session',
+            params: { postId: id, media: post.mediaPaths.length },
+            unit: 'posts',
+            createdBy: post.approvedBy || post.createdBy,
+            run: context => this.runPublish(id, context)
+        });
+        if (!job) {
+            await ScheduledPost.updateOne({ _id: post._id, currentJobId: jobId }, {
+                $set: { nextAttemptAt: new Date(Date.now() + ACCOUNT_RETRY_MS), lastError: `Account ${post.account} is not running` },
+                $unset: { currentJobId: 1 }
+            });
+        }
+    }
+
+    private async runPublish(id: string, { jobId, igClient, effective, logger: accountLogger, progress }: ApiJobContext) {
+        // Claim the post; an edit, cancel or approval reset since the job was queued wins
+        const post = await ScheduledPost.findOneAndUpdate(
+            { _id: id, status: 'scheduled', currentJobId: jobId },
+            { $set: { status: 'publishing', attemptedAt: new Date() } },
+            { new: true }
+        );
+        if (!post) return { published: false, postUrl: null };
+        progress(0, 1);
+        accountLogger.info(`Publishing queued post ${id} (${post.mediaPaths.length} media file(s)).`);
+
+        let result: { postUrl: string | null } | null;
+        try {
+            result = await igClient.publishPost(post.mediaPaths, post.caption, { postsPerHour: effective!.limits.postsPerHour });
+        } catch (error) {
+            await ScheduledPost.updateOne({ _id: post._id }, {
+                $set: { status: 'failed', lastError: (error as Error).message || String(error) },
+                $unset: { currentJobId: 1 }
+            });
+            throw error;
+        }
+
+        if (!result) {
+            const posts = accountManager.getEffectiveLimits(post.account)?.limits.find(limit => limit.action === 'posts');
+            const nextAttemptAt = new Date(Date.now() + Math.max(posts?.availableInMs || 0, MIN_LIMIT_WAIT_MS));
+            await ScheduledPost.updateOne({ _id: post._id }, {
+                $set: { status: 'scheduled', nextAttemptAt, lastError: 'Post limit reached' },
+                $unset: { currentJobId: 1, attemptedAt: 1 }
+            });
+            accountLogger.info(`Post ${id} postponed to ${nextAttemptAt.toISOString()}: post limit reached.`);
+            return { published: false, postUrl: null, limitReached: true };
+        }
+
+        await ScheduledPost.updateOne({ _id: post._id }, {
+            $set: { status: 'published', publishedAt: new Date(), dryRun: !!effective!.dryRun, ...(result.postUrl ? { postUrl: result.postUrl } : {}) },
+            $unset: { currentJobId: 1, lastError: 1, nextAttemptAt: 1 }
+        });
+        progress(1);
+        logger.info(`Post ${id} for ${post.account} published${result.postUrl ? `: ${result.postUrl}` : ''}.`);
+        return { published: true, postUrl: result.postUrl };
+    }
+}
+
+export const scheduledPosts = new ScheduledPosts();
@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import logger from '../config/logger';
+import { geminiApiKeys, setGeminiApiKeys, setJwtSecret } from '../secret';
+import { withFileLock } from '../utils';
+
+// The file dotenv.config() loads
+export const ENV_FILE_PATH = path.resolve(process.cwd(), process.env.ENV_FILE_PATH || '.env');
+
+export interface SecretView {
+    name: string;
+    configured: boolean;
+    count?: number;             // Keys in a comma-separated list
+    hints: string[];            // Last 4 characters of each value, never the value itself
+}
+
+const hint = (value: string) => `…${value.slice(-4)}`;
+
+/**
+ * Replaces KEY=value lines of the .env file (appending missing keys) and keeps the rest of
+ * the file as it is. Values are written unquoted; they must not contain line breaks.
+ */
+const writeEnvValues = (values: Record<string, string>) => {
+    withFileLock(ENV_FILE_PATH, () => {
+        const lines = fs.existsSync(ENV_FILE_PATH) ? fs.readFileSync(ENV_FILE_PATH, 'utf-8').split(/\r?\n/) : [];
+        const remaining = new Map(Object.entries(values));
+        const updated = lines.map(line => {
+            const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/.exec(line);
+            if (!match || !remaining.has(match[1])) return line;
+            const value = remaining.get(match[1])!;
+            remaining.delete(match[1]);
+            return `${match[1]}=${value}`;
+        });
+        while (updated.length > 0 && updated[updated.length - 1] === '') updated.pop();
+        for (const [key, value] of remaining) updated.push(`${key}=${value}`);
+
+        const tempFile = `${ENV_FILE_PATH}.${process.pid}.tmp`;
+        fs.writeFileSync(tempFile, `${updated.join('\n')}\n`, { mode: 0o600 });
+        fs.renameSync(tempFile, ENV_FILE_PATH);
+    });
+};
+
+/**
+ * Admin management of the secrets the bot reads from .env: the Gemini API keys and the JWT
+ * signing secret. Changes are written to .env, so they survive a restart, and applied to the
+ * running process at once. Secret values are write-only; views only show their last characters.
+ */
+export class Secrets {
+    public list(): SecretView[] {
+        const jwtSecret = process.env.JWT_SECRET;
+        return [
+            { name: 'GEMINI_API_KEYS', configured: geminiApiKeys.length > 0, count: geminiApiKeys.length, hints: geminiApiKeys.map(hint) },
+            // Without JWT_SECRET the built-in development default signs the tokens
+            { name: 'JWT_SECRET', configured: !!jwtSecret, hints: jwtSecret ? [hint(jwtSecret)] : [] }
+        ];
+    }
+
+    public setGeminiKeys(keys: string[]): { error: string; status: number } | SecretView {
+        const cleaned = [...new Set(keys.map(key => key.trim()).filter(key => key !== ''))];
+        if (cleaned.some(key => /[\s,"'#]/.test(key))) {
+            return { error: 'Gemini API keys must not contain spaces, commas, quotes or "#"', status: 400 };
+        }
+        writeEnvValues({ GEMINI_API_KEYS: cleaned.join(',') });
+        setGeminiApiKeys(cleaned);
+        logger.info(`Gemini API keys replaced (${cleaned.length} key(s)).`);
+        return this.list().find(secret => secret.name === 'GEMINI_API_KEYS')!;
+    }
+
+    /**
+     * Replaces the JWT secret with a new random one. Every issued token, including the
+     * caller's, stops working, so all operators have to log in again.
+     */
+    public rotateJwtSecret(): SecretView {
+        const secret = crypto.randomBytes(48).toString('hex');
+        writeEnvValues({ JWT_SECRET: secret });
+        setJwtSecret(secret);
+        logger.warn('JWT secret rotated. Every operator has to log in again.');
+        return this.list().find(entry => entry.name === 'JWT_SECRET')!;
+    }
+}
+
+export const secrets = new Secrets();
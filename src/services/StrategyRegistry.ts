@@ -0,0 +1,223 @@
+import logger from '../config/logger';
+import { AccountBehavior, AccountLimits, EffectiveStrategy, FollowSettings, StrategyValidators } from '../config/accountConfig';
+import { IgClient, STORY_QUICK_REACTIONS } from '../client/IG-bot/IgClient';
+import { audiences } from './Audiences';
+import { eventBus } from './EventBus';
+
+export interface StrategyContext {
+    igClient: IgClient;
+    accountId: string;
+    behavior: Required<AccountBehavior>;
+    limits: Omit<AccountLimits, 'likesPerSession'> & { likesPerSession: number }; // likesPerSession = this session's target
+    follows: Required<FollowSettings>;
+    options: Record<string, any>;
+    logger: any;
+}
+
+export interface InteractionStrategy {
+    name: string;
+    description: string;
+    /** Returns an error message when the options can't be used, checked when accounts.json is loaded. */
+    validateOptions?(options: Record<string, any>): string | null;
+    /** Runs one session of the strategy and returns the number of actions completed. */
+    run(context: StrategyContext): Promise<number>;
+}
+
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string' && v.trim() !== '');
+
+/**
+ * Interaction strategies an account session can pick from. Accounts choose by weight
+ * (settings.strategies) and fall back through settings.fallbackOrder when the chosen
+ * strategy completes no actions. New strategies only need to be registered here.
+ */
+export class StrategyRegistry {
+    private strategies = new Map<string, InteractionStrategy>();
+
+    public register(strategy: InteractionStrategy) {
+        if (this.strategies.has(strategy.name)) {
+            logger.warn(`Strategy "${strategy.name}" is already registered. Replacing it.`);
+        }
+        this.strategies.set(strategy.name, strategy);
+    }
+
+    public get(name: string): InteractionStrategy | undefined {
+        return this.strategies.get(name);
+    }
+
+    public names(): string[] {
+        return [...this.strategies.keys()];
+    }
+
+    public getValidators(): StrategyValidators {
+        const validators: StrategyValidators = {};
+        for (const [name, strategy] of this.strategies) {
+            validators[name] = strategy.validateOptions ? options => strategy.validateOptions!(options) : undefined;
+        }
+        return validators;
+    }
+
+    /**
+     * Weighted random pick. Strategies that are not registered or have no weight are ignored.
+     */
+    public pick(candidates: EffectiveStrategy[]): EffectiveStrategy | null {
+        const usable = candidates.filter(c => c.weight > 0 && this.strategies.has(c.name));
+        const total = usable.reduce((sum, c) => sum + c.weight, 0);
+        if (total <= 0) return null;
+
+        let roll = Math.random() * total;
+        for (const candidate of usable) {
+            roll -= candidate.weight;
+            if (roll < 0) return candidate;
+        }
+        return usable[usable.length - 1];
+    }
+
+    /**
+     * Runs a weighted pick, then each fallback strategy in order until one completes at least
+     * one action or the session is asked to stop. Returns the total actions completed.
+     */
+    public async runWithFallback(
+        candidates: EffectiveStrategy[],
+        fallbackOrder: string[],
+        context: Omit<StrategyContext, 'options' | 'limits'> & { limits: AccountLimits },
+        onStart?: (name: string) => void
+    ): Promise<number> {
+        const chosen = this.pick(candidates);
+        const queue: EffectiveStrategy[] = chosen ? [chosen] : [];
+        for (const name of fallbackOrder) {
+            if (queue.some(s => s.name === name)) continue;
+            // Fallbacks that are not in the weighted list still run, with the session defaults
+            queue.push(candidates.find(c => c.name === name) || {
+                name,
+                weight: 0,
+                actionsPerSession: candidates[0]?.actionsPerSession || { min: 10, max: 10 },
+                options: {}
+            });
+        }
+
+        const totalWeight = candidates.reduce((sum, c) => sum + Math.max(c.weight, 0), 0) || 1;
+        for (const [index, entry] of queue.entries()) {
+            if (context.igClient.isStopRequested()) break;
+            const strategy = this.strategies.get(entry.name);
+            if (!strategy) {
+                context.logger.warn(`Strategy "${entry.name}" is not registered. Skipping.`);
+                continue;
+            }
+
+            const { min, max } = entry.actionsPerSession;
+            const target = Math.floor(Math.random() * (max - min + 1)) + min;
+            if (index === 0 && entry === chosen) {
+                context.logger.info(`Chosen Strategy: ${entry.name.toUpperCase()} (Probability: ${(entry.weight / totalWeight).toFixed(2)}, Target: ${target} actions)`);
+            } else {
+                context.logger.warn(`Attempting fallback ${entry.name.toUpperCase()} strategy (Target: ${target} actions)...`);
+            }
+
+            eventBus.publish('strategy.chosen', context.accountId, `${entry.name} (target ${target} actions)${index > 0 ? ' as fallback' : ''}`, {
+                strategy: entry.name, target, fallback: index > 0
+            });
+            onStart?.(entry.name);
+            const actions = await strategy.run({
+                ...context,
+                limits: { ...context.limits, likesPerSession: target },
+                options: entry.options
+            });
+            if (actions > 0) return actions;
+            context.logger.warn(`${entry.name} strategy completed with 0 actions.`);
+        }
+        return 0;
+    }
+}
+
+export const strategyRegistry = new StrategyRegistry();
+
+strategyRegistry.register({
+    name: 'feed',
+    description: 'Likes and comments on posts in the home feed (authors are mostly followed already, so no follows).',
+    run: ({ igClient, behavior, limits }) => igClient.interactWithPosts({ behavior, limits })
+});
+
+strategyRegistry.register({
+    name: 'hashtags',
+    description: 'Likes posts from hashtag pages. options.hashtags defaults to settings.hashtags.',
+    validateOptions: options => isStringList(options.hashtags) ? null : 'Needs "hashtags" (here or in settings.hashtags).',
+    run: ({ igClient, behavior, limits, follows, options }) => igClient.interactWithHashtags(options.hashtags, { behavior, limits, follows })
+});
+
+strategyRegistry.register({
+    name: 'locations',
+    description: 'Likes posts from location pages. options.locations: location ids, "id/slug" or URLs.',
+    validateOptions: options => isStringList(options.locations) ? null : 'Needs "locations": a non-empty list of location ids or URLs.',
+    run: ({ igClient, behavior, limits, follows, options }) => igClient.interactWithLocations(options.locations, { behavior, limits, follows })
+});
+
+strategyRegistry.register({
+    name: 'explore',
+    description: 'Likes posts from the Explore page.',
+    run: ({ igClient, behavior, limits, follows }) => igClient.interactWithExplore({ behavior, limits, follows })
+});
+
+strategyRegistry.register({
+    name: 'target-audience',
+    description: 'Likes recent posts of the profiles in options.accounts.',
+    validateOptions: options => isStringList(options.accounts) ? null : 'Needs "accounts": a non-empty list of usernames.',
+    run: ({ igClient, behavior, limits, follows, options }) => igClient.interactWithProfiles(options.accounts, { behavior, limits, follows })
+});
+
+const STORY_SOURCES = ['tray', 'accounts', 'audience', 'hashtags'];
+const isChance = (value: unknown) => value === undefined || (typeof value === 'number' && value >= 0 && value <= 1);
+
+strategyRegistry.register({
+    name: 'stories',
+    description: 'Watches stories from the home tray (default), options.accounts, the followers in options.audienceId, or authors of options.hashtags posts. ' +
+        'Options: watchSeconds ({min,max}, default 4-9), maxStoriesPerAccount (3), reactionChance and replyChance (0-1, default 0), reactions (quick reaction emojis; default: the character\'s).',
+    validateOptions: options => {
+        const source = options.source ?? 'tray';
+        if (!STORY_SOURCES.includes(source)) return `"source" must be one of: ${STORY_SOURCES.join(', ')}.`;
+        if (source === 'accounts' && !isStringList(options.accounts)) return 'Needs "accounts": a non-empty list of usernames.';
+        if (source === 'audience' && (typeof options.audienceId !== 'string' || options.audienceId === '')) return 'Needs "audienceId": a saved follower audience.';
+        if (source === 'hashtags' && !isStringList(options.hashtags)) return 'Needs "hashtags": a non-empty list of hashtags.';
+        const watch = options.watchSeconds;
+        if (watch !== undefined && !(typeof watch?.min === 'number' && typeof watch?.max === 'number' && watch.min > 0 && watch.max >= watch.min)) {
+            return '"watchSeconds" must be { "min": n, "max": m } with 0 < min <= max.';
+        }
+        if (options.maxStoriesPerAccount !== undefined && !(Number.isInteger(options.maxStoriesPerAccount) && options.maxStoriesPerAccount > 0)) {
+            return '"maxStoriesPerAccount" must be a positive integer.';
+        }
+        if (!isChance(options.reactionChance) || !isChance(options.replyChance)) return '"reactionChance" and "replyChance" must be between 0 and 1.';
+        if (options.reactions !== undefined && !(isStringList(options.reactions)
+            && options.reactions.every((emoji: string) => STORY_QUICK_REACTIONS.includes(emoji.replace(/\uFE0F/g, ''))))) {
+            return `"reactions" must be a non-empty list of quick reactions: ${STORY_QUICK_REACTIONS.join(' ')}.`;
+        }
+        return null;
+    },
+    run: async ({ igClient, limits, options, logger }) => {
+        let source: 'tray' | 'accounts' | 'hashtags' = options.source === 'audience' ? 'accounts' : options.source ?? 'tray';
+        let accounts: string[] | undefined = options.accounts;
+        if (options.source === 'audience') {
+            const audience = await audiences.get(options.audienceId);
+            if (!audience) {
+                logger.warn(`Audience ${options.audienceId} not found; watching stories from the home tray instead.`);
+                source = 'tray';
+            } else {
+                accounts = audience.followers.map(follower => follower.username);
+            }
+        }
+        return igClient.watchStories({
+            source,
+            accounts,
+            hashtags: options.hashtags,
+            target: limits.likesPerSession,
+            watchSeconds: options.watchSeconds,
+            maxStoriesPerAccount: options.maxStoriesPerAccount,
+            reactionChance: options.reactionChance,
+            replyChance: options.replyChance,
+            reactions: options.reactions,
+            limits: {
+                storyViewsPerHour: limits.storyViewsPerHour,
+                storyReactionsPerHour: limits.storyReactionsPerHour,
+                storyRepliesPerHour: limits.storyRepliesPerHour
+            }
+        });
+    }
+});
@@ -1,25 +1,73 @@
+import mongoose from "mongoose";
 import logger from "../config/logger";
+import { getTrackerStore } from "../utils/trackerStore";
 
+// How long bots get to finish in-flight actions before their browsers are closed
+const SHUTDOWN_DEADLINE_MS = parseInt(process.env.SHUTDOWN_DEADLINE_MS || '60000', 10);
+// Extra time for closing browsers and the DB after the deadline before we force exit
+const FORCE_EXIT_GRACE_MS = 30000;
+
+type ShutdownHandler = (deadlineMs: number) => Promise<void>;
+
+const shutdownHandlers: { name: string; handler: ShutdownHandler }[] = [];
+let shuttingDown = false;
+
+/**
+ * Registers a bot/service to be stopped on shutdown. Handlers run in parallel and receive
+ * the deadline for in-flight work; they must stop starting new cycles immediately.
+ */
+export const onShutdown = (name: string, handler: ShutdownHandler) => {
+    shutdownHandlers.push({ name, handler });
+};
+
+export const isShuttingDown = () => shuttingDown;
 
 // Graceful shutdown function
-export const shutdown = (server: any) => {
-    try {
-      logger.info("Shutting down gracefully...");
-      // Attempt to close the server
-      server.close(() => {
-        logger.info("Closed all connections gracefully.");
-        // Optional: clean up other resources (like DB connections)
-        process.exit(0); // Exit the process after everything is closed
-      });
-      // If server hasn't closed after 10 seconds, force shutdown
-      setTimeout(() => {
+export const shutdown = async (server: any) => {
+    if (shuttingDown) {
+        logger.warn("Shutdown already in progress. Forcing exit.");
+        process.exit(1);
+    }
+    shuttingDown = true;
+
+    // If cleanup hangs (e.g. a browser that refuses to close), force shutdown
+    setTimeout(() => {
         logger.error("Forcing shutdown after timeout.");
         process.exit(1); // Force exit with an error code if shutdown times out
-      }, 10000);
-  
+    }, SHUTDOWN_DEADLINE_MS + FORCE_EXIT_GRACE_MS).unref();
+
+    try {
+        logger.info(`Shutting down gracefully (in-flight actions get ${Math.round(SHUTDOWN_DEADLINE_MS / 1000)}s)...`);
+
+        // 1. Stop accepting new requests
+        server.close(() => {
+            logger.info("Closed all connections gracefully.");
+        });
+
+        // 2. Stop the bots: no new cycles, let running actions finish, close browsers
+        await Promise.all(shutdownHandlers.map(async ({ name, handler }) => {
+            try {
+                await handler(SHUTDOWN_DEADLINE_MS);
+                logger.info(`${name} stopped.`);
+            } catch (error: any) {
+                logger.error(`Error stopping ${name}: ${error.message || error}`);
+            }
+        }));
+
+        // 3. Write out pending tracker updates (MongoDB storage writes in the background)
+        await getTrackerStore().flush();
+
+        // 4. Close the DB connection last, the bots write to it until they stop
+        if (mongoose.connection.readyState !== 0) {
+            await mongoose.connection.close();
+            logger.info("MongoDB connection closed.");
+        }
+
+        logger.info("Shutdown complete.");
+        process.exit(0);
     } catch (error: any) {
-      // Handle any error that occurs during the shutdown process
-      logger.error(`Error during shutdown: ${error.message}`);
-      process.exit(1); // Exit with error code if shutdown fails
+        // Handle any error that occurs during the shutdown process
+        logger.error(`Error during shutdown: ${error.message}`);
+        process.exit(1); // Exit with error code if shutdown fails
     }
-  };
\ No newline at end of file
+};
@@ -0,0 +1,103 @@
+import { after, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ActivityTracker, DEFAULT_WARMING_CURVE, getWarmingPercent, WarmingCurve } from './activityTracker';
+import { FileTrackerStore, setTrackerStore } from './trackerStore';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'activity-tracker-'));
+const store = new FileTrackerStore({ activity: path.join(dir, 'activity.json'), schedule: path.join(dir, 'schedule.json') });
+setTrackerStore(store);
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+let accountId = '';
+let accounts = 0;
+beforeEach(() => {
+    accountId = `account-${++accounts}`;
+});
+
+// Likes at the given ages, on an account that started warming `days` ago
+const seedLikes = (agesMs: number[], days: number = 30) => {
+    const now = Date.now();
+    store.update('activity', accountId, () => ({ likes: agesMs.map(age => now - age), comments: [], dms: [], firstActive: now - days * DAY_MS }));
+};
+
+test('getWarmingPercent holds each step, or ramps between steps with interpolate', () => {
+    assert.equal(getWarmingPercent(DEFAULT_WARMING_CURVE, 0), 50);
+    assert.equal(getWarmingPercent(DEFAULT_WARMING_CURVE, 6.9), 50);
+    assert.equal(getWarmingPercent(DEFAULT_WARMING_CURVE, 7), 75);
+    assert.equal(getWarmingPercent(DEFAULT_WARMING_CURVE, 40), 100);
+    assert.equal(getWarmingPercent(null, 0), 100);
+
+    const ramp: WarmingCurve = { steps: [{ day: 30, percent: 100 }, { day: 0, percent: 20 }], interpolate: true };
+    assert.equal(getWarmingPercent(ramp, 15), 60);
+    assert.equal(getWarmingPercent(ramp, 45), 100);
+});
+
+test('the hourly limit is warmed by the default curve', () => {
+    const tracker = new ActivityTracker(accountId);
+    assert.equal(tracker.getEffectiveLimit('likes', 10).perHour.limit, 5);
+    tracker.restartWarming(8);
+    assert.equal(tracker.getEffectiveLimit('likes', 10).perHour.limit, 7);
+    tracker.restartWarming(20);
+    assert.equal(tracker.getEffectiveLimit('likes', 10).perHour.limit, 10);
+});
+
+test('warmed limits keep a minimum of 1, and 2 from the second week, never above the limit', () => {
+    const tracker = new ActivityTracker(accountId);
+    tracker.restartWarming(0);
+    assert.equal(tracker.getEffectiveLimit('likes', 1).perHour.limit, 1);
+    tracker.restartWarming(8);
+    assert.equal(tracker.getEffectiveLimit('likes', 2).perHour.limit, 2);
+    assert.equal(tracker.getEffectiveLimit('likes', 1).perHour.limit, 1);
+});
+
+test('a limit of 0 disables the action', () => {
+    const tracker = new ActivityTracker(accountId, { warming: null });
+    const limit = tracker.getEffectiveLimit('follows', 0);
+    assert.equal(limit.perHour.limit, 0);
+    assert.equal(limit.availableInMs, HOUR_MS);
+    assert.equal(tracker.canPerformAction('follows', 0), false);
+});
+
+test('a full hour frees a slot when its oldest action is an hour old', () => {
+    seedLikes([50 * 60 * 1000, 10 * 60 * 1000]);
+    const tracker = new ActivityTracker(accountId, { warming: null });
+    assert.equal(tracker.canPerformAction('likes', 2), false);
+    const { availableInMs } = tracker.getEffectiveLimit('likes', 2);
+    assert.ok(availableInMs > 9 * 60 * 1000 && availableInMs <= 10 * 60 * 1000, `got ${availableInMs}`);
+    assert.equal(tracker.canPerformAction('likes', 3), true);
+});
+
+test('daily and weekly quotas block once used up, even with hourly room', () => {
+    seedLikes([2 * HOUR_MS, 3 * HOUR_MS, 30 * HOUR_MS]);
+    const daily = new ActivityTracker(accountId, { warming: null, quotas: { likes: { perDay: 2 } } });
+    const limit = daily.getEffectiveLimit('likes', 10);
+    assert.deepEqual([limit.perHour.used, limit.perDay.used, limit.perWeek.used], [0, 2, 3]);
+    assert.equal(limit.perWeek.limit, null);
+    assert.ok(Math.abs(limit.availableInMs - (DAY_MS - 3 * HOUR_MS)) < 1000, `got ${limit.availableInMs}`);
+
+    const weekly = new ActivityTracker(accountId, { warming: null, quotas: { likes: { perDay: 5, perWeek: 3 } } });
+    assert.equal(weekly.canPerformAction('likes', 10), false);
+    assert.equal(weekly.describeUsage('likes', 10), 'likes 0/10 this hour, 2/5 today, 3/3 this week');
+});
+
+test('quotas are warmed like the hourly limit', () => {
+    seedLikes([], 0);
+    const tracker = new ActivityTracker(accountId, { quotas: { likes: { perDay: 40, perWeek: 200 } } });
+    const limit = tracker.getEffectiveLimit('likes', 10);
+    assert.deepEqual([limit.perHour.limit, limit.perDay.limit, limit.perWeek.limit], [5, 20, 100]);
+    assert.equal(limit.warmingPercent, 50);
+});
+
+test('trackAction records the action and starts warming', () => {
+    const tracker = new ActivityTracker(accountId);
+    assert.equal(tracker.getWarmingStart(), null);
+    tracker.trackAction('comments');
+    assert.equal(tracker.getRecentCount('comments'), 1);
+    assert.ok(tracker.getWarmingStart() !== null);
+});
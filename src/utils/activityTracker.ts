@@ -1,134 +1,235 @@
-import fs from 'fs';
-import path from 'path';
+import { getTrackerStore } from './trackerStore';
+
+export type TrackedAction = 'likes' | 'comments' | 'dms' | 'dmRequests' | 'follows' | 'unfollows' | 'storyViews' | 'storyReactions' | 'storyReplies' | 'posts';
+
+interface ActivityEntry {
+    likes: number[];    // Array of timestamps
+    comments: number[]; // Array of timestamps
+    dms: number[];      // Array of timestamps
+    dmRequests?: number[]; // Accepted DM requests, array of timestamps
+    follows?: number[];    // Array of timestamps
+    unfollows?: number[];  // Array of timestamps
+    storyViews?: number[];     // One per account whose stories were watched
+    storyReactions?: number[]; // Emoji reactions
+    storyReplies?: number[];   // AI-written replies
+    posts?: number[];          // Published posts
+    firstActive?: number; // Account warming baseline
+}
 
-interface ActivityLog {
-    [accountId: string]: {
-        likes: number[];    // Array of timestamps
-        comments: number[]; // Array of timestamps
-        dms: number[];      // Array of timestamps
-        firstActive?: number; // Account warming baseline
-    }
+/** Caps on top of the hourly limit. Missing = no cap. */
+export interface ActionQuota {
+    perDay?: number;  // Rolling 24 hours
+    perWeek?: number; // Rolling 7 days
+}
+
+/**
+ * Share of the configured limits an account may use, by days since warming started.
+ * Between steps the percentage holds (or ramps linearly with interpolate); after the
+ * last step it stays at the last percentage.
+ */
+export interface WarmingCurve {
+    steps: { day: number; percent: number }[];
+    interpolate?: boolean;
+}
+
+export interface ActivityTrackerOptions {
+    quotas?: Partial<Record<TrackedAction, ActionQuota>>;
+    warming?: WarmingCurve | null; // null = no warming, undefined = DEFAULT_WARMING_CURVE
+}
+
+export interface EffectiveLimit {
+    action: TrackedAction;
+    warmingPercent: number;
+    perHour: { limit: number; used: number };
+    perDay: { limit: number | null; used: number };
+    perWeek: { limit: number | null; used: number };
+    availableInMs: number; // 0 = an action can be performed now
 }
 
-const LOG_FILE = path.join(process.cwd(), 'logs', 'activity_history.json');
+// 50% in week 1, 75% in week 2, full limits from week 3
+export const DEFAULT_WARMING_CURVE: WarmingCurve = {
+    steps: [{ day: 0, percent: 50 }, { day: 7, percent: 75 }, { day: 14, percent: 100 }]
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Percentage of the limits allowed on the given (fractional) day of warming.
+ */
+export const getWarmingPercent = (curve: WarmingCurve | null, daysActive: number): number => {
+    if (!curve || curve.steps.length === 0) return 100;
+    const steps = [...curve.steps].sort((a, b) => a.day - b.day);
+    let current = 0;
+    while (current + 1 < steps.length && steps[current + 1].day <= daysActive) current++;
+    const step = steps[current];
+    const next = steps[current + 1];
+    if (daysActive < step.day || !next || !curve.interpolate) return step.percent;
+    return step.percent + (next.percent - step.percent) * (daysActive - step.day) / (next.day - step.day);
+};
 
 export class ActivityTracker {
     private accountId: string;
-    private data: ActivityLog;
+    private entry: ActivityEntry | undefined;
+    private quotas: Partial<Record<TrackedAction, ActionQuota>>;
+    private warming: WarmingCurve | null;
 
-    constructor(accountId: string) {
+    constructor(accountId: string, options: ActivityTrackerOptions = {}) {
         this.accountId = accountId;
-        this.data = this.loadData();
+        this.entry = this.loadEntry();
+        this.quotas = options.quotas || {};
+        this.warming = options.warming === undefined ? DEFAULT_WARMING_CURVE : options.warming;
     }
 
-    private loadData(): ActivityLog {
+    private loadEntry(): ActivityEntry | undefined {
         try {
-            if (!fs.existsSync(LOG_FILE)) {
-                return {};
-            }
-            return JSON.parse(fs.readFileSync(LOG_FILE, 'utf-8'));
+            return getTrackerStore().get<ActivityEntry>('activity', this.accountId);
         } catch (error) {
             console.error("Error loading activity log:", error);
-            return {};
+            return this.entry;
         }
     }
 
-    private saveData() {
+    private updateEntry(mutate: (entry: ActivityEntry) => void) {
         try {
-            const dir = path.dirname(LOG_FILE);
-            if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-            fs.writeFileSync(LOG_FILE, JSON.stringify(this.data, null, 2));
+            this.entry = getTrackerStore().update<ActivityEntry>('activity', this.accountId, current => {
+                const entry = current || { likes: [], comments: [], dms: [] };
+                ActivityTracker.cleanOldEntries(entry); // Cleanup old entries before saving to prevent file bloat
+                mutate(entry);
+                return entry;
+            });
         } catch (error) {
             console.error("Error saving activity log:", error);
         }
     }
 
-    private getHistory(action: 'likes' | 'comments' | 'dms'): number[] {
-        if (!this.data[this.accountId]) {
-            this.data[this.accountId] = { likes: [], comments: [], dms: [], firstActive: Date.now() };
-        }
-        return this.data[this.accountId][action] || [];
+    private getHistory(action: TrackedAction): number[] {
+        return this.entry?.[action] || [];
     }
 
-    private cleanOldEntries() {
-        // Keep logs for 24 hours
-        const cutoff = Date.now() - 24 * 60 * 60 * 1000;
-        if (this.data[this.accountId]) {
-            this.data[this.accountId].likes = (this.data[this.accountId].likes || []).filter(t => t > cutoff);
-            this.data[this.accountId].comments = (this.data[this.accountId].comments || []).filter(t => t > cutoff);
-            this.data[this.accountId].dms = (this.data[this.accountId].dms || []).filter(t => t > cutoff);
-        }
+    private static cleanOldEntries(entry: ActivityEntry) {
+        // Keep logs for 7 days (weekly quotas)
+        const cutoff = Date.now() - WEEK_MS;
+        entry.likes = (entry.likes || []).filter(t => t > cutoff);
+        entry.comments = (entry.comments || []).filter(t => t > cutoff);
+        entry.dms = (entry.dms || []).filter(t => t > cutoff);
+        if (entry.dmRequests) entry.dmRequests = entry.dmRequests.filter(t => t > cutoff);
+        if (entry.follows) entry.follows = entry.follows.filter(t => t > cutoff);
+        if (entry.unfollows) entry.unfollows = entry.unfollows.filter(t => t > cutoff);
+        if (entry.storyViews) entry.storyViews = entry.storyViews.filter(t => t > cutoff);
+        if (entry.storyReactions) entry.storyReactions = entry.storyReactions.filter(t => t > cutoff);
+        if (entry.storyReplies) entry.storyReplies = entry.storyReplies.filter(t => t > cutoff);
+        if (entry.posts) entry.posts = entry.posts.filter(t => t > cutoff);
     }
 
-    public canPerformAction(action: 'likes' | 'comments' | 'dms', baseLimitPerHour: number): boolean {
-        this.data = this.loadData(); // Reload to get latest from other processes
-        this.cleanOldEntries();
-
-        // Account warming logic
-        let dynamicLimit = baseLimitPerHour;
-        const firstActive = this.data[this.accountId]?.firstActive;
-        if (firstActive) {
-            const weeksActive = Math.floor((Date.now() - firstActive) / (1000 * 60 * 60 * 24 * 7));
-            if (weeksActive === 0) {
-                // Week 1: heavily restricted
-                dynamicLimit = Math.max(1, Math.floor(baseLimitPerHour * 0.5));
-            } else if (weeksActive === 1) {
-                // Week 2: moderately restricted
-                dynamicLimit = Math.max(2, Math.floor(baseLimitPerHour * 0.75));
-            }
-            // Week 3 and beyond: full limits
-        } else {
-            // First time seeing this account, act extremely safe
-            dynamicLimit = Math.max(1, Math.floor(baseLimitPerHour * 0.5));
+    /**
+     * Applies the warming curve to a configured limit. A positive limit stays at least 1 in the
+     * first week of warming and at least 2 after it (the minimums from before curves were
+     * configurable), but never goes above the configured limit.
+     */
+    private applyWarming(limit: number): number {
+        if (limit <= 0) return 0;
+        const minimum = Math.min(limit, this.getWarmingDay() >= 7 ? 2 : 1);
+        return Math.max(minimum, Math.floor(limit * this.getWarmingPercent() / 100));
+    }
+
+    /**
+     * Hourly limit plus daily/weekly quotas, warmed, with usage and when the next slot frees up.
+     */
+    public getEffectiveLimit(action: TrackedAction, baseLimitPerHour: number): EffectiveLimit {
+        this.entry = this.loadEntry(); // Reload to get latest from other loops/processes
+        const now = Date.now();
+        const history = [...this.getHistory(action)].sort((a, b) => a - b);
+        const quota = this.quotas[action] || {};
+
+        const windows = [
+            { windowMs: HOUR_MS, limit: this.applyWarming(baseLimitPerHour) as number | null },
+            { windowMs: DAY_MS, limit: quota.perDay !== undefined ? this.applyWarming(quota.perDay) : null },
+            { windowMs: WEEK_MS, limit: quota.perWeek !== undefined ? this.applyWarming(quota.perWeek) : null }
+        ].map(w => ({ ...w, actions: history.filter(t => t > now - w.windowMs) }));
+
+        // A full window frees a slot when its oldest counted action falls out of it
+        let availableInMs = 0;
+        for (const w of windows) {
+            if (w.limit === null || w.actions.length < w.limit) continue;
+            // A limit of 0 disables the action; report the window length rather than Infinity
+            const freedAt = w.limit === 0 ? now + w.windowMs : w.actions[w.actions.length - w.limit] + w.windowMs;
+            availableInMs = Math.max(availableInMs, freedAt - now);
         }
 
-        const history = this.getHistory(action);
-        const oneHourAgo = Date.now() - 60 * 60 * 1000;
-        const recentActions = history.filter(t => t > oneHourAgo);
+        const [hour, day, week] = windows;
+        return {
+            action,
+            warmingPercent: Math.round(this.getWarmingPercent()),
+            perHour: { limit: hour.limit!, used: hour.actions.length },
+            perDay: { limit: day.limit, used: day.actions.length },
+            perWeek: { limit: week.limit, used: week.actions.length },
+            availableInMs
+        };
+    }
 
-        return recentActions.length < dynamicLimit;
+    public canPerformAction(action: TrackedAction, baseLimitPerHour: number): boolean {
+        return this.getEffectiveLimit(action, baseLimitPerHour).availableInMs === 0;
     }
 
-    public trackAction(action: 'likes' | 'comments' | 'dms') {
-        this.data = this.loadData();
-        this.cleanOldEntries(); // FIX: Cleanup old entries before saving to prevent file bloat
+    /**
+     * Usage against every cap, for log lines, e.g. "likes 5/5 this hour, 40/200 today (warming 50%)".
+     */
+    public describeUsage(action: TrackedAction, baseLimitPerHour: number): string {
+        const limit = this.getEffectiveLimit(action, baseLimitPerHour);
+        const parts = [`${action} ${limit.perHour.used}/${limit.perHour.limit} this hour`];
+        if (limit.perDay.limit !== null) parts.push(`${limit.perDay.used}/${limit.perDay.limit} today`);
+        if (limit.perWeek.limit !== null) parts.push(`${limit.perWeek.used}/${limit.perWeek.limit} this week`);
+        const warming = limit.warmingPercent < 100 ? ` (warming ${limit.warmingPercent}%)` : '';
+        return `${parts.join(', ')}${warming}`;
+    }
 
-        if (!this.data[this.accountId]) {
-            this.data[this.accountId] = { likes: [], comments: [], dms: [], firstActive: Date.now() };
-        }
-        if (!this.data[this.accountId].firstActive) {
-            this.data[this.accountId].firstActive = Date.now();
-        }
-        if (!this.data[this.accountId][action]) this.data[this.accountId][action] = [];
-        this.data[this.accountId][action].push(Date.now());
-        this.saveData();
+    /**
+     * Days since warming started (fractional). Accounts without history start at day 0.
+     */
+    public getWarmingDay(): number {
+        const firstActive = this.entry?.firstActive;
+        return firstActive ? Math.max(0, (Date.now() - firstActive) / DAY_MS) : 0;
     }
 
-    public getRecentCount(action: 'likes' | 'comments' | 'dms'): number {
-        this.data = this.loadData();
-        const history = this.getHistory(action);
-        const oneHourAgo = Date.now() - 60 * 60 * 1000;
-        return history.filter(t => t > oneHourAgo).length;
+    public getWarmingPercent(): number {
+        return getWarmingPercent(this.warming, this.getWarmingDay());
     }
-    public getTimeUntilAvailable(action: 'likes' | 'comments' | 'dms', limitPerHour: number): number {
-        this.data = this.loadData();
-        const history = this.getHistory(action);
-        const oneHourAgo = Date.now() - 60 * 60 * 1000;
-        const recentActions = history.filter(t => t > oneHourAgo);
 
-        if (recentActions.length < limitPerHour) {
-            return 0; // Available now
-        }
+    public getWarmingStart(): number | null {
+        this.entry = this.loadEntry();
+        return this.entry?.firstActive || null;
+    }
+
+    /**
+     * Restarts the warming curve, e.g. after an action block. `day` resumes part-way through
+     * the curve (0 = from the beginning).
+     */
+    public restartWarming(day: number = 0) {
+        this.updateEntry(entry => {
+            entry.firstActive = Date.now() - day * DAY_MS;
+        });
+    }
 
-        // Sort timestamps to be sure we get the oldest of the recent ones
-        recentActions.sort((a, b) => a - b);
+    public trackAction(action: TrackedAction) {
+        this.updateEntry(entry => {
+            if (!entry.firstActive) entry.firstActive = Date.now();
+            entry[action] = [...(entry[action] || []), Date.now()];
+        });
+    }
 
-        // The slot will free up when the oldest action in the window falls out of the 1-hour window.
-        // That happens at (oldest_timestamp + 1 hour).
-        const oldestRelevantAction = recentActions[0];
-        const nextSlotTime = oldestRelevantAction + 60 * 60 * 1000;
-        const waitTime = nextSlotTime - Date.now();
+    public getRecentCount(action: TrackedAction): number {
+        this.entry = this.loadEntry();
+        const history = this.getHistory(action);
+        const oneHourAgo = Date.now() - HOUR_MS;
+        return history.filter(t => t > oneHourAgo).length;
+    }
 
-        return waitTime > 0 ? waitTime : 0;
+    /**
+     * Time until the hourly limit and the daily/weekly quotas all have a free slot.
+     */
+    public getTimeUntilAvailable(action: TrackedAction, limitPerHour: number): number {
+        return this.getEffectiveLimit(action, limitPerHour).availableInMs;
     }
 }
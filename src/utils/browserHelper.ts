@@ -91,6 +91,18 @@ export const getHumanLikeDelay = (baseMs: number, varianceMs: number): number =>
     return Math.floor(delay);
 };
 
+/**
+ * Returns a copy of the items in random order (Fisher–Yates, every order equally likely).
+ */
+export const shuffle = <T>(items: T[]): T[] => {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+};
+
 /**
  * Detects the Chrome/Chromium executable path across platforms (Windows, Linux, macOS).
  * Returns the path to the executable if found, or undefined to let Puppeteer use its default downloaded Chrome.
@@ -2,6 +2,7 @@ import { promises as fs } from "fs";
 import path from "path";
 import { geminiApiKeys } from "../secret";
 import logger from "../config/logger";
+import { geminiKeyRotations } from "../services/Metrics";
 
 export async function Instagram_cookiesExist(): Promise<boolean> {
   try {
@@ -64,6 +65,23 @@ export async function loadCookies(cookiesPath: string): Promise<any[]> {
 // ---------------------- API key rotation ----------------------
 const triedApiKeys = new Set<number>();
 
+// A key that answered 429 counts as cooling down for this long (health report only, rotation ignores it)
+const GEMINI_KEY_COOLDOWN_MS = 60 * 1000;
+const geminiKeyRateLimitedAt = new Map<number, number>();
+
+export const markGeminiKeyRateLimited = (apiKeyIndex: number) => {
+  geminiKeyRateLimitedAt.set(apiKeyIndex, Date.now());
+};
+
+export const getGeminiKeyStatus = () => {
+  const now = Date.now();
+  const coolingDown = geminiApiKeys
+    .map((_key, index) => ({ key: `GEMINI_API_KEY_${index + 1}`, rateLimitedAt: geminiKeyRateLimitedAt.get(index) || 0 }))
+    .filter(key => now - key.rateLimitedAt < GEMINI_KEY_COOLDOWN_MS)
+    .map(key => ({ key: key.key, until: new Date(key.rateLimitedAt + GEMINI_KEY_COOLDOWN_MS).toISOString() }));
+  return { configured: geminiApiKeys.length, available: geminiApiKeys.length - coolingDown.length, coolingDown };
+};
+
 export const getNextApiKey = (currentApiKeyIndex: number) => {
   // track current
   triedApiKeys.add(currentApiKeyIndex);
@@ -89,8 +107,10 @@ export async function handleError(
   if (error instanceof Error) {
     if (error.message.includes("429 Too Many Requests")) {
       logger.error(`---GEMINI_API_KEY_${currentApiKeyIndex + 1} limit exhausted, switching to the next API key...`);
+      markGeminiKeyRateLimited(currentApiKeyIndex);
       try {
         getNextApiKey(currentApiKeyIndex);
+        geminiKeyRotations.inc({ caller: "runAgent" });
         return runAgent(schema, prompt);
       } catch (keyError) {
         if (keyError instanceof Error) {
@@ -217,4 +237,7 @@ export const saveScrapedData = async (link: string, content: string): Promise<vo
 export * from './activityTracker';
 export * from './browserHelper';
 export * from './concurrency';
+export * from './jsonSchema';
+export * from './metrics';
 export * from './scheduleTracker';
+export * from './trackerStore';
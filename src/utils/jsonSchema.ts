@@ -0,0 +1,142 @@
+// The subset of JSON Schema (as used by OpenAPI 3.0) that the API describes its requests with,
+// and a validator for it. Query strings and path params are coerced to numbers/booleans first.
+
+export interface JsonSchema {
+    type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+    description?: string;
+    nullable?: boolean;
+    enum?: (string | number | boolean)[];
+    default?: unknown;
+    example?: unknown;
+    // Strings
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: 'date-time' | 'date' | string;
+    // Numbers
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: boolean;        // OpenAPI 3.0 style: makes `minimum` exclusive
+    // Arrays
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    // Objects
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    minProperties?: number;
+    // Reference to a named schema (responses only, the validator doesn't resolve them)
+    $ref?: string;
+}
+
+export interface SchemaIssue {
+    path: string;
+    message: string;
+}
+
+const describeType = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+const coerce = (schema: JsonSchema, value: unknown): unknown => {
+    if (typeof value !== 'string') return value;
+    if ((schema.type === 'number' || schema.type === 'integer') && value.trim() !== '' && !Number.isNaN(Number(value))) {
+        return Number(value);
+    }
+    if (schema.type === 'boolean') {
+        if (value === 'true' || value === '1') return true;
+        if (value === 'false' || value === '0') return false;
+    }
+    return value;
+};
+
+const check = (schema: JsonSchema, input: unknown, path: string, issues: SchemaIssue[], coerceStrings: boolean): unknown => {
+    const value = coerceStrings ? coerce(schema, input) : input;
+    const fail = (message: string) => {
+        issues.push({ path, message });
+        return value;
+    };
+
+    if (value === null) return schema.nullable ? value : fail('must not be null');
+
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') return fail(`must be a string, got ${describeType(value)}`);
+            if (schema.minLength !== undefined && value.length < schema.minLength) {
+                return fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+            }
+            if (schema.maxLength !== undefined && value.length > schema.maxLength) return fail(`must be at most ${schema.maxLength} characters`);
+            if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) return fail(`must match ${schema.pattern}`);
+            if (schema.format === 'date-time' && Number.isNaN(new Date(value).getTime())) return fail('must be a valid date');
+            if (schema.format === 'date' && (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(new Date(value).getTime()))) {
+                return fail('must be a date (YYYY-MM-DD)');
+            }
+            break;
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || !Number.isFinite(value)) return fail(`must be a number, got ${describeType(value)}`);
+            if (schema.type === 'integer' && !Number.isInteger(value)) return fail('must be an integer');
+            if (schema.minimum !== undefined) {
+                if (schema.exclusiveMinimum ? value <= schema.minimum : value < schema.minimum) {
+                    return fail(`must be ${schema.exclusiveMinimum ? '>' : '>='} ${schema.minimum}`);
+                }
+            }
+            if (schema.maximum !== undefined && value > schema.maximum) return fail(`must be <= ${schema.maximum}`);
+            break;
+        case 'boolean':
+            if (typeof value !== 'boolean') return fail(`must be a boolean, got ${describeType(value)}`);
+            break;
+        case 'array': {
+            if (!Array.isArray(value)) return fail(`must be an array, got ${describeType(value)}`);
+            if (schema.minItems !== undefined && value.length < schema.minItems) return fail(`must have at least ${schema.minItems} items`);
+            if (schema.maxItems !== undefined && value.length > schema.maxItems) return fail(`must have at most ${schema.maxItems} items`);
+            const items = schema.items;
+            return items ? value.map((item, index) => check(items, item, `${path}[${index}]`, issues, coerceStrings)) : value;
+        }
+        case 'object': {
+            if (typeof value !== 'object' || Array.isArray(value)) return fail(`must be an object, got ${describeType(value)}`);
+            const source = value as Record<string, unknown>;
+            const result: Record<string, unknown> = {};
+            const properties = schema.properties || {};
+            const prefix = path ? `${path}.` : '';
+            for (const name of schema.required || []) {
+                if (source[name] === undefined) issues.push({ path: `${prefix}${name}`, message: 'is required' });
+            }
+            for (const [name, propertyValue] of Object.entries(source)) {
+                const propertySchema = properties[name];
+                if (propertySchema) {
+                    if (propertyValue !== undefined) {
+                        result[name] = check(propertySchema, propertyValue, `${prefix}${name}`, issues, coerceStrings);
+                    }
+                } else if (schema.additionalProperties === false) {
+                    issues.push({ path: `${prefix}${name}`, message: 'is not allowed' });
+                } else if (typeof schema.additionalProperties === 'object') {
+                    result[name] = check(schema.additionalProperties, propertyValue, `${prefix}${name}`, issues, coerceStrings);
+                } else {
+                    result[name] = propertyValue;
+                }
+            }
+            for (const [name, propertySchema] of Object.entries(properties)) {
+                if (result[name] === undefined && propertySchema.default !== undefined) result[name] = propertySchema.default;
+            }
+            if (schema.minProperties !== undefined && Object.keys(source).length < schema.minProperties) {
+                issues.push({ path, message: `must have at least ${schema.minProperties} ${schema.minProperties === 1 ? 'property' : 'properties'}` });
+            }
+            return result;
+        }
+    }
+
+    if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+        return fail(`must be one of: ${schema.enum.join(', ')}`);
+    }
+    return value;
+};
+
+/**
+ * Validates `value` against `schema`. Returns the value with defaults filled in (and strings
+ * coerced when `coerceStrings` is set) plus every problem found, not just the first.
+ */
+export const validateSchema = <T = unknown>(schema: JsonSchema, value: unknown, coerceStrings: boolean = false): { value: T; issues: SchemaIssue[] } => {
+    const issues: SchemaIssue[] = [];
+    const result = check(schema, value, '', issues, coerceStrings);
+    return { value: result as T, issues };
+};
@@ -0,0 +1,141 @@
+// Minimal Prometheus metrics (text exposition format 0.0.4): counters, gauges and histograms
+// with labels, collected in one registry that /metrics renders.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+    readonly name: string;
+    render(): string[];
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels) => {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+};
+
+const formatValue = (value: number) =>
+    Number.isFinite(value) ? String(value) : (Number.isNaN(value) ? 'NaN' : (value > 0 ? '+Inf' : '-Inf'));
+
+abstract class LabeledMetric<T> implements Metric {
+    protected series = new Map<string, { labels: Labels; value: T }>();
+
+    constructor(public readonly name: string, protected help: string, protected labelNames: string[] = []) {}
+
+    protected key(labels: Labels): string {
+        return this.labelNames.map(name => labels[name] ?? '').join('\u0000');
+    }
+
+    protected normalize(labels: Labels): Labels {
+        const normalized: Labels = {};
+        for (const name of this.labelNames) normalized[name] = String(labels[name] ?? '');
+        return normalized;
+    }
+
+    protected header(type: string): string[] {
+        return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${type}`];
+    }
+
+    abstract render(): string[];
+}
+
+export class Counter extends LabeledMetric<number> {
+    public inc(labels: Labels = {}, value: number = 1) {
+        const key = this.key(labels);
+        const current = this.series.get(key);
+        if (current) current.value += value;
+        else this.series.set(key, { labels: this.normalize(labels), value });
+    }
+
+    public render(): string[] {
+        return [
+            ...this.header('counter'),
+            ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`)
+        ];
+    }
+}
+
+export class Gauge extends LabeledMetric<number> {
+    /**
+     * `collect` runs on every scrape, for gauges that read their value from somewhere else.
+     */
+    constructor(name: string, help: string, labelNames: string[] = [], private collect?: (gauge: Gauge) => void) {
+        super(name, help, labelNames);
+    }
+
+    public set(labels: Labels, value: number) {
+        this.series.set(this.key(labels), { labels: this.normalize(labels), value });
+    }
+
+    public render(): string[] {
+        this.collect?.(this);
+        return [
+            ...this.header('gauge'),
+            ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`)
+        ];
+    }
+}
+
+export class Histogram extends LabeledMetric<{ buckets: number[]; sum: number; count: number }> {
+    constructor(name: string, help: string, labelNames: string[], private buckets: number[]) {
+        super(name, help, labelNames);
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    public observe(labels: Labels, value: number) {
+        const key = this.key(labels);
+        let current = this.series.get(key);
+        if (!current) {
+            current = { labels: this.normalize(labels), value: { buckets: this.buckets.map(() => 0), sum: 0, count: 0 } };
+            this.series.set(key, current);
+        }
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) current!.value.buckets[i]++;
+        });
+        current.value.sum += value;
+        current.value.count++;
+    }
+
+    /**
+     * Starts a timer; calling the returned function observes the elapsed seconds.
+     */
+    public startTimer(labels: Labels): () => number {
+        const start = process.hrtime.bigint();
+        return () => {
+            const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+            this.observe(labels, seconds);
+            return seconds;
+        };
+    }
+
+    public render(): string[] {
+        const lines = this.header('histogram');
+        for (const { labels, value } of this.series.values()) {
+            this.buckets.forEach((bound, i) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.buckets[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+        }
+        return lines;
+    }
+}
+
+export class MetricsRegistry {
+    private metrics = new Map<string, Metric>();
+
+    public register<M extends Metric>(metric: M): M {
+        if (this.metrics.has(metric.name)) throw new Error(`Metric ${metric.name} is already registered`);
+        this.metrics.set(metric.name, metric);
+        return metric;
+    }
+
+    public render(): string {
+        return [...this.metrics.values()].map(metric => metric.render().join('\n')).join('\n') + '\n';
+    }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ActiveHoursSchedule, parseTimeWindow, ScheduleTracker } from './scheduleTracker';
+
+// 19 Oct 2026 is a Monday
+const utc = (day: number, hour: number, minute: number = 0) => Date.UTC(2026, 9, day, hour, minute);
+
+const windows: ActiveHoursSchedule = { sleepStartHour: 0, sleepEndHour: 0, activeWindows: ['12:00-13:30', '18:00-22:30'], timezone: 'UTC' };
+
+test('parseTimeWindow reads HH:MM-HH:MM and windows crossing midnight', () => {
+    assert.deepEqual(parseTimeWindow('09:00-17:30'), { start: 540, end: 1050 });
+    assert.deepEqual(parseTimeWindow('22:00-02:00'), { start: 1320, end: 1560 });
+    assert.deepEqual(parseTimeWindow('18:00-24:00'), { start: 1080, end: 1440 });
+    assert.equal(parseTimeWindow('10:00-10:00'), null);
+    assert.equal(parseTimeWindow('24:00-25:00'), null);
+    assert.equal(parseTimeWindow('9-17'), null);
+});
+
+test('isActiveTime checks every window, end exclusive', () => {
+    assert.equal(ScheduleTracker.isActiveTime(windows, utc(19, 12)), true);
+    assert.equal(ScheduleTracker.isActiveTime(windows, utc(19, 13, 29)), true);
+    assert.equal(ScheduleTracker.isActiveTime(windows, utc(19, 13, 30)), false);
+    assert.equal(ScheduleTracker.isActiveTime(windows, utc(19, 20)), true);
+    assert.equal(ScheduleTracker.isActiveTime(windows, utc(19, 23)), false);
+});
+
+test('isActiveTime uses sleep hours when there are no windows', () => {
+    const sleep: ActiveHoursSchedule = { sleepStartHour: 23, sleepEndHour: 7, timezone: 'UTC' };
+    assert.equal(ScheduleTracker.isActiveTime(sleep, utc(19, 3)), false);
+    assert.equal(ScheduleTracker.isActiveTime(sleep, utc(19, 7)), true);
+    assert.equal(ScheduleTracker.isActiveTime(sleep, utc(19, 23)), false);
+});
+
+test('a window crossing midnight continues into the next day', () => {
+    const night: ActiveHoursSchedule = { sleepStartHour: 0, sleepEndHour: 0, activeWindows: ['22:00-02:00'], timezone: 'UTC' };
+    assert.equal(ScheduleTracker.isActiveTime(night, utc(20, 1, 59)), true);
+    assert.equal(ScheduleTracker.isActiveTime(night, utc(20, 2)), false);
+});
+
+test('weekend overrides apply on Saturday and Sunday only', () => {
+    const schedule: ActiveHoursSchedule = { ...windows, weekend: { activeWindows: ['10:00-11:00'] } };
+    assert.equal(ScheduleTracker.isActiveTime(schedule, utc(24, 10, 30)), true);
+    assert.equal(ScheduleTracker.isActiveTime(schedule, utc(24, 12, 30)), false);
+    assert.equal(ScheduleTracker.isActiveTime(schedule, utc(23, 12, 30)), true);
+
+    // Weekend sleep hours replace the weekday windows instead of combining with them
+    const sleepy: ActiveHoursSchedule = { ...windows, weekend: { sleepStartHour: 1, sleepEndHour: 9 } };
+    assert.equal(ScheduleTracker.isActiveTime(sleepy, utc(25, 9, 30)), true);
+    assert.equal(ScheduleTracker.isActiveTime(sleepy, utc(25, 3)), false);
+});
+
+test('isActiveTime reads the hours in the schedule timezone', () => {
+    // Warsaw is UTC+2 until 25 Oct 2026
+    const warsaw: ActiveHoursSchedule = { sleepStartHour: 0, sleepEndHour: 0, activeWindows: ['09:00-17:00'], timezone: 'Europe/Warsaw' };
+    assert.equal(ScheduleTracker.isActiveTime(warsaw, utc(19, 6, 30)), false);
+    assert.equal(ScheduleTracker.isActiveTime(warsaw, utc(19, 7)), true);
+    assert.equal(ScheduleTracker.isActiveTime(warsaw, utc(19, 15)), false);
+});
+
+test('getNextWakeUp returns the start of the next window', () => {
+    assert.equal(ScheduleTracker.getNextWakeUp(windows, utc(19, 12, 15)), utc(19, 12, 15));
+    assert.equal(ScheduleTracker.getNextWakeUp(windows, utc(19, 14)), utc(19, 18));
+    assert.equal(ScheduleTracker.getNextWakeUp(windows, utc(19, 23)), utc(20, 12));
+});
+
+test('getNextWakeUp skips to the weekend windows and across a DST change', () => {
+    const schedule: ActiveHoursSchedule = { ...windows, weekend: { activeWindows: ['10:00-11:00'] } };
+    assert.equal(ScheduleTracker.getNextWakeUp(schedule, utc(23, 23)), utc(24, 10));
+
+    // Clocks go back on 25 Oct 2026: 09:00 in Warsaw is 07:00 UTC on Saturday, 08:00 UTC on Sunday
+    const warsaw: ActiveHoursSchedule = { sleepStartHour: 0, sleepEndHour: 0, activeWindows: ['09:00-10:00'], timezone: 'Europe/Warsaw' };
+    assert.equal(ScheduleTracker.getNextWakeUp(warsaw, utc(24, 12)), utc(25, 8));
+});
+
+test('getNextWakeUp returns null when the schedule is never active', () => {
+    const never: ActiveHoursSchedule = { sleepStartHour: 0, sleepEndHour: 0, activeWindows: [], timezone: 'UTC' };
+    assert.equal(ScheduleTracker.getNextWakeUp(never, utc(19, 12)), null);
+});
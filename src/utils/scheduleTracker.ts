@@ -1,98 +1,250 @@
-import fs from 'fs';
-import path from 'path';
+import { getTrackerStore } from './trackerStore';
 
-interface ScheduleLog {
-    [accountId: string]: {
-        nextActiveTime: number; // Timestamp of when the bot can become active again
-        lastDMCheckTime?: number; // Timestamp of when the last DM check occurred
-    }
+interface ScheduleEntry {
+    nextActiveTime: number; // Timestamp of when the bot can become active again
+    lastDMCheckTime?: number; // Timestamp of when the last DM check occurred
+    pause?: AccountPause; // Set by an operator through the API
+}
+
+export interface AccountPause {
+    since: number;
+    until: number | null; // null = paused until resumed
+}
+
+/**
+ * Active hours for one kind of day. activeWindows ("HH:MM-HH:MM", may cross midnight)
+ * replace the sleep hours when set.
+ */
+export interface DayProfile {
+    sleepStartHour: number;
+    sleepEndHour: number;
+    activeWindows?: string[];
+}
+
+export interface ActiveHoursSchedule extends DayProfile {
+    timezone?: string;              // IANA zone, e.g. "Europe/Warsaw". Server zone when unset.
+    weekend?: Partial<DayProfile>;  // Saturday/Sunday overrides
+}
+
+interface Interval {
+    start: number; // Minutes since local midnight
+    end: number;   // Exclusive, may exceed 1440 for windows crossing midnight
 }
 
-const LOG_FILE = path.join(process.cwd(), 'logs', 'schedule_history.json');
+const MINUTES_PER_DAY = 24 * 60;
+// How far ahead getNextWakeUp() looks before giving up (a full week plus a day)
+const WAKE_UP_SEARCH_DAYS = 8;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const localTimeFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Parses "HH:MM-HH:MM" into minutes since midnight. "24:00" is allowed as an end time;
+ * an end before the start means the window crosses midnight.
+ */
+export const parseTimeWindow = (value: string): Interval | null => {
+    const match = /^\s*(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})\s*$/.exec(value);
+    if (!match) return null;
+    const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(Number);
+    if (startHour > 23 || startMinute > 59 || endMinute > 59 || endHour > 24 || (endHour === 24 && endMinute > 0)) return null;
+    const start = startHour * 60 + startMinute;
+    let end = endHour * 60 + endMinute;
+    if (end === start) return null;
+    if (end < start) end += MINUTES_PER_DAY;
+    return { start, end };
+};
+
+export const isValidTimezone = (timezone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Weekday (0 = Sunday) and minute of the day at the given instant in the given zone.
+ */
+const getLocalTime = (timestamp: number, timezone?: string): { weekday: number; minuteOfDay: number } => {
+    if (!timezone) {
+        const date = new Date(timestamp);
+        return { weekday: date.getDay(), minuteOfDay: date.getHours() * 60 + date.getMinutes() };
+    }
+    let formatter = localTimeFormatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+        localTimeFormatters.set(timezone, formatter);
+    }
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(new Date(timestamp))) parts[part.type] = part.value;
+    return {
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+        minuteOfDay: (Number(parts.hour) % 24) * 60 + Number(parts.minute)
+    };
+};
+
+const getDayProfile = (schedule: ActiveHoursSchedule, weekday: number): DayProfile => {
+    const isWeekend = weekday === 0 || weekday === 6;
+    if (!isWeekend || !schedule.weekend) return schedule;
+    const { weekend } = schedule;
+    // Weekend sleep hours without weekend windows mean "use sleep hours", not the weekday windows
+    const usesSleepHours = weekend.activeWindows === undefined && (weekend.sleepStartHour !== undefined || weekend.sleepEndHour !== undefined);
+    return {
+        sleepStartHour: weekend.sleepStartHour ?? schedule.sleepStartHour,
+        sleepEndHour: weekend.sleepEndHour ?? schedule.sleepEndHour,
+        activeWindows: usesSleepHours ? undefined : (weekend.activeWindows ?? schedule.activeWindows)
+    };
+};
+
+const getProfileIntervals = (profile: DayProfile): Interval[] => {
+    if (profile.activeWindows) {
+        return profile.activeWindows.map(parseTimeWindow).filter((w): w is Interval => w !== null);
+    }
+    const sleepStart = profile.sleepStartHour * 60;
+    const sleepEnd = profile.sleepEndHour * 60;
+    if (sleepStart === sleepEnd) return [{ start: 0, end: MINUTES_PER_DAY }];
+    if (sleepStart > sleepEnd) return [{ start: sleepEnd, end: sleepStart }]; // Sleep over midnight (e.g. 23:00 to 07:00)
+    return [{ start: 0, end: sleepStart }, { start: sleepEnd, end: MINUTES_PER_DAY }];
+};
+
+/**
+ * Active intervals of a local day: its own windows plus the part of the previous day's
+ * windows that runs past midnight.
+ */
+const getDayIntervals = (schedule: ActiveHoursSchedule, weekday: number): Interval[] => {
+    const spill = getProfileIntervals(getDayProfile(schedule, (weekday + 6) % 7))
+        .filter(w => w.end > MINUTES_PER_DAY)
+        .map(w => ({ start: 0, end: w.end - MINUTES_PER_DAY }));
+    const own = getProfileIntervals(getDayProfile(schedule, weekday))
+        .map(w => ({ start: w.start, end: Math.min(w.end, MINUTES_PER_DAY) }));
+    return [...spill, ...own];
+};
 
 export class ScheduleTracker {
     private accountId: string;
-    private data: ScheduleLog;
 
     constructor(accountId: string) {
         this.accountId = accountId;
-        this.data = this.loadData();
     }
 
-    private loadData(): ScheduleLog {
+    // Always reload to get updates from overlapping loops/processes
+    private loadEntry(): ScheduleEntry | undefined {
         try {
-            if (!fs.existsSync(LOG_FILE)) {
-                return {};
-            }
-            return JSON.parse(fs.readFileSync(LOG_FILE, 'utf-8'));
+            return getTrackerStore().get<ScheduleEntry>('schedule', this.accountId);
         } catch (error) {
             console.error("Error loading schedule log:", error);
-            return {};
+            return undefined;
         }
     }
 
-    private saveData() {
+    private updateEntry(mutate: (entry: ScheduleEntry) => void) {
         try {
-            const dir = path.dirname(LOG_FILE);
-            if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-            fs.writeFileSync(LOG_FILE, JSON.stringify(this.data, null, 2));
+            getTrackerStore().update<ScheduleEntry>('schedule', this.accountId, current => {
+                const entry = current || { nextActiveTime: 0 };
+                mutate(entry);
+                return entry;
+            });
         } catch (error) {
             console.error("Error saving schedule log:", error);
         }
     }
 
     /**
-       * Checks if the current local time is within the sleep window.
-       * Supports sleep windows traversing midnight (e.g., 23 - 07).
-       * @param sleepStartHour Hour to start sleeping (0-23)
-       * @param sleepEndHour Hour to wake up (0-23)
-       * @returns true if the bot should be sleeping
+       * Checks if the given time falls in the account's active hours, in the account's timezone.
        */
-    public static isSleepTime(sleepStartHour: number, sleepEndHour: number): boolean {
-        const now = new Date();
-        const currentHour = now.getHours();
-
-        if (sleepStartHour > sleepEndHour) {
-            // Sleep over midnight (e.g. 23:00 to 07:00)
-            return currentHour >= sleepStartHour || currentHour < sleepEndHour;
-        } else {
-            // Sleep within the same day (e.g. 01:00 to 05:00)
-            return currentHour >= sleepStartHour && currentHour < sleepEndHour;
+    public static isActiveTime(schedule: ActiveHoursSchedule, timestamp: number = Date.now()): boolean {
+        const { weekday, minuteOfDay } = getLocalTime(timestamp, schedule.timezone);
+        return getDayIntervals(schedule, weekday).some(w => minuteOfDay >= w.start && minuteOfDay < w.end);
+    }
+
+    /**
+       * Returns the first moment at or after `from` that falls in the active hours,
+       * or null when the schedule has no active time within the next week.
+       */
+    public static getNextWakeUp(schedule: ActiveHoursSchedule, from: number = Date.now()): number | null {
+        if (ScheduleTracker.isActiveTime(schedule, from)) return from;
+
+        let timestamp = from - (from % 60000);
+        const deadline = from + WAKE_UP_SEARCH_DAYS * MINUTES_PER_DAY * 60000;
+        while (timestamp < deadline) {
+            const { weekday, minuteOfDay } = getLocalTime(timestamp, schedule.timezone);
+            const intervals = getDayIntervals(schedule, weekday);
+            if (intervals.some(w => minuteOfDay >= w.start && minuteOfDay < w.end)) return timestamp;
+
+            // Jump to the next window start today, or to local midnight. Across a DST change the
+            // jump can land an hour early, the next iteration then jumps again.
+            const nextStart = intervals.map(w => w.start).filter(start => start > minuteOfDay).sort((a, b) => a - b)[0];
+            timestamp += ((nextStart ?? MINUTES_PER_DAY) - minuteOfDay) * 60000;
         }
+        return null;
+    }
+
+    /**
+       * Human-readable active hours for logs, e.g. "12:00-13:30, 18:00-22:30 (weekend 10:00-23:00) Europe/Warsaw".
+       */
+    public static describeActiveHours(schedule: ActiveHoursSchedule): string {
+        const describe = (profile: DayProfile) => profile.activeWindows
+            ? profile.activeWindows.join(', ')
+            : `sleep ${profile.sleepStartHour}:00-${profile.sleepEndHour}:00`;
+        const weekend = schedule.weekend ? ` (weekend ${describe(getDayProfile(schedule, 6))})` : '';
+        return `${describe(schedule)}${weekend} ${schedule.timezone || 'server time'}`;
+    }
+
+    /**
+       * Formats a timestamp in the account's timezone for logs, e.g. "Mon 19 Oct, 18:00 Europe/Warsaw".
+       */
+    public static formatLocalTime(timestamp: number, timezone?: string): string {
+        const formatted = new Date(timestamp).toLocaleString('en-GB', {
+            timeZone: timezone, weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+        });
+        return `${formatted} ${timezone || 'server time'}`;
     }
 
     public getNextActiveTime(): number {
-        this.data = this.loadData(); // Always reload to get updates from overlapping processes
-        if (!this.data[this.accountId]) {
-            return 0; // Can start immediately
-        }
-        return this.data[this.accountId].nextActiveTime || 0;
+        return this.loadEntry()?.nextActiveTime || 0; // 0 = can start immediately
     }
 
     public setNextActiveTime(timestamp: number) {
-        this.data = this.loadData();
-        if (!this.data[this.accountId]) {
-            this.data[this.accountId] = { nextActiveTime: 0 };
-        }
-        this.data[this.accountId].nextActiveTime = timestamp;
-        this.saveData();
+        this.updateEntry(entry => {
+            entry.nextActiveTime = timestamp;
+        });
     }
 
     public getLastDMCheckTime(): number {
-        this.data = this.loadData();
-        if (!this.data[this.accountId]) {
-            return 0;
-        }
-        return this.data[this.accountId].lastDMCheckTime || 0;
+        return this.loadEntry()?.lastDMCheckTime || 0;
     }
 
     public setLastDMCheckTime(timestamp: number) {
-        this.data = this.loadData();
-        if (!this.data[this.accountId]) {
-            this.data[this.accountId] = { nextActiveTime: 0 };
+        this.updateEntry(entry => {
+            entry.lastDMCheckTime = timestamp;
+        });
+    }
+
+    /**
+       * Returns the active operator pause, or null. Expired pauses are cleared on read.
+       */
+    public getPause(): AccountPause | null {
+        const pause = this.loadEntry()?.pause;
+        if (!pause) return null;
+        if (pause.until !== null && pause.until <= Date.now()) {
+            this.clearPause();
+            return null;
         }
-        this.data[this.accountId].lastDMCheckTime = timestamp;
-        this.saveData();
+        return pause;
+    }
+
+    public setPause(until: number | null) {
+        this.updateEntry(entry => {
+            entry.pause = { since: Date.now(), until };
+        });
+    }
+
+    public clearPause() {
+        if (!this.loadEntry()?.pause) return;
+        this.updateEntry(entry => {
+            delete entry.pause;
+        });
     }
 
     /**
@@ -0,0 +1,85 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { FileTrackerStore, withFileLock } from './trackerStore';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tracker-store-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+let files = 0;
+const newStore = () => {
+    const prefix = path.join(dir, `store-${++files}`);
+    const paths = { activity: `${prefix}-activity.json`, schedule: `${prefix}-schedule.json` };
+    return { store: new FileTrackerStore(paths), paths };
+};
+
+// Backdates a file's mtime by `ms`
+const age = (file: string, ms: number) => {
+    const time = new Date(Date.now() - ms);
+    fs.utimesSync(file, time, time);
+};
+
+test('update stores the result of mutate and leaves no lock or temp file behind', () => {
+    const { store, paths } = newStore();
+    assert.equal(store.get('activity', 'a'), undefined);
+    store.update<number>('activity', 'a', current => (current ?? 0) + 1);
+    store.update<number>('activity', 'a', current => (current ?? 0) + 1);
+    store.update<number>('activity', 'b', () => 5);
+
+    assert.deepEqual(store.getAll('activity'), { a: 2, b: 5 });
+    assert.deepEqual(JSON.parse(fs.readFileSync(paths.activity, 'utf-8')), { a: 2, b: 5 });
+    assert.deepEqual(fs.readdirSync(dir).filter(name => name.startsWith(path.basename(paths.activity))), [path.basename(paths.activity)]);
+});
+
+test('a corrupt file is moved aside and the last good content is kept', () => {
+    const { store, paths } = newStore();
+    store.update('activity', 'a', () => 1);
+    fs.writeFileSync(paths.activity, '{"a": 1, "b"');
+
+    assert.deepEqual(store.getAll('activity'), { a: 1 });
+    assert.equal(fs.existsSync(paths.activity), false);
+    assert.equal(fs.readdirSync(dir).filter(name => name.startsWith(`${path.basename(paths.activity)}.corrupt-`)).length, 1);
+    store.update('activity', 'b', () => 2);
+    assert.deepEqual(store.getAll('activity'), { a: 1, b: 2 });
+});
+
+test('withFileLock waits for a held lock and then times out', () => {
+    const file = path.join(dir, 'held.json');
+    fs.writeFileSync(`${file}.lock`, 'other-process');
+    let ran = false;
+    assert.throws(() => withFileLock(file, () => { ran = true; }), /Timed out waiting for lock/);
+    assert.equal(ran, false);
+    assert.equal(fs.readFileSync(`${file}.lock`, 'utf-8'), 'other-process');
+});
+
+test('withFileLock takes a stale lock over', () => {
+    const file = path.join(dir, 'stale.json');
+    fs.writeFileSync(`${file}.lock`, 'crashed-process');
+    age(`${file}.lock`, 60000);
+    assert.equal(withFileLock(file, () => fs.readFileSync(`${file}.lock`, 'utf-8').startsWith(`${process.pid}:`)), true);
+    assert.equal(fs.existsSync(`${file}.lock`), false);
+});
+
+test('a holder does not remove a lock another process took over', () => {
+    const file = path.join(dir, 'taken-over.json');
+    withFileLock(file, () => {
+        fs.writeFileSync(`${file}.lock`, 'new-owner');
+    });
+    assert.equal(fs.readFileSync(`${file}.lock`, 'utf-8'), 'new-owner');
+});
+
+test('updates from concurrent processes are not lost', async () => {
+    const { store, paths } = newStore();
+    const worker = `
+        const { FileTrackerStore } = require(${JSON.stringify(path.join(__dirname, 'trackerStore'))});
+        const store = new FileTrackerStore(${JSON.stringify(paths)});
+        for (let i = 0; i < 50; i++) store.update('activity', 'shared', current => (current || 0) + 1);
+    `;
+    const run = promisify(execFile);
+    await Promise.all([1, 2, 3].map(() => run(process.execPath, ['-e', worker], { timeout: 60000 })));
+    assert.equal(store.get('activity', 'shared'), 150);
+});
@@ -0,0 +1,305 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import mongoose from 'mongoose';
+import logger from '../config/logger';
+import { TrackerState } from '../models/TrackerState';
+
+export type TrackerCollection = 'activity' | 'schedule';
+
+/**
+ * Storage behind ActivityTracker and ScheduleTracker. Reads and updates are synchronous
+ * (the trackers are called from tight interaction loops); an update runs `mutate` on the
+ * latest entry of one account and stores the result in one step.
+ */
+export interface TrackerStore {
+    readonly kind: 'file' | 'mongo';
+    init(): Promise<void>;
+    get<T>(collection: TrackerCollection, accountId: string): T | undefined;
+    getAll<T>(collection: TrackerCollection): Record<string, T>;
+    update<T>(collection: TrackerCollection, accountId: string, mutate: (current: T | undefined) => T): T;
+    /** Waits for pending writes (called on shutdown before the DB connection closes). */
+    flush(): Promise<void>;
+}
+
+export const TRACKER_FILES: Record<TrackerCollection, string> = {
+    activity: path.join(process.cwd(), 'logs', 'activity_history.json'),
+    schedule: path.join(process.cwd(), 'logs', 'schedule_history.json')
+};
+
+// A lock older than this belongs to a crashed process
+const STALE_LOCK_MS = 10000;
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 20;
+
+// connectDB() gives up after about 6.5 minutes of retries
+const MONGO_WAIT_MS = 7 * 60 * 1000;
+
+const sleepSync = (ms: number) => Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+
+/**
+ * Removes `lockFile` when it is older than STALE_LOCK_MS. The lock is renamed away first and
+ * only deleted if it still holds the owner read from the stale file, so of several processes
+ * that found the same stale lock one removes it, and a fresh lock renamed by mistake is put
+ * back. Returns true when the caller should try to take the lock again at once.
+ */
+const removeStaleLock = (lockFile: string): boolean => {
+    let owner: string;
+    try {
+        // One descriptor, so the age and the owner come from the same file
+        const fd = fs.openSync(lockFile, 'r');
+        try {
+            if (Date.now() - fs.fstatSync(fd).mtimeMs <= STALE_LOCK_MS) return false;
+            owner = fs.readFileSync(fd, 'utf-8');
+        } finally {
+            fs.closeSync(fd);
+        }
+    } catch {
+        return true; // Released between our checks
+    }
+
+    const claimed = `${lockFile}.${process.pid}.stale`;
+    try {
+        fs.renameSync(lockFile, claimed);
+    } catch {
+        return true; // Another process got to it first
+    }
+    if (fs.readFileSync(claimed, 'utf-8') === owner) {
+        logger.warn(`Removing stale lock ${lockFile}.`);
+        fs.unlinkSync(claimed);
+        return true;
+    }
+    try {
+        fs.linkSync(claimed, lockFile);
+    } catch (error: any) {
+        logger.warn(`Could not restore lock ${lockFile}: ${error.message}`);
+    }
+    fs.unlinkSync(claimed);
+    return false;
+};
+
+/**
+ * Runs `fn` while holding `<file>.lock`, so read-modify-write cycles on a shared file don't
+ * interleave, across processes too. The lock file names its owner; a lock older than
+ * STALE_LOCK_MS is taken over, and a holder only removes the lock if it is still its own.
+ */
+export const withFileLock = <R>(file: string, fn: () => R): R => {
+    const lockFile = `${file}.lock`;
+    const owner = `${process.pid}:${crypto.randomBytes(8).toString('hex')}`;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    while (true) {
+        try {
+            fs.writeFileSync(lockFile, owner, { flag: 'wx' });
+            break;
+        } catch (error: any) {
+            if (error.code !== 'EEXIST') throw error;
+            if (removeStaleLock(lockFile)) continue;
+            if (Date.now() > deadline) throw new Error(`Timed out waiting for lock ${lockFile}`);
+            sleepSync(LOCK_RETRY_MS);
+        }
+    }
+
+    try {
+        return fn();
+    } finally {
+        try {
+            if (fs.readFileSync(lockFile, 'utf-8') === owner) fs.unlinkSync(lockFile);
+            else logger.warn(`Lock ${lockFile} was taken over while held (longer than ${STALE_LOCK_MS} ms).`);
+        } catch (error: any) {
+            logger.warn(`Could not release lock ${lockFile}: ${error.message}`);
+        }
+    }
+};
+
+/**
+ * One JSON file per tracker, shared by every account (the original layout, so existing
+ * files keep working). Updates hold a lock file across read-modify-write and replace the
+ * file with an atomic rename, so a crash mid-write never leaves a truncated file behind.
+ */
+export class FileTrackerStore implements TrackerStore {
+    public readonly kind = 'file';
+    // Last successfully parsed content per file, used if the file turns out to be unreadable
+    private lastGood = new Map<string, Record<string, any>>();
+    // Corrupt files moved aside and not written since; reads carry on with lastGood
+    private movedAside = new Set<string>();
+
+    constructor(private files: Record<TrackerCollection, string> = TRACKER_FILES) {}
+
+    public async init() {}
+
+    public get<T>(collection: TrackerCollection, accountId: string): T | undefined {
+        return this.read(this.files[collection])[accountId];
+    }
+
+    public getAll<T>(collection: TrackerCollection): Record<string, T> {
+        return this.read(this.files[collection]);
+    }
+
+    public update<T>(collection: TrackerCollection, accountId: string, mutate: (current: T | undefined) => T): T {
+        const file = this.files[collection];
+        return withFileLock(file, () => {
+            const data = this.read(file);
+            const updated = mutate(data[accountId]);
+            data[accountId] = updated;
+            this.write(file, data);
+            return updated;
+        });
+    }
+
+    public async flush() {}
+
+    private read(file: string): Record<string, any> {
+        let raw: string;
+        try {
+            raw = fs.readFileSync(file, 'utf-8');
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return this.movedAside.has(file) ? { ...(this.lastGood.get(file) || {}) } : {};
+            logger.error(`Error reading tracker file ${file}: ${error.message}`);
+            return { ...(this.lastGood.get(file) || {}) };
+        }
+
+        try {
+            const data = JSON.parse(raw);
+            this.lastGood.set(file, data);
+            return data;
+        } catch (error: any) {
+            // Keep the broken file for inspection and carry on with what we last read, instead
+            // of resetting every account to {}
+            const corruptPath = `${file}.corrupt-${Date.now()}`;
+            logger.error(`Tracker file ${file} is corrupt (${error.message}). Moved it to ${corruptPath}.`);
+            try {
+                fs.renameSync(file, corruptPath);
+                this.movedAside.add(file);
+            } catch (renameError: any) {
+                logger.error(`Could not move corrupt tracker file: ${renameError.message}`);
+            }
+            return { ...(this.lastGood.get(file) || {}) };
+        }
+    }
+
+    private write(file: string, data: Record<string, any>) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        const tempFile = `${file}.${process.pid}.tmp`;
+        const fd = fs.openSync(tempFile, 'w');
+        try {
+            fs.writeSync(fd, JSON.stringify(data, null, 2));
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        fs.renameSync(tempFile, file);
+        this.lastGood.set(file, data);
+        this.movedAside.delete(file);
+    }
+
+}
+
+/**
+ * Tracker state in MongoDB (one document per tracker and account). Everything is loaded into
+ * memory on init so reads stay synchronous; updates apply in memory at once and are written
+ * in the background, in order per account. Meant for a single bot process per database.
+ */
+export class MongoTrackerStore implements TrackerStore {
+    public readonly kind = 'mongo';
+    private cache: Record<TrackerCollection, Map<string, any>> = { activity: new Map(), schedule: new Map() };
+    private pending = new Map<string, Promise<void>>();
+    private ready = false;
+
+    public async init() {
+        if (this.ready) return;
+        if (mongoose.connection.readyState !== 1) {
+            logger.info("Tracker storage: waiting for MongoDB...");
+            let timer: NodeJS.Timeout | undefined;
+            const timeout = new Promise<never>((_resolve, reject) => {
+                timer = setTimeout(() => reject(new Error(`MongoDB not connected after ${MONGO_WAIT_MS / 60000} minutes (TRACKER_STORAGE=mongo needs it)`)), MONGO_WAIT_MS);
+            });
+            try {
+                await Promise.race([mongoose.connection.asPromise(), timeout]);
+            } finally {
+                clearTimeout(timer);
+            }
+        }
+        const docs = await TrackerState.find({}).lean();
+        for (const doc of docs) {
+            const collection = doc.collectionName as TrackerCollection;
+            if (this.cache[collection]) this.cache[collection].set(doc.accountId, doc.data);
+        }
+        this.ready = true;
+        logger.info(`Tracker storage: loaded ${docs.length} tracker entries from MongoDB.`);
+    }
+
+    public get<T>(collection: TrackerCollection, accountId: string): T | undefined {
+        this.assertReady();
+        return this.cache[collection].get(accountId);
+    }
+
+    public getAll<T>(collection: TrackerCollection): Record<string, T> {
+        this.assertReady();
+        return Object.fromEntries(this.cache[collection]);
+    }
+
+    public update<T>(collection: TrackerCollection, accountId: string, mutate: (current: T | undefined) => T): T {
+        this.assertReady();
+        const updated = mutate(this.cache[collection].get(accountId));
+        this.cache[collection].set(accountId, updated);
+
+        // Chain writes per account so an older snapshot never overwrites a newer one
+        const key = `${collection}:${accountId}`;
+        const previous = this.pending.get(key) || Promise.resolve();
+        const write = previous
+            .then(() => TrackerState.updateOne(
+                { collectionName: collection, accountId },
+                { $set: { data: this.cache[collection].get(accountId), updatedAt: new Date() } },
+                { upsert: true }
+            ))
+            .then(() => undefined)
+            .catch(error => {
+                logger.error(`Failed to save ${collection} tracker for ${accountId}: ${error.message || error}`);
+            });
+        this.pending.set(key, write);
+        write.then(() => {
+            if (this.pending.get(key) === write) this.pending.delete(key);
+        });
+        return updated;
+    }
+
+    public async flush() {
+        await Promise.all(this.pending.values());
+    }
+
+    private assertReady() {
+        if (!this.ready) throw new Error("MongoDB tracker storage used before initTrackerStore() finished");
+    }
+}
+
+let store: TrackerStore | null = null;
+
+/**
+ * The configured tracker storage: TRACKER_STORAGE=file (default) or mongo.
+ */
+export const getTrackerStore = (): TrackerStore => {
+    if (!store) {
+        const kind = (process.env.TRACKER_STORAGE || 'file').toLowerCase();
+        if (kind !== 'file' && kind !== 'mongo') {
+            logger.warn(`Unknown TRACKER_STORAGE "${kind}". Using file storage.`);
+        }
+        store = kind === 'mongo' ? new MongoTrackerStore() : new FileTrackerStore();
+    }
+    return store;
+};
+
+/**
+ * Replaces the configured storage, e.g. with a FileTrackerStore on temporary files in tests.
+ */
+export const setTrackerStore = (trackerStore: TrackerStore) => {
+    store = trackerStore;
+};
+
+export const initTrackerStore = async (): Promise<TrackerStore> => {
+    const trackerStore = getTrackerStore();
+    await trackerStore.init();
+    logger.info(`Tracker storage: ${trackerStore.kind}`);
+    return trackerStore;
+};